@@ -0,0 +1,73 @@
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import morgan from 'morgan';
+import cookieParser from 'cookie-parser';
+import authRoutes from './routes/auth';
+import studentRoutes from './routes/students';
+import analyticsRoutes from './routes/analytics';
+import userRoutes from './routes/users';
+import classRoutes from './routes/classes';
+import assessmentRoutes from './routes/assessments';
+import subjectRoutes from './routes/subjects';
+import auditRoutes from './routes/audit';
+import alertRoutes from './routes/alerts';
+import gradingScaleRoutes from './routes/gradingScales';
+import eventRoutes from './routes/events';
+import webhookRoutes from './routes/webhooks';
+import enrollmentRequestRoutes from './routes/enrollmentRequests';
+import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { ipRateLimit, RATE_LIMIT_HEADERS } from './middleware/rateLimit';
+
+/**
+ * The HTTP application: middleware, routes and error handling. It neither
+ * opens the database nor listens; src/index.ts does both at startup.
+ */
+const app = express();
+
+app.use(helmet());
+// Request logs would drown the test output
+if (process.env.NODE_ENV !== 'test') app.use(morgan('combined'));
+
+app.use(
+  cors({
+    origin: (origin, callback) => {
+      if (!origin || origin === "null") return callback(null, true);
+      if (["http://localhost:3000", "http://localhost:5173"].includes(origin)) return callback(null, true);
+      return callback(new Error("Not allowed by CORS"));
+    },
+    credentials: true,
+    // Lets the dashboard tell a replayed response from a new one and see
+    // how much of its rate limit is left
+    exposedHeaders: ['Idempotent-Replayed', ...RATE_LIMIT_HEADERS],
+  })
+);
+// app.use(cors({ origin: true, credentials: true }));
+
+app.use(express.json());
+app.use(express.urlencoded({ extended: true }));
+app.use(cookieParser());
+app.use(ipRateLimit);
+
+app.use('/auth', authRoutes);
+app.use('/students', studentRoutes);
+app.use('/analytics', analyticsRoutes);
+app.use('/users', userRoutes);
+app.use('/classes', classRoutes);
+app.use('/assessments', assessmentRoutes);
+app.use('/subjects', subjectRoutes);
+app.use('/audit', auditRoutes);
+app.use('/alerts', alertRoutes);
+app.use('/grading-scales', gradingScaleRoutes);
+app.use('/events', eventRoutes);
+app.use('/webhooks', webhookRoutes);
+app.use('/enrollment-requests', enrollmentRequestRoutes);
+
+app.get('/health', (req, res) => {
+  res.json({ status: 'OK', timestamp: new Date().toISOString() });
+});
+
+app.use(notFoundHandler);
+app.use(errorHandler);
+
+export default app;
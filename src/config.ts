@@ -0,0 +1,132 @@
+import path from 'path';
+
+const DEV_JWT_SECRET = 'teacher-dashboard-dev-secret-change-me';
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+const readNumber = (name: string, fallback: number, allowZero = false): number => {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0 || (value === 0 && !allowZero)) {
+    throw new Error(
+      `Environment variable ${name} must be a ${allowZero ? 'non-negative' : 'positive'} number`
+    );
+  }
+  return value;
+};
+
+const readSameSite = (): 'strict' | 'lax' | 'none' => {
+  const value = (process.env.COOKIE_SAME_SITE || 'strict').toLowerCase();
+  if (value !== 'strict' && value !== 'lax' && value !== 'none') {
+    throw new Error('COOKIE_SAME_SITE must be one of: strict, lax, none');
+  }
+  return value;
+};
+
+const readJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (secret) return secret;
+
+  if (isProduction) {
+    throw new Error('JWT_SECRET must be set in production');
+  }
+  console.warn('JWT_SECRET is not set - using an insecure development secret');
+  return DEV_JWT_SECRET;
+};
+
+// Password for an account seeded on first start. Outside production a
+// well-known demo password is used when none is set; in production there is
+// no fallback and the account is only seeded when the variable is set.
+const readSeedPassword = (name: string, devPassword: string): string | null => {
+  const password = process.env[name];
+  if (password) return password;
+  return isProduction ? null : devPassword;
+};
+
+/**
+ * Runtime configuration, read once from environment variables at startup.
+ */
+export const config = {
+  isProduction,
+  port: readNumber('PORT', 3001),
+  // SQLite database file; ':memory:' gives a throwaway database, e.g. in tests
+  databasePath: process.env.DATABASE_PATH || path.join(__dirname, '../database.sqlite'),
+  auth: {
+    jwtSecret: readJwtSecret(),
+    // Lifetime of the JWT access token, in seconds
+    accessTokenTtlSeconds: readNumber('ACCESS_TOKEN_TTL_SECONDS', 15 * 60),
+    // Lifetime of a login session / its refresh tokens, in days
+    refreshTokenTtlDays: readNumber('REFRESH_TOKEN_TTL_DAYS', 7),
+  },
+  seedUsers: {
+    // Passwords of the accounts created when the users table is empty
+    adminPassword: readSeedPassword('SEED_ADMIN_PASSWORD', 'admin123'),
+    teacherPassword: readSeedPassword('SEED_TEACHER_PASSWORD', 'password123'),
+  },
+  cookies: {
+    // Browsers only send Secure cookies over HTTPS; SameSite=None requires it
+    secure: process.env.COOKIE_SECURE
+      ? process.env.COOKIE_SECURE === 'true'
+      : isProduction,
+    sameSite: readSameSite(),
+  },
+  students: {
+    // Archived (soft-deleted) students are purged permanently after this many days
+    archiveRetentionDays: readNumber('STUDENT_ARCHIVE_RETENTION_DAYS', 30),
+    // How often the purge runs automatically, in hours; 0 disables it
+    purgeIntervalHours: readNumber('STUDENT_PURGE_INTERVAL_HOURS', 24, true),
+  },
+  atRisk: {
+    // Defaults for subjects without their own rule: a grade below minGrade, or
+    // a drop of at least maxDrop points in one change, flags the student
+    minGrade: readNumber('AT_RISK_MIN_GRADE', 60, true),
+    maxDrop: readNumber('AT_RISK_MAX_DROP', 10),
+    // How often teachers' alert inboxes are brought up to date, in seconds,
+    // besides right after grade changes; 0 disables the periodic run
+    alertSyncSeconds: readNumber('AT_RISK_ALERT_SYNC_SECONDS', 60, true),
+  },
+  events: {
+    // Comment lines sent this often keep idle event streams open through
+    // proxies; the session is checked again each time
+    heartbeatSeconds: readNumber('EVENTS_HEARTBEAT_SECONDS', 25),
+    // Analytics snapshots wait this long after a change so a burst of
+    // changes, e.g. a batch update, sends only one
+    analyticsDelayMs: readNumber('EVENTS_ANALYTICS_DELAY_MS', 1000, true),
+  },
+  webhooks: {
+    // Attempts per delivery, including the first, before it is marked failed
+    maxAttempts: readNumber('WEBHOOK_MAX_ATTEMPTS', 6),
+    // Wait before the first retry; doubles with every further attempt
+    retryBaseSeconds: readNumber('WEBHOOK_RETRY_BASE_SECONDS', 30),
+    // How long a receiver has to answer
+    timeoutMs: readNumber('WEBHOOK_TIMEOUT_MS', 10000),
+    // How often deliveries that are due for a retry are looked for
+    pollSeconds: readNumber('WEBHOOK_POLL_SECONDS', 5),
+  },
+  idempotency: {
+    // How long the response to a request with an Idempotency-Key is replayed
+    // to retries with the same key
+    keyTtlHours: readNumber('IDEMPOTENCY_KEY_TTL_HOURS', 24),
+  },
+  rateLimit: {
+    // Length of the window the request limits below apply to
+    windowSeconds: readNumber('RATE_LIMIT_WINDOW_SECONDS', 60),
+    // Requests per window from one IP address, and from one signed-in user;
+    // 0 disables the limit
+    perIp: readNumber('RATE_LIMIT_PER_IP', 300, true),
+    perUser: readNumber('RATE_LIMIT_PER_USER', 120, true),
+    // Login attempts per window from one IP address, whatever the username
+    loginPerIp: readNumber('RATE_LIMIT_LOGIN_PER_IP', 20, true),
+  },
+  loginLockout: {
+    // Failed logins for one username, within failureWindowMinutes, that lock it
+    maxFailures: readNumber('LOGIN_MAX_FAILURES', 5),
+    failureWindowMinutes: readNumber('LOGIN_FAILURE_WINDOW_MINUTES', 15),
+    // The first lockout lasts this long; each further one in a row twice as
+    // long, up to maxLockoutSeconds
+    lockoutSeconds: readNumber('LOGIN_LOCKOUT_SECONDS', 60),
+    maxLockoutSeconds: readNumber('LOGIN_MAX_LOCKOUT_SECONDS', 60 * 60),
+  },
+};
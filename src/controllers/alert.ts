@@ -0,0 +1,118 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { assertValid, ConflictError, NotFoundError, UnauthorizedError } from "../errors";
+import { getDatabase } from "../database/init";
+import { PaginatedResponse, StudentAlert } from "../types";
+
+interface AlertsQuery {
+  status?: "open" | "acknowledged" | "all";
+  page?: number;
+  limit?: number;
+}
+
+interface AlertResponse {
+  success: boolean;
+  data?: StudentAlert;
+  message: string;
+  timestamp: string;
+}
+
+// Alerts about archived students stay hidden until the student is restored
+const ALERT_FROM = `
+    FROM student_alerts a
+    JOIN students s ON s.id = a.student_id AND s.archived_at IS NULL`;
+
+const ALERT_SELECT = `
+  SELECT a.id, a.student_id, s.name AS student_name, s.subject, a.reason,
+         a.grade, a.previous_grade, a.threshold, a.created_at, a.acknowledged_at
+  ${ALERT_FROM}`;
+
+/**
+ * The teacher's alert inbox, newest first. Alerts are added in the
+ * background as grades change (see scheduleAlertSync), so listing them
+ * never writes.
+ */
+export const getAlerts = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<PaginatedResponse<StudentAlert>>
+) => {
+  assertValid(req);
+
+  const teacherId = req.user?.id;
+  if (teacherId === undefined) throw new UnauthorizedError();
+
+  const { status = "open", page = 1, limit = 20 }: AlertsQuery = req.query;
+  const db = getDatabase();
+
+  const conditions = ["a.teacher_id = ?"];
+  if (status === "open") conditions.push("a.acknowledged_at IS NULL");
+  if (status === "acknowledged") conditions.push("a.acknowledged_at IS NOT NULL");
+  const where = ` WHERE ${conditions.join(" AND ")}`;
+
+  const [alerts, countResult] = await Promise.all([
+    db.all(`${ALERT_SELECT}${where} ORDER BY a.id DESC LIMIT ? OFFSET ?`, [
+      teacherId,
+      limit,
+      (page - 1) * limit,
+    ]),
+    db.get(`SELECT COUNT(*) AS total ${ALERT_FROM}${where}`, [teacherId]),
+  ]);
+
+  const totalItems = countResult?.total || 0;
+  const totalPages = Math.ceil(totalItems / limit);
+
+  res.json({
+    success: true,
+    data: alerts,
+    pagination: {
+      currentPage: page,
+      totalPages,
+      totalItems,
+      itemsPerPage: limit,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    },
+    message: `Retrieved ${alerts.length} of ${totalItems} alerts`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Mark one of the teacher's alerts as handled
+ */
+export const acknowledgeAlert = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AlertResponse>
+) => {
+  assertValid(req);
+
+  const teacherId = req.user?.id;
+  if (teacherId === undefined) throw new UnauthorizedError();
+
+  const alertId = Number(req.params.id);
+  const db = getDatabase();
+
+  const alert = await db.get(
+    `${ALERT_SELECT} WHERE a.id = ? AND a.teacher_id = ?`,
+    [alertId, teacherId]
+  );
+
+  if (!alert) throw new NotFoundError("Alert not found");
+
+  if (alert.acknowledged_at)
+    throw new ConflictError("Alert has already been acknowledged");
+
+  const acknowledgedAt = new Date().toISOString();
+  await db.run("UPDATE student_alerts SET acknowledged_at = ? WHERE id = ?", [
+    acknowledgedAt,
+    alertId,
+  ]);
+
+  res.json({
+    success: true,
+    data: { ...alert, acknowledged_at: acknowledgedAt },
+    message: "Alert acknowledged",
+    timestamp: new Date().toISOString(),
+  });
+});
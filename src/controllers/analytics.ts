@@ -1,88 +1,162 @@
-import { validationResult } from "express-validator";
 import { Response } from "express";
 import { AuthenticatedRequest } from "../middleware/auth";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { assertValid, BadRequestError } from "../errors";
 import { getDatabase } from "../database/init";
-import { Analytics, ApiResponse } from "../types";
+import {
+  Analytics,
+  ApiResponse,
+  GradeDistribution,
+  GradeTrendPoint,
+  StudentPercentile,
+  TrendInterval,
+} from "../types";
+import { getStudentScope } from "../services/studentScope";
+import {
+  computeAnalytics,
+  computeDistribution,
+  computePercentiles,
+} from "../services/analytics";
+import { computeGradeTrends, trendPeriods } from "../services/gradeTrends";
 
 interface AnalyticsQuery {
   limit?: number;
   subject?: string;
+  includeArchived?: boolean;
+  bucketSize?: number;
+  interval?: TrendInterval;
+  from?: string;
+  to?: string;
 }
 
-interface AnalyticsResponse extends ApiResponse<Analytics> {
+// Longest series GET /analytics/trends returns, about five years of weeks
+const MAX_TREND_PERIODS = 260;
+
+interface AnalyticsResponse<T = Analytics> extends ApiResponse<T> {
   timestamp: string;
-  errors?: any[];
 }
 
-export const getAnalytics = async (
+export const getAnalytics = asyncHandler(async (
   req: AuthenticatedRequest,
   res: Response<AnalyticsResponse>
 ) => {
-  try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({
-        success: false,
-        message: "Validation failed",
-        timestamp: new Date().toISOString(),
-        errors: errors.array(),
-      });
-    }
-
-    const { limit = 10, subject }: AnalyticsQuery = req.query;
-    const db = getDatabase();
-
-    // Build dynamic queries based on filters
-    let studentCountQuery = "SELECT COUNT(*) as count FROM students";
-    let averageQuery = "SELECT subject, AVG(grade) as average FROM students";
-    let recentQuery = "SELECT id, name, email, subject, grade, created_at FROM students";
-    const params: any[] = [];
-
-    // Apply subject filter if provided
-    if (subject) {
-      const whereClause = " WHERE subject = ?";
-      studentCountQuery += whereClause;
-      averageQuery += whereClause + " GROUP BY subject";
-      recentQuery += whereClause;
-      params.push(subject);
-    } else {
-      averageQuery += " GROUP BY subject";
-    }
-
-    recentQuery += " ORDER BY created_at DESC LIMIT ?";
-    const recentParams = subject ? [subject, limit] : [limit];
-
-    // Execute queries in parallel for better performance
-    const [totalResult, averageBySubject, recentAdditions] = await Promise.all([
-      db.get(studentCountQuery, subject ? [subject] : []),
-      db.all(averageQuery, subject ? [subject] : []),
-      db.all(recentQuery, recentParams),
-    ]);
-
-    const totalStudents = totalResult?.count || 0;
-
-    const averageGradeBySubject: { [subject: string]: number } = {};
-    averageBySubject.forEach((row) => {
-      averageGradeBySubject[row.subject] = Math.round(row.average * 100) / 100;
-    });
-
-    const analytics: Analytics = {
-      totalStudents,
-      averageGradeBySubject,
-      recentAdditions,
-    };
-
-    res.json({
-      success: true,
-      data: analytics,
-      message: `Analytics retrieved successfully${subject ? ` for ${subject}` : ""}`,
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      message: "An unexpected error occurred while retrieving analytics",
-      timestamp: new Date().toISOString(),
-    });
-  }
-};
+  assertValid(req);
+
+  const { limit = 10, subject, includeArchived }: AnalyticsQuery = req.query;
+
+  // Student users only see analytics for their own record
+  const analytics = await computeAnalytics(
+    getDatabase(),
+    getStudentScope(req.user),
+    { limit, subject, includeArchived }
+  );
+
+  res.json({
+    success: true,
+    data: analytics,
+    message: `Analytics retrieved successfully${subject ? ` for ${subject}` : ""}`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Mean, median, spread, histogram and letter grades, overall and per subject
+ */
+export const getGradeDistribution = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AnalyticsResponse<GradeDistribution>>
+) => {
+  assertValid(req);
+
+  const { subject, includeArchived, bucketSize = 10 }: AnalyticsQuery =
+    req.query;
+
+  const distribution = await computeDistribution(
+    getDatabase(),
+    getStudentScope(req.user),
+    { subject, includeArchived },
+    bucketSize
+  );
+
+  res.json({
+    success: true,
+    data: distribution,
+    message: `Grade distribution retrieved successfully${subject ? ` for ${subject}` : ""}`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Percentile rank of every visible student within their subject
+ */
+export const getStudentPercentiles = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AnalyticsResponse<StudentPercentile[]>>
+) => {
+  assertValid(req);
+
+  const { subject, includeArchived }: AnalyticsQuery = req.query;
+
+  const percentiles = await computePercentiles(
+    getDatabase(),
+    getStudentScope(req.user),
+    { subject, includeArchived }
+  );
+
+  res.json({
+    success: true,
+    data: percentiles,
+    message: `Retrieved percentile ranks for ${percentiles.length} students`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Average grade per week or month over a date range. Defaults to the last
+ * twelve periods.
+ */
+export const getGradeTrends = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AnalyticsResponse<GradeTrendPoint[]>>
+) => {
+  assertValid(req);
+
+  const {
+    subject,
+    includeArchived,
+    interval = "month",
+    from,
+    to,
+  }: AnalyticsQuery = req.query;
+
+  // A bare date includes the whole of that day
+  const end = to
+    ? new Date(to.length === 10 ? `${to}T23:59:59.999Z` : to)
+    : new Date();
+  const start = from
+    ? new Date(from)
+    : interval === "month"
+    ? new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - 11, 1))
+    : new Date(end.getTime() - 11 * 7 * 24 * 60 * 60 * 1000);
+
+  if (start > end) throw new BadRequestError("from must not be after to");
+
+  if (trendPeriods(interval, start, end).length > MAX_TREND_PERIODS)
+    throw new BadRequestError(`The date range covers more than ${MAX_TREND_PERIODS} ${interval}s`);
+
+  const trends = await computeGradeTrends(
+    getDatabase(),
+    getStudentScope(req.user),
+    { subject, includeArchived },
+    interval,
+    start,
+    end
+  );
+
+  res.json({
+    success: true,
+    data: trends,
+    message: `Retrieved ${trends.length} ${interval}ly averages`,
+    timestamp: new Date().toISOString(),
+  });
+});
@@ -0,0 +1,717 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { asyncHandler } from "../middleware/asyncHandler";
+import {
+  assertValid,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  toConflictIfUnique,
+} from "../errors";
+import { Database, getDatabase } from "../database/init";
+import { Roles } from "../types/enums";
+import {
+  Assessment,
+  AssessmentCategory,
+  AssessmentScore,
+  GradeBreakdown,
+} from "../types";
+import { findAccessibleClass } from "./class";
+import {
+  getStudentScope,
+  scopedStudentQuery,
+} from "../services/studentScope";
+import {
+  getGradeBreakdown,
+  recalculateAllGrades,
+  recalculateStudentGrades,
+} from "../services/grades";
+import { publishStudentEvent } from "../services/events";
+import { STUDENT_RESPONSE_SELECT } from "./student";
+
+interface AssessmentResponse<T> {
+  success: boolean;
+  data?: T;
+  message: string;
+  timestamp: string;
+}
+
+interface GetAssessmentsQuery {
+  classId?: number;
+  subject?: string;
+  categoryId?: number;
+}
+
+interface AssessmentRequest {
+  title?: string;
+  categoryId?: number;
+  subject?: string;
+  classId?: number;
+  maxScore?: number;
+  assessedOn?: string;
+}
+
+interface ScoreEntry {
+  studentId: number;
+  score: number;
+}
+
+interface StudentScoresQuery {
+  categoryId?: number;
+  from?: string;
+  to?: string;
+}
+
+const ASSESSMENT_SELECT = `
+  SELECT a.id, a.title, a.category_id, c.name AS category_name, a.subject, a.class_id,
+         a.max_score, a.assessed_on, a.created_by,
+         (SELECT COUNT(*) FROM assessment_scores sc WHERE sc.assessment_id = a.id) AS score_count,
+         a.created_at, a.updated_at
+    FROM assessments a
+    JOIN assessment_categories c ON c.id = a.category_id`;
+
+/**
+ * Teachers may manage assessments they created or that belong to one of
+ * their classes; admins may manage every assessment.
+ */
+const assessmentAccessCondition = (
+  user: AuthenticatedRequest["user"]
+): { condition?: string; params: any[] } => {
+  if (user?.role === Roles.ADMIN) return { params: [] };
+
+  return {
+    condition:
+      "(a.created_by = ? OR a.class_id IN (SELECT id FROM classes WHERE teacher_id = ?))",
+    params: [user?.id, user?.id],
+  };
+};
+
+/**
+ * Tell event streams and webhooks about grades a committed score change
+ * moved, like any other student update
+ */
+const publishGradeChanges = async (
+  db: Database,
+  studentIds: number[],
+  actor: AuthenticatedRequest["user"]
+): Promise<void> => {
+  for (const studentId of studentIds) {
+    const student = await db.get(`${STUDENT_RESPONSE_SELECT} WHERE id = ?`, [
+      studentId,
+    ]);
+    if (student) publishStudentEvent("student.updated", student, actor);
+  }
+};
+
+const findAccessibleAssessment = (
+  db: Database,
+  assessmentId: number,
+  user: AuthenticatedRequest["user"]
+): Promise<Assessment | undefined> => {
+  const access = assessmentAccessCondition(user);
+  const where = access.condition
+    ? `WHERE a.id = ? AND ${access.condition}`
+    : "WHERE a.id = ?";
+
+  return db.get(`${ASSESSMENT_SELECT} ${where}`, [
+    assessmentId,
+    ...access.params,
+  ]);
+};
+
+export const getCategories = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AssessmentResponse<AssessmentCategory[]>>
+) => {
+  const categories = await getDatabase().all(
+    "SELECT id, name, weight, created_at FROM assessment_categories ORDER BY name ASC"
+  );
+
+  res.json({
+    success: true,
+    data: categories,
+    message: `Retrieved ${categories.length} assessment categories`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const createCategory = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AssessmentResponse<AssessmentCategory>>
+) => {
+  assertValid(req);
+
+  const { name, weight } = req.body;
+  const db = getDatabase();
+
+  const result = await db
+    .run("INSERT INTO assessment_categories (name, weight) VALUES (?, ?)", [name, weight])
+    .catch((error) => {
+      throw toConflictIfUnique(error, "An assessment category with this name already exists");
+    });
+
+  const category = await db.get(
+    "SELECT id, name, weight, created_at FROM assessment_categories WHERE id = ?",
+    [result.lastID]
+  );
+
+  res.status(201).json({
+    success: true,
+    data: category,
+    message: "Assessment category created successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Rename or re-weight a category. Changing the weight changes every
+ * student's current grade, so all grades are recomputed in the same
+ * transaction.
+ */
+export const updateCategory = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AssessmentResponse<AssessmentCategory>>
+) => {
+  assertValid(req);
+
+  const categoryId = Number(req.params.id);
+  const { name, weight } = req.body;
+  const db = getDatabase();
+
+  const existing = await db.get(
+    "SELECT id, weight FROM assessment_categories WHERE id = ?",
+    [categoryId]
+  );
+
+  if (!existing) throw new NotFoundError("Assessment category not found");
+
+  if (name === undefined && weight === undefined)
+    throw new BadRequestError("No valid fields to update");
+
+  const regraded = await db
+    .withTransaction(async () => {
+      await db.run(
+        "UPDATE assessment_categories SET name = COALESCE(?, name), weight = COALESCE(?, weight) WHERE id = ?",
+        [name ?? null, weight ?? null, categoryId]
+      );
+
+      return weight !== undefined && weight !== existing.weight
+        ? recalculateAllGrades(db, req.user, "category weight changed")
+        : [];
+    })
+    .catch((error) => {
+      throw toConflictIfUnique(error, "An assessment category with this name already exists");
+    });
+  await publishGradeChanges(db, regraded, req.user);
+
+  const category = await db.get(
+    "SELECT id, name, weight, created_at FROM assessment_categories WHERE id = ?",
+    [categoryId]
+  );
+
+  res.json({
+    success: true,
+    data: category,
+    message: "Assessment category updated successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const deleteCategory = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AssessmentResponse<{ deletedId: number }>>
+) => {
+  assertValid(req);
+
+  const categoryId = Number(req.params.id);
+  const db = getDatabase();
+
+  const inUse = await db.get(
+    "SELECT 1 AS found FROM assessments WHERE category_id = ? LIMIT 1",
+    [categoryId]
+  );
+
+  if (inUse)
+    throw new ConflictError("This category is used by existing assessments and cannot be deleted");
+
+  const result = await db.run(
+    "DELETE FROM assessment_categories WHERE id = ?",
+    [categoryId]
+  );
+
+  if (result.changes === 0) throw new NotFoundError("Assessment category not found");
+
+  res.json({
+    success: true,
+    data: { deletedId: categoryId },
+    message: "Assessment category deleted successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const getAssessments = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AssessmentResponse<Assessment[]>>
+) => {
+  assertValid(req);
+
+  const { classId, subject, categoryId }: GetAssessmentsQuery = req.query;
+  const db = getDatabase();
+
+  const access = assessmentAccessCondition(req.user);
+  const conditions: string[] = access.condition ? [access.condition] : [];
+  const params: any[] = [...access.params];
+
+  if (classId) {
+    conditions.push("a.class_id = ?");
+    params.push(classId);
+  }
+
+  if (subject) {
+    conditions.push("a.subject = ?");
+    params.push(subject);
+  }
+
+  if (categoryId) {
+    conditions.push("a.category_id = ?");
+    params.push(categoryId);
+  }
+
+  let query = ASSESSMENT_SELECT;
+  if (conditions.length > 0) query += ` WHERE ${conditions.join(" AND ")}`;
+  query += " ORDER BY a.assessed_on DESC, a.id DESC";
+
+  const assessments = await db.all(query, params);
+
+  res.json({
+    success: true,
+    data: assessments,
+    message: `Retrieved ${assessments.length} assessments`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const getAssessment = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AssessmentResponse<Assessment>>
+) => {
+  assertValid(req);
+
+  const assessmentId = Number(req.params.id);
+  const db = getDatabase();
+
+  const assessment = await findAccessibleAssessment(
+    db,
+    assessmentId,
+    req.user
+  );
+
+  if (!assessment) throw new NotFoundError("Assessment not found");
+
+  assessment.scores = await db.all(
+    `SELECT sc.assessment_id, sc.student_id, s.name AS student_name, sc.score,
+            ROUND(sc.score * 100.0 / ?, 2) AS percentage, sc.recorded_at
+       FROM assessment_scores sc JOIN students s ON s.id = sc.student_id
+      WHERE sc.assessment_id = ?
+      ORDER BY s.name ASC`,
+    [assessment.max_score, assessmentId]
+  );
+
+  res.json({
+    success: true,
+    data: assessment,
+    message: "Assessment retrieved successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const createAssessment = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AssessmentResponse<Assessment>>
+) => {
+  assertValid(req);
+
+  const {
+    title,
+    categoryId,
+    subject,
+    classId,
+    maxScore,
+    assessedOn,
+  }: AssessmentRequest = req.body;
+  const db = getDatabase();
+
+  let assessmentSubject = subject;
+
+  if (classId !== undefined) {
+    const schoolClass = await findAccessibleClass(db, classId, req.user);
+    if (!schoolClass) throw new NotFoundError("Class not found");
+    assessmentSubject = assessmentSubject ?? schoolClass.subject;
+  }
+
+  if (!assessmentSubject)
+    throw new BadRequestError("subject is required when no classId is given");
+
+  const category = await db.get(
+    "SELECT id FROM assessment_categories WHERE id = ?",
+    [categoryId]
+  );
+
+  if (!category)
+    throw new BadRequestError("categoryId must reference an existing assessment category");
+
+  const result = await db.run(
+    `INSERT INTO assessments (title, category_id, subject, class_id, max_score, assessed_on, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      title,
+      categoryId,
+      assessmentSubject,
+      classId ?? null,
+      maxScore,
+      assessedOn ?? new Date().toISOString().slice(0, 10),
+      req.user?.id,
+    ]
+  );
+
+  const assessment = await db.get(`${ASSESSMENT_SELECT} WHERE a.id = ?`, [
+    result.lastID,
+  ]);
+
+  res.status(201).json({
+    success: true,
+    data: assessment,
+    message: "Assessment created successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const updateAssessment = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AssessmentResponse<Assessment>>
+) => {
+  assertValid(req);
+
+  const assessmentId = Number(req.params.id);
+  const updates: AssessmentRequest = req.body;
+  const db = getDatabase();
+
+  const assessment = await findAccessibleAssessment(
+    db,
+    assessmentId,
+    req.user
+  );
+
+  if (!assessment) throw new NotFoundError("Assessment not found");
+
+  const columns: Record<string, string> = {
+    title: "title",
+    categoryId: "category_id",
+    subject: "subject",
+    maxScore: "max_score",
+    assessedOn: "assessed_on",
+  };
+  const updateFields = Object.keys(columns).filter(
+    (field) => updates[field as keyof AssessmentRequest] !== undefined
+  );
+
+  if (updateFields.length === 0) throw new BadRequestError("No valid fields to update");
+
+  if (updates.categoryId !== undefined) {
+    const category = await db.get(
+      "SELECT id FROM assessment_categories WHERE id = ?",
+      [updates.categoryId]
+    );
+    if (!category)
+      throw new BadRequestError("categoryId must reference an existing assessment category");
+  }
+
+  // Lowering the maximum below a recorded score would produce >100%
+  if (updates.maxScore !== undefined) {
+    const highest = await db.get(
+      "SELECT MAX(score) AS score FROM assessment_scores WHERE assessment_id = ?",
+      [assessmentId]
+    );
+    if (highest?.score !== null && highest.score > updates.maxScore)
+      throw new BadRequestError(`maxScore cannot be lower than the highest recorded score (${highest.score})`);
+  }
+
+  const setClause = updateFields
+    .map((field) => `${columns[field]} = ?`)
+    .join(", ");
+  const values = updateFields.map(
+    (field) => updates[field as keyof AssessmentRequest]
+  );
+
+  const regraded = await db.withTransaction(async () => {
+    await db.run(
+      `UPDATE assessments SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [...values, assessmentId]
+    );
+
+    // Category and maximum both feed into the weighted grade
+    if (updates.categoryId === undefined && updates.maxScore === undefined)
+      return [];
+
+    const scored = await db.all(
+      "SELECT student_id FROM assessment_scores WHERE assessment_id = ?",
+      [assessmentId]
+    );
+    return recalculateStudentGrades(
+      db,
+      scored.map((row) => row.student_id),
+      req.user,
+      "assessment updated"
+    );
+  });
+  await publishGradeChanges(db, regraded, req.user);
+
+  const updated = await db.get(`${ASSESSMENT_SELECT} WHERE a.id = ?`, [
+    assessmentId,
+  ]);
+
+  res.json({
+    success: true,
+    data: updated,
+    message: "Assessment updated successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const deleteAssessment = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AssessmentResponse<{ deletedId: number }>>
+) => {
+  assertValid(req);
+
+  const assessmentId = Number(req.params.id);
+  const db = getDatabase();
+
+  const assessment = await findAccessibleAssessment(
+    db,
+    assessmentId,
+    req.user
+  );
+
+  if (!assessment) throw new NotFoundError("Assessment not found");
+
+  const regraded = await db.withTransaction(async () => {
+    const scored = await db.all(
+      "SELECT student_id FROM assessment_scores WHERE assessment_id = ?",
+      [assessmentId]
+    );
+
+    // Scores are removed by ON DELETE CASCADE
+    await db.run("DELETE FROM assessments WHERE id = ?", [assessmentId]);
+    return recalculateStudentGrades(
+      db,
+      scored.map((row) => row.student_id),
+      req.user,
+      "assessment deleted"
+    );
+  });
+  await publishGradeChanges(db, regraded, req.user);
+
+  res.json({
+    success: true,
+    data: { deletedId: assessmentId },
+    message: "Assessment deleted successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Record (or overwrite) scores for one assessment. All entries are applied
+ * in a single transaction together with the affected students' grades.
+ */
+export const recordScores = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AssessmentResponse<AssessmentScore[]>>
+) => {
+  assertValid(req);
+
+  const assessmentId = Number(req.params.id);
+  const scores: ScoreEntry[] = req.body.scores;
+  const db = getDatabase();
+
+  const assessment = await findAccessibleAssessment(
+    db,
+    assessmentId,
+    req.user
+  );
+
+  if (!assessment) throw new NotFoundError("Assessment not found");
+
+  const overMax = scores.filter((entry) => entry.score > assessment.max_score);
+  if (overMax.length > 0)
+    throw new BadRequestError(`Scores cannot exceed the assessment maximum of ${assessment.max_score} (students: ${overMax
+      .map((entry) => entry.studentId)
+      .join(", ")})`);
+
+  // Every student must be visible to the caller and, for class
+  // assessments, enrolled in that class
+  const studentIds = [...new Set(scores.map((entry) => entry.studentId))];
+  const placeholders = studentIds.map(() => "?").join(", ");
+  const scope = getStudentScope(req.user);
+  const conditions = [`id IN (${placeholders})`, "archived_at IS NULL"];
+  const params: any[] = [...studentIds];
+
+  if (scope.condition) {
+    conditions.push(scope.condition);
+    params.push(...scope.params);
+  }
+
+  if (assessment.class_id) {
+    conditions.push("id IN (SELECT student_id FROM enrollments WHERE class_id = ?)");
+    params.push(assessment.class_id);
+  }
+
+  const allowed = await db.all(
+    `SELECT id FROM students WHERE ${conditions.join(" AND ")}`,
+    params
+  );
+
+  if (allowed.length !== studentIds.length) {
+    const allowedIds = new Set(allowed.map((row) => row.id));
+    throw new NotFoundError(`Students not found${assessment.class_id ? " in this class" : ""}: ${studentIds
+      .filter((id) => !allowedIds.has(id))
+      .join(", ")}`);
+  }
+
+  const regraded = await db.withTransaction(async () => {
+    for (const entry of scores) {
+      await db.run(
+        `INSERT INTO assessment_scores (assessment_id, student_id, score, recorded_by)
+           VALUES (?, ?, ?, ?)
+         ON CONFLICT(assessment_id, student_id)
+           DO UPDATE SET score = excluded.score, recorded_by = excluded.recorded_by,
+                         recorded_at = CURRENT_TIMESTAMP`,
+        [assessmentId, entry.studentId, entry.score, req.user?.id]
+      );
+    }
+
+    return recalculateStudentGrades(db, studentIds, req.user, "scores recorded");
+  });
+  await publishGradeChanges(db, regraded, req.user);
+
+  const recorded = await db.all(
+    `SELECT sc.assessment_id, sc.student_id, s.name AS student_name, sc.score,
+            ROUND(sc.score * 100.0 / ?, 2) AS percentage, sc.recorded_at
+       FROM assessment_scores sc JOIN students s ON s.id = sc.student_id
+      WHERE sc.assessment_id = ? AND sc.student_id IN (${placeholders})
+      ORDER BY s.name ASC`,
+    [assessment.max_score, assessmentId, ...studentIds]
+  );
+
+  res.json({
+    success: true,
+    data: recorded,
+    message: `Recorded ${scores.length} scores`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const deleteScore = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AssessmentResponse<{ assessmentId: number; studentId: number }>>
+) => {
+  assertValid(req);
+
+  const assessmentId = Number(req.params.id);
+  const studentId = Number(req.params.studentId);
+  const db = getDatabase();
+
+  const assessment = await findAccessibleAssessment(
+    db,
+    assessmentId,
+    req.user
+  );
+
+  if (!assessment) throw new NotFoundError("Assessment not found");
+
+  const regraded = await db.withTransaction(async () => {
+    const result = await db.run(
+      "DELETE FROM assessment_scores WHERE assessment_id = ? AND student_id = ?",
+      [assessmentId, studentId]
+    );
+    if (result.changes === 0) return null;
+
+    return recalculateStudentGrades(db, [studentId], req.user, "score deleted");
+  });
+
+  if (!regraded) throw new NotFoundError("No score recorded for this student");
+  await publishGradeChanges(db, regraded, req.user);
+
+  res.json({
+    success: true,
+    data: { assessmentId, studentId },
+    message: "Score deleted successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Every individual score of one student plus the weighted breakdown that
+ * makes up their current grade. Student users can query their own record.
+ */
+export const getStudentScores = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<
+    AssessmentResponse<GradeBreakdown & { studentId: number; scores: AssessmentScore[] }>
+  >
+) => {
+  assertValid(req);
+
+  const studentId = Number(req.params.id);
+  const { categoryId, from, to }: StudentScoresQuery = req.query;
+  const db = getDatabase();
+
+  const student = await db.get(
+    ...scopedStudentQuery(req.user, "SELECT id FROM students WHERE id = ?", [
+      studentId,
+    ])
+  );
+
+  if (!student) throw new NotFoundError("Student not found");
+
+  const conditions = ["sc.student_id = ?"];
+  const params: any[] = [studentId];
+
+  if (categoryId) {
+    conditions.push("a.category_id = ?");
+    params.push(categoryId);
+  }
+
+  if (from) {
+    conditions.push("a.assessed_on >= ?");
+    params.push(from);
+  }
+
+  if (to) {
+    conditions.push("a.assessed_on <= ?");
+    params.push(to);
+  }
+
+  const [scores, breakdown] = await Promise.all([
+    db.all(
+      `SELECT sc.assessment_id, sc.student_id, a.title AS assessment_title,
+              c.name AS category_name, a.max_score, sc.score,
+              ROUND(sc.score * 100.0 / a.max_score, 2) AS percentage,
+              a.assessed_on, sc.recorded_at
+         FROM assessment_scores sc
+         JOIN assessments a ON a.id = sc.assessment_id
+         JOIN assessment_categories c ON c.id = a.category_id
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY a.assessed_on DESC, a.id DESC`,
+      params
+    ),
+    getGradeBreakdown(db, studentId),
+  ]);
+
+  res.json({
+    success: true,
+    data: { studentId, ...breakdown, scores },
+    message: `Retrieved ${scores.length} scores`,
+    timestamp: new Date().toISOString(),
+  });
+});
@@ -0,0 +1,125 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { assertValid, NotFoundError } from "../errors";
+import { getDatabase } from "../database/init";
+import { AtRiskRule, AtRiskStudent } from "../types";
+import { getStudentScope } from "../services/studentScope";
+import { findAtRiskStudents, getAtRiskRules } from "../services/atRisk";
+
+interface AtRiskResponse<T> {
+  success: boolean;
+  data?: T;
+  message: string;
+  timestamp: string;
+}
+
+/**
+ * Students currently flagged by the at-risk rules, lowest grade first
+ */
+export const getAtRiskStudents = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AtRiskResponse<AtRiskStudent[]>>
+) => {
+  assertValid(req);
+
+  const subject = req.query.subject as string | undefined;
+
+  const students = await findAtRiskStudents(
+    getDatabase(),
+    getStudentScope(req.user),
+    { subject }
+  );
+
+  res.json({
+    success: true,
+    data: students,
+    message: `${students.length} students at risk`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * The at-risk rule in force for every subject
+ */
+export const getRules = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AtRiskResponse<AtRiskRule[]>>
+) => {
+  const rules = await getAtRiskRules(getDatabase());
+
+  res.json({
+    success: true,
+    data: rules,
+    message: `Retrieved ${rules.length} at-risk rules`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Set the thresholds of one subject
+ */
+export const updateRule = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AtRiskResponse<AtRiskRule>>
+) => {
+  assertValid(req);
+
+  const subjectId = Number(req.params.subjectId);
+  const { minGrade, maxDrop } = req.body;
+  const db = getDatabase();
+
+  const subject = await db.get("SELECT id FROM subjects WHERE id = ?", [
+    subjectId,
+  ]);
+  if (!subject) throw new NotFoundError("Subject not found");
+
+  await db.run(
+    `INSERT INTO at_risk_rules (subject_id, min_grade, max_drop, updated_at)
+     VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(subject_id) DO UPDATE SET
+       min_grade = excluded.min_grade,
+       max_drop = excluded.max_drop,
+       updated_at = excluded.updated_at`,
+    [subjectId, minGrade, maxDrop]
+  );
+
+  const rules = await getAtRiskRules(db);
+
+  res.json({
+    success: true,
+    data: rules.find((rule) => rule.subjectId === subjectId),
+    message: "At-risk rule updated successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Remove a subject's own thresholds so it falls back to the defaults
+ */
+export const deleteRule = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AtRiskResponse<AtRiskRule>>
+) => {
+  assertValid(req);
+
+  const subjectId = Number(req.params.subjectId);
+  const db = getDatabase();
+
+  const result = await db.run(
+    "DELETE FROM at_risk_rules WHERE subject_id = ?",
+    [subjectId]
+  );
+
+  if (result.changes === 0)
+    throw new NotFoundError("Subject has no at-risk rule of its own");
+
+  const rules = await getAtRiskRules(db);
+
+  res.json({
+    success: true,
+    data: rules.find((rule) => rule.subjectId === subjectId),
+    message: "At-risk rule reset to the default",
+    timestamp: new Date().toISOString(),
+  });
+});
@@ -0,0 +1,266 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { assertValid, BadRequestError, NotFoundError } from "../errors";
+import { Database, getDatabase } from "../database/init";
+import {
+  AttendanceRecord,
+  AttendanceStatus,
+  ClassAttendance,
+  StudentAttendance,
+} from "../types";
+import { scopedStudentQuery } from "../services/studentScope";
+import {
+  ATTENDANCE_SELECT,
+  AttendanceChange,
+  saveAttendance,
+  summarizeAttendance,
+} from "../services/attendance";
+import { findAccessibleClass } from "./class";
+
+interface AttendanceResponse<T> {
+  success: boolean;
+  data?: T;
+  message: string;
+  timestamp: string;
+}
+
+interface StudentAttendanceQuery {
+  from?: string;
+  to?: string;
+}
+
+interface AttendanceRequest {
+  status: AttendanceStatus;
+  note?: string | null;
+  // Why an existing record is being corrected, kept in its history
+  reason?: string;
+}
+
+interface ClassAttendanceRequest {
+  records?: { studentId: number; status: AttendanceStatus; note?: string | null }[];
+  // Status for every enrolled student not listed in records
+  defaultStatus?: AttendanceStatus;
+  reason?: string;
+}
+
+/**
+ * Every active student enrolled in the class with their attendance on
+ * `date`, by name
+ */
+const getClassAttendance = async (
+  db: Database,
+  classId: number,
+  date: string
+): Promise<ClassAttendance> => {
+  const students = await db.all(
+    `SELECT s.id AS student_id, s.name AS student_name, ar.id AS record_id,
+            ar.status, ar.note
+       FROM enrollments e
+       JOIN students s ON s.id = e.student_id AND s.archived_at IS NULL
+       LEFT JOIN attendance_records ar ON ar.student_id = s.id AND ar.date = ?
+      WHERE e.class_id = ?
+      ORDER BY s.name ASC`,
+    [date, classId]
+  );
+
+  const recorded = students.filter((student) => student.status !== null);
+
+  return {
+    classId,
+    date,
+    summary: {
+      ...summarizeAttendance(recorded),
+      unrecorded: students.length - recorded.length,
+    },
+    students,
+  };
+};
+
+/**
+ * Attendance sheet of a class for one day
+ */
+export const getClassDayAttendance = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AttendanceResponse<ClassAttendance>>
+) => {
+  assertValid(req);
+
+  const classId = Number(req.params.id);
+  const { date } = req.params;
+  const db = getDatabase();
+
+  if (!(await findAccessibleClass(db, classId, req.user)))
+    throw new NotFoundError("Class not found");
+
+  const attendance = await getClassAttendance(db, classId, date);
+
+  res.json({
+    success: true,
+    data: attendance,
+    message: `Retrieved attendance of ${attendance.students.length} students`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Take attendance for a whole class day in one request. Listed students get
+ * their own status, the other enrolled students `defaultStatus` if given.
+ * Records that already exist for the day are corrected; everything is saved
+ * in one transaction.
+ */
+export const recordClassDayAttendance = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<
+    AttendanceResponse<ClassAttendance & { changes: Record<AttendanceChange, number> }>
+  >
+) => {
+  assertValid(req);
+
+  const classId = Number(req.params.id);
+  const { date } = req.params;
+  const { records = [], defaultStatus, reason }: ClassAttendanceRequest = req.body;
+  const db = getDatabase();
+
+  if (!(await findAccessibleClass(db, classId, req.user)))
+    throw new NotFoundError("Class not found");
+
+  const enrolled: number[] = (
+    await db.all(
+      `SELECT s.id FROM enrollments e
+         JOIN students s ON s.id = e.student_id AND s.archived_at IS NULL
+        WHERE e.class_id = ?`,
+      [classId]
+    )
+  ).map((row) => row.id);
+
+  const listed = new Set(records.map((record) => record.studentId));
+  if (listed.size !== records.length)
+    throw new BadRequestError("Each student can only be listed once");
+
+  const notEnrolled = [...listed].filter((id) => !enrolled.includes(id));
+  if (notEnrolled.length > 0)
+    throw new BadRequestError(`Students ${notEnrolled.join(", ")} are not enrolled in this class`);
+
+  const entries = [
+    ...records,
+    ...(defaultStatus
+      ? enrolled
+          .filter((id) => !listed.has(id))
+          .map((studentId) => ({ studentId, status: defaultStatus, note: null }))
+      : []),
+  ];
+
+  const changes: Record<AttendanceChange, number> = {
+    created: 0,
+    corrected: 0,
+    unchanged: 0,
+  };
+
+  await db.withTransaction(async () => {
+    for (const { studentId, status, note } of entries) {
+      const { change } = await saveAttendance(
+        db,
+        req.user,
+        { studentId, date, status, note: note ?? null, classId },
+        reason
+      );
+      changes[change]++;
+    }
+  });
+
+  res.json({
+    success: true,
+    data: { ...(await getClassAttendance(db, classId, date)), changes },
+    message: `Attendance saved: ${changes.created} recorded, ${changes.corrected} corrected`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * A student's attendance records, newest first, with their attendance rate
+ * over the same range
+ */
+export const getStudentAttendance = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AttendanceResponse<StudentAttendance>>
+) => {
+  assertValid(req);
+
+  const studentId = Number(req.params.id);
+  const { from, to }: StudentAttendanceQuery = req.query;
+  const db = getDatabase();
+
+  const student = await db.get(
+    ...scopedStudentQuery(req.user, "SELECT id FROM students WHERE id = ?", [
+      studentId,
+    ])
+  );
+
+  if (!student) throw new NotFoundError("Student not found");
+
+  const conditions = ["student_id = ?"];
+  const params: any[] = [studentId];
+
+  if (from) {
+    conditions.push("date >= ?");
+    params.push(from);
+  }
+
+  if (to) {
+    conditions.push("date <= ?");
+    params.push(to);
+  }
+
+  const records: AttendanceRecord[] = await db.all(
+    `${ATTENDANCE_SELECT} WHERE ${conditions.join(" AND ")} ORDER BY date DESC`,
+    params
+  );
+
+  res.json({
+    success: true,
+    data: { studentId, summary: summarizeAttendance(records), records },
+    message: `Retrieved ${records.length} attendance records`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Record or correct one student's attendance for a day
+ */
+export const recordStudentAttendance = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<AttendanceResponse<AttendanceRecord>>
+) => {
+  assertValid(req);
+
+  const studentId = Number(req.params.id);
+  const { date } = req.params;
+  const { status, note = null, reason }: AttendanceRequest = req.body;
+  const db = getDatabase();
+
+  // Archived students cannot be changed until restored
+  const student = await db.get(
+    ...scopedStudentQuery(req.user, "SELECT id FROM students WHERE id = ?", [
+      studentId,
+    ])
+  );
+
+  if (!student) throw new NotFoundError("Student not found");
+
+  const saved = await db.withTransaction(() =>
+    saveAttendance(db, req.user, { studentId, date, status, note }, reason)
+  );
+
+  res.status(saved.change === "created" ? 201 : 200).json({
+    success: true,
+    data: saved.record,
+    message:
+      saved.change === "created"
+        ? "Attendance recorded"
+        : saved.change === "corrected"
+        ? "Attendance corrected"
+        : "Attendance unchanged",
+    timestamp: new Date().toISOString(),
+  });
+});
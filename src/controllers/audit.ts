@@ -0,0 +1,190 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { assertValid, NotFoundError } from "../errors";
+import { getDatabase } from "../database/init";
+import { Roles } from "../types/enums";
+import { AuditAction, AuditLogEntry, PaginatedResponse } from "../types";
+import { scopedStudentQuery } from "../services/studentScope";
+import { AUDIT_SELECT, toAuditLogEntry } from "../services/audit";
+
+interface AuditQuery {
+  entityType?: string;
+  entityId?: number;
+  action?: AuditAction;
+  actorId?: number;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Newest-first page of audit entries matching the given conditions
+ */
+const findAuditEntries = async (
+  conditions: string[],
+  params: any[],
+  page: number,
+  limit: number
+): Promise<{ entries: AuditLogEntry[]; totalItems: number }> => {
+  const db = getDatabase();
+  const where =
+    conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+
+  const [rows, countResult] = await Promise.all([
+    db.all(`${AUDIT_SELECT}${where} ORDER BY id DESC LIMIT ? OFFSET ?`, [
+      ...params,
+      limit,
+      (page - 1) * limit,
+    ]),
+    db.get(`SELECT COUNT(*) AS total FROM audit_log${where}`, params),
+  ]);
+
+  return { entries: rows.map(toAuditLogEntry), totalItems: countResult?.total || 0 };
+};
+
+const paginate = (page: number, limit: number, totalItems: number) => {
+  const totalPages = Math.ceil(totalItems / limit);
+  return {
+    currentPage: page,
+    totalPages,
+    totalItems,
+    itemsPerPage: limit,
+    hasNext: page < totalPages,
+    hasPrev: page > 1,
+  };
+};
+
+// Audit entries about a student: changes to the record itself, or to its
+// attendance records (the entries of recording a day and of correcting it)
+const STUDENT_HISTORY = {
+  student: "entity_type = 'student' AND entity_id = ?",
+  attendance:
+    "entity_type = 'attendance' AND entity_id IN (SELECT id FROM attendance_records WHERE student_id = ?)",
+};
+
+const studentHistoryHandler =
+  (kind: keyof typeof STUDENT_HISTORY) =>
+  asyncHandler(async (
+    req: AuthenticatedRequest,
+    res: Response<PaginatedResponse<AuditLogEntry>>
+  ) => {
+    assertValid(req);
+
+    const studentId = Number(req.params.id);
+    const { page = 1, limit = 20 }: AuditQuery = req.query;
+
+    // Admins may read the history of deleted students; everyone else needs
+    // the student to still be within their scope
+    if (req.user?.role !== Roles.ADMIN) {
+      const student = await getDatabase().get(
+        ...scopedStudentQuery(
+          req.user,
+          "SELECT id FROM students WHERE id = ?",
+          [studentId],
+          true
+        )
+      );
+
+      if (!student) throw new NotFoundError("Student not found");
+    }
+
+    const { entries, totalItems } = await findAuditEntries(
+      [STUDENT_HISTORY[kind]],
+      [studentId],
+      page,
+      limit
+    );
+
+    res.json({
+      success: true,
+      data: entries,
+      pagination: paginate(page, limit, totalItems),
+      message: `Retrieved ${entries.length} of ${totalItems} history entries`,
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+/**
+ * Change history of one student record, newest first
+ */
+export const getStudentHistory = studentHistoryHandler("student");
+
+/**
+ * How a student's attendance was recorded and corrected, newest first
+ */
+export const getAttendanceHistory = studentHistoryHandler("attendance");
+
+/**
+ * Search the whole audit log by entity, action, actor and date range
+ */
+export const getAuditLog = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<PaginatedResponse<AuditLogEntry>>
+) => {
+  assertValid(req);
+
+  const {
+    entityType,
+    entityId,
+    action,
+    actorId,
+    from,
+    to,
+    page = 1,
+    limit = 50,
+  }: AuditQuery = req.query;
+
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (entityType) {
+    conditions.push("entity_type = ?");
+    params.push(entityType);
+  }
+
+  if (entityId !== undefined) {
+    conditions.push("entity_id = ?");
+    params.push(entityId);
+  }
+
+  if (action) {
+    conditions.push("action = ?");
+    params.push(action);
+  }
+
+  if (actorId !== undefined) {
+    conditions.push("actor_id = ?");
+    params.push(actorId);
+  }
+
+  // created_at is an ISO timestamp, so plain string comparison works
+  if (from) {
+    conditions.push("created_at >= ?");
+    params.push(new Date(from).toISOString());
+  }
+
+  if (to) {
+    // A bare date includes the whole of that day
+    conditions.push("created_at <= ?");
+    params.push(
+      new Date(to.length === 10 ? `${to}T23:59:59.999Z` : to).toISOString()
+    );
+  }
+
+  const { entries, totalItems } = await findAuditEntries(
+    conditions,
+    params,
+    page,
+    limit
+  );
+
+  res.json({
+    success: true,
+    data: entries,
+    pagination: paginate(page, limit, totalItems),
+    message: `Retrieved ${entries.length} of ${totalItems} audit entries`,
+    timestamp: new Date().toISOString(),
+  });
+});
@@ -0,0 +1,360 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { asyncHandler } from "../middleware/asyncHandler";
+import {
+  assertValid,
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  toConflictIfUnique,
+} from "../errors";
+import { Database, getDatabase } from "../database/init";
+import { Roles } from "../types/enums";
+import { SchoolClass } from "../types";
+import { scopedStudentQuery } from "../services/studentScope";
+
+interface GetClassesQuery {
+  subject?: string;
+  term?: string;
+  teacherId?: number;
+}
+
+interface ClassRequest {
+  name?: string;
+  subject?: SchoolClass["subject"];
+  term?: string;
+  teacherId?: number;
+}
+
+interface ClassResponse<T = SchoolClass> {
+  success: boolean;
+  data?: T;
+  message: string;
+  timestamp: string;
+}
+
+const CLASS_SELECT = `
+  SELECT c.id, c.name, c.subject, c.term, c.teacher_id, u.username AS teacher_username,
+         (SELECT COUNT(*) FROM enrollments e JOIN students s ON s.id = e.student_id
+           WHERE e.class_id = c.id AND s.archived_at IS NULL) AS student_count,
+         c.created_at, c.updated_at
+    FROM classes c
+    JOIN users u ON u.id = c.teacher_id`;
+
+/**
+ * Fetch a class the caller may manage: admins can access any class,
+ * teachers only the classes they own.
+ */
+export const findAccessibleClass = (
+  db: Database,
+  classId: number,
+  user: AuthenticatedRequest["user"]
+): Promise<SchoolClass | undefined> => {
+  if (user?.role === Roles.ADMIN)
+    return db.get(`${CLASS_SELECT} WHERE c.id = ?`, [classId]);
+
+  return db.get(`${CLASS_SELECT} WHERE c.id = ? AND c.teacher_id = ?`, [
+    classId,
+    user?.id,
+  ]);
+};
+
+/**
+ * Resolve who should own a class being created or reassigned. Teachers
+ * always own their own classes; admins must name an active teacher.
+ * Returns an error message when the owner is not acceptable.
+ */
+const resolveOwner = async (
+  db: Database,
+  user: AuthenticatedRequest["user"],
+  teacherId?: number
+): Promise<{ teacherId?: number; error?: string }> => {
+  if (user?.role !== Roles.ADMIN) {
+    if (teacherId !== undefined && teacherId !== user?.id)
+      return { error: "Teachers can only own their own classes" };
+    return { teacherId: user?.id };
+  }
+
+  if (teacherId === undefined)
+    return { error: "teacherId is required when an admin creates a class" };
+
+  const teacher = await db.get(
+    "SELECT id FROM users WHERE id = ? AND role = ? AND is_active = 1",
+    [teacherId, Roles.TEACHER]
+  );
+
+  if (!teacher) return { error: "teacherId must reference an active teacher" };
+
+  return { teacherId };
+};
+
+const CLASS_NAME_TAKEN = "This teacher already has a class with this name in this term";
+
+export const getClasses = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<ClassResponse<SchoolClass[]>>
+) => {
+  assertValid(req);
+
+  const { subject, term, teacherId }: GetClassesQuery = req.query;
+  const db = getDatabase();
+
+  let query = CLASS_SELECT;
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  // Teachers only ever see their own classes
+  if (req.user?.role !== Roles.ADMIN) {
+    conditions.push("c.teacher_id = ?");
+    params.push(req.user?.id);
+  } else if (teacherId) {
+    conditions.push("c.teacher_id = ?");
+    params.push(teacherId);
+  }
+
+  if (subject) {
+    conditions.push("c.subject = ?");
+    params.push(subject);
+  }
+
+  if (term) {
+    conditions.push("c.term = ?");
+    params.push(term);
+  }
+
+  if (conditions.length > 0) query += ` WHERE ${conditions.join(" AND ")}`;
+  query += " ORDER BY c.term DESC, c.name ASC";
+
+  const classes = await db.all(query, params);
+
+  res.json({
+    success: true,
+    data: classes,
+    message: `Retrieved ${classes.length} classes`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const getClass = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<ClassResponse>
+) => {
+  assertValid(req);
+
+  const classId = Number(req.params.id);
+  const db = getDatabase();
+
+  const schoolClass = await findAccessibleClass(db, classId, req.user);
+
+  if (!schoolClass) throw new NotFoundError("Class not found");
+
+  schoolClass.students = await db.all(
+    `SELECT s.id, s.name, s.email, s.subject, s.grade, s.created_at
+       FROM students s JOIN enrollments e ON e.student_id = s.id
+      WHERE e.class_id = ? AND s.archived_at IS NULL
+      ORDER BY s.name ASC`,
+    [classId]
+  );
+
+  res.json({
+    success: true,
+    data: schoolClass,
+    message: "Class retrieved successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const createClass = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<ClassResponse>
+) => {
+  assertValid(req);
+
+  const { name, subject, term, teacherId }: ClassRequest = req.body;
+  const db = getDatabase();
+
+  const owner = await resolveOwner(db, req.user, teacherId);
+  if (owner.error) throw new BadRequestError(owner.error);
+
+  const result = await db
+    .run(
+      "INSERT INTO classes (name, subject, term, teacher_id) VALUES (?, ?, ?, ?)",
+      [name, subject, term, owner.teacherId]
+    )
+    .catch((error) => {
+      throw toConflictIfUnique(error, CLASS_NAME_TAKEN);
+    });
+
+  const newClass = await db.get(`${CLASS_SELECT} WHERE c.id = ?`, [
+    result.lastID,
+  ]);
+
+  res.status(201).json({
+    success: true,
+    data: newClass,
+    message: "Class created successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const updateClass = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<ClassResponse>
+) => {
+  assertValid(req);
+
+  const classId = Number(req.params.id);
+  const updates: ClassRequest = req.body;
+  const db = getDatabase();
+
+  const existingClass = await findAccessibleClass(db, classId, req.user);
+
+  if (!existingClass) throw new NotFoundError("Class not found");
+
+  const setClauses: string[] = [];
+  const values: any[] = [];
+
+  for (const field of ["name", "subject", "term"] as const) {
+    if (updates[field] !== undefined) {
+      setClauses.push(`${field} = ?`);
+      values.push(updates[field]);
+    }
+  }
+
+  // Reassigning ownership is an admin-only operation
+  if (updates.teacherId !== undefined) {
+    if (req.user?.role !== Roles.ADMIN)
+      throw new ForbiddenError("Only admins can reassign a class to another teacher");
+
+    const owner = await resolveOwner(db, req.user, updates.teacherId);
+    if (owner.error) throw new BadRequestError(owner.error);
+
+    setClauses.push("teacher_id = ?");
+    values.push(owner.teacherId);
+  }
+
+  if (setClauses.length === 0) throw new BadRequestError("No valid fields to update");
+
+  await db
+    .run(
+      `UPDATE classes SET ${setClauses.join(", ")}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [...values, classId]
+    )
+    .catch((error) => {
+      throw toConflictIfUnique(error, CLASS_NAME_TAKEN);
+    });
+
+  const updatedClass = await db.get(`${CLASS_SELECT} WHERE c.id = ?`, [
+    classId,
+  ]);
+
+  res.json({
+    success: true,
+    data: updatedClass,
+    message: "Class updated successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const deleteClass = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<ClassResponse<{ deletedId: number }>>
+) => {
+  assertValid(req);
+
+  const classId = Number(req.params.id);
+  const db = getDatabase();
+
+  const existingClass = await findAccessibleClass(db, classId, req.user);
+
+  if (!existingClass) throw new NotFoundError("Class not found");
+
+  // Enrollments are removed by ON DELETE CASCADE; students are kept
+  await db.run("DELETE FROM classes WHERE id = ?", [classId]);
+
+  res.json({
+    success: true,
+    data: { deletedId: classId },
+    message: "Class deleted successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const enrollStudents = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<ClassResponse<{ classId: number; enrolled: number[] }>>
+) => {
+  assertValid(req);
+
+  const classId = Number(req.params.id);
+  const studentIds: number[] = req.body.studentIds;
+  const db = getDatabase();
+
+  const existingClass = await findAccessibleClass(db, classId, req.user);
+
+  if (!existingClass) throw new NotFoundError("Class not found");
+
+  // Teachers can only enroll students they can already see, i.e. students
+  // in one of their other classes; anyone else is reported as not found
+  const placeholders = studentIds.map(() => "?").join(", ");
+  const found = await db.all(
+    ...scopedStudentQuery(
+      req.user,
+      `SELECT id FROM students WHERE id IN (${placeholders})`,
+      studentIds
+    )
+  );
+
+  if (found.length !== new Set(studentIds).size) {
+    const foundIds = new Set(found.map((row) => row.id));
+    throw new NotFoundError(`Students not found: ${studentIds
+      .filter((id) => !foundIds.has(id))
+      .join(", ")}`);
+  }
+
+  await db.withTransaction(async () => {
+    for (const studentId of studentIds) {
+      await db.run(
+        "INSERT OR IGNORE INTO enrollments (class_id, student_id) VALUES (?, ?)",
+        [classId, studentId]
+      );
+    }
+  });
+
+  res.status(201).json({
+    success: true,
+    data: { classId, enrolled: studentIds },
+    message: "Students enrolled successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const unenrollStudent = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<ClassResponse<{ classId: number; studentId: number }>>
+) => {
+  assertValid(req);
+
+  const classId = Number(req.params.id);
+  const studentId = Number(req.params.studentId);
+  const db = getDatabase();
+
+  const existingClass = await findAccessibleClass(db, classId, req.user);
+
+  if (!existingClass) throw new NotFoundError("Class not found");
+
+  const result = await db.run(
+    "DELETE FROM enrollments WHERE class_id = ? AND student_id = ?",
+    [classId, studentId]
+  );
+
+  if (result.changes === 0)
+    throw new NotFoundError("Student is not enrolled in this class");
+
+  res.json({
+    success: true,
+    data: { classId, studentId },
+    message: "Student removed from class successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
@@ -0,0 +1,197 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { asyncHandler } from "../middleware/asyncHandler";
+import {
+  assertValid,
+  ConflictError,
+  NotFoundError,
+  UnprocessableEntityError,
+} from "../errors";
+import { getDatabase } from "../database/init";
+import { Roles } from "../types/enums";
+import { EnrollmentRequest, EnrollmentRequestStatus, PaginatedResponse } from "../types";
+import {
+  ENROLLMENT_REQUEST_REVIEW_SELECT,
+  ENROLLMENT_REQUEST_SELECT,
+  requestEnrollment,
+} from "../services/enrollmentRequests";
+import { findAccessibleClass } from "./class";
+
+interface EnrollmentRequestsQuery {
+  status?: EnrollmentRequestStatus | "all";
+  page?: number;
+  limit?: number;
+}
+
+interface EnrollmentRequestResponse {
+  success: boolean;
+  data?: EnrollmentRequest;
+  message: string;
+  timestamp: string;
+}
+
+/**
+ * Ask an admin to enroll a student the teacher cannot see yet, by email.
+ * The answer does not depend on whether the email belongs to a student.
+ */
+export const createEnrollmentRequest = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<EnrollmentRequestResponse>
+) => {
+  assertValid(req);
+
+  const classId = Number(req.params.id);
+  const { email, note }: { email: string; note?: string } = req.body;
+  const db = getDatabase();
+
+  if (!(await findAccessibleClass(db, classId, req.user)))
+    throw new NotFoundError("Class not found");
+
+  const request = await requestEnrollment(db, req.user, classId, email, note);
+
+  res.status(202).json({
+    success: true,
+    data: request,
+    message: "Enrollment request sent to an administrator",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Admins review every request and see which student each email matches;
+ * teachers only see the requests they made.
+ */
+export const getEnrollmentRequests = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<PaginatedResponse<EnrollmentRequest>>
+) => {
+  assertValid(req);
+
+  const { status = "pending", page = 1, limit = 20 }: EnrollmentRequestsQuery = req.query;
+  const isAdmin = req.user?.role === Roles.ADMIN;
+  const db = getDatabase();
+
+  const conditions: string[] = [];
+  const params: any[] = [];
+  if (status !== "all") {
+    conditions.push("r.status = ?");
+    params.push(status);
+  }
+  if (!isAdmin) {
+    conditions.push("r.requested_by = ?");
+    params.push(req.user?.id);
+  }
+  const where = conditions.length ? ` WHERE ${conditions.join(" AND ")}` : "";
+
+  const [requests, countResult] = await Promise.all([
+    db.all(
+      `${isAdmin ? ENROLLMENT_REQUEST_REVIEW_SELECT : ENROLLMENT_REQUEST_SELECT}${where}
+        ORDER BY r.id DESC LIMIT ? OFFSET ?`,
+      [...params, limit, (page - 1) * limit]
+    ),
+    db.get(`SELECT COUNT(*) AS total FROM enrollment_requests r${where}`, params),
+  ]);
+
+  const totalItems = countResult?.total || 0;
+  const totalPages = Math.ceil(totalItems / limit);
+
+  res.json({
+    success: true,
+    data: requests,
+    pagination: {
+      currentPage: page,
+      totalPages,
+      totalItems,
+      itemsPerPage: limit,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    },
+    message: `Retrieved ${requests.length} of ${totalItems} enrollment requests`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Enroll the active student with the request's email in its class
+ */
+export const approveEnrollmentRequest = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<EnrollmentRequestResponse>
+) => {
+  assertValid(req);
+
+  const requestId = Number(req.params.id);
+  const db = getDatabase();
+
+  const request = await db.withTransaction(async () => {
+    const pending: EnrollmentRequest | undefined = await db.get(
+      `${ENROLLMENT_REQUEST_REVIEW_SELECT} WHERE r.id = ?`,
+      [requestId]
+    );
+
+    if (!pending) throw new NotFoundError("Enrollment request not found");
+
+    if (pending.status !== "pending")
+      throw new ConflictError(`Enrollment request has already been ${pending.status}`);
+
+    if (!pending.student_id)
+      throw new UnprocessableEntityError(
+        "No active student has this email - create the student or reject the request",
+        "NO_MATCHING_STUDENT"
+      );
+
+    await db.run(
+      "INSERT OR IGNORE INTO enrollments (class_id, student_id) VALUES (?, ?)",
+      [pending.class_id, pending.student_id]
+    );
+    await db.run(
+      "UPDATE enrollment_requests SET status = 'approved', reviewed_by = ?, reviewed_at = ? WHERE id = ?",
+      [req.user?.id, new Date().toISOString(), requestId]
+    );
+
+    return db.get(`${ENROLLMENT_REQUEST_REVIEW_SELECT} WHERE r.id = ?`, [requestId]);
+  });
+
+  res.json({
+    success: true,
+    data: request,
+    message: "Enrollment request approved and student enrolled",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const rejectEnrollmentRequest = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<EnrollmentRequestResponse>
+) => {
+  assertValid(req);
+
+  const requestId = Number(req.params.id);
+  const db = getDatabase();
+
+  const request = await db.withTransaction(async () => {
+    const pending: EnrollmentRequest | undefined = await db.get(
+      `${ENROLLMENT_REQUEST_SELECT} WHERE r.id = ?`,
+      [requestId]
+    );
+
+    if (!pending) throw new NotFoundError("Enrollment request not found");
+
+    if (pending.status !== "pending")
+      throw new ConflictError(`Enrollment request has already been ${pending.status}`);
+
+    await db.run(
+      "UPDATE enrollment_requests SET status = 'rejected', reviewed_by = ?, reviewed_at = ? WHERE id = ?",
+      [req.user?.id, new Date().toISOString(), requestId]
+    );
+
+    return db.get(`${ENROLLMENT_REQUEST_REVIEW_SELECT} WHERE r.id = ?`, [requestId]);
+  });
+
+  res.json({
+    success: true,
+    data: request,
+    message: "Enrollment request rejected",
+    timestamp: new Date().toISOString(),
+  });
+});
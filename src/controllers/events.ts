@@ -0,0 +1,112 @@
+import { Response } from "express";
+import { AuthenticatedRequest, AuthUser, isSessionActive } from "../middleware/auth";
+import { getDatabase } from "../database/init";
+import { config } from "../config";
+import { getStudentScope, scopedStudentQuery } from "../services/studentScope";
+import { computeAnalytics } from "../services/analytics";
+import { StudentEvent, subscribeToStudentEvents } from "../services/events";
+
+// Browsers reconnect after this many milliseconds when a stream drops
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Whether `user` may see the student an event is about. Archived students
+ * count, so deletions reach everyone who saw the student before. Purged
+ * students are gone, so only callers who see every student get their event;
+ * everyone else was told when the student was archived.
+ */
+const canSeeStudent = async (user: AuthUser, studentId: number): Promise<boolean> => {
+  if (getStudentScope(user).condition === undefined) return true;
+
+  return Boolean(
+    await getDatabase().get(
+      ...scopedStudentQuery(user, "SELECT id FROM students WHERE id = ?", [studentId], true)
+    )
+  );
+};
+
+/**
+ * Server-Sent Events stream of changes visible to the caller: student
+ * created/updated/deleted events and, after each burst of them, a fresh
+ * analytics snapshot in the caller's scope. The first event is always an
+ * analytics snapshot. The stream closes once the caller's session ends.
+ */
+export const streamEvents = async (req: AuthenticatedRequest, res: Response) => {
+  const user = req.user!;
+  let eventId = 0;
+  let closed = false;
+  let analyticsTimer: NodeJS.Timeout | undefined;
+
+  const send = (event: string, data: unknown) => {
+    if (closed) return;
+    res.write(`id: ${++eventId}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const sendAnalytics = async () => {
+    try {
+      send(
+        "analytics",
+        await computeAnalytics(getDatabase(), getStudentScope(user), {})
+      );
+    } catch (error) {
+      console.error("Failed to compute analytics for event stream:", error);
+    }
+  };
+
+  const scheduleAnalytics = () => {
+    if (analyticsTimer) return;
+    analyticsTimer = setTimeout(() => {
+      analyticsTimer = undefined;
+      void sendAnalytics();
+    }, config.events.analyticsDelayMs);
+  };
+
+  const onStudentEvent = async (event: StudentEvent) => {
+    try {
+      if (!(await canSeeStudent(user, event.student.id))) return;
+      send(event.type, event);
+      scheduleAnalytics();
+    } catch (error) {
+      console.error("Failed to deliver student event:", error);
+    }
+  };
+
+  const unsubscribe = subscribeToStudentEvents((event) => {
+    void onStudentEvent(event);
+  });
+
+  const heartbeat = setInterval(async () => {
+    try {
+      if (await isSessionActive(user)) {
+        if (!closed) res.write(": heartbeat\n\n");
+        return;
+      }
+    } catch (error) {
+      console.error("Failed to check event stream session:", error);
+    }
+    res.end();
+    cleanup();
+  }, config.events.heartbeatSeconds * 1000);
+
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+    unsubscribe();
+    clearInterval(heartbeat);
+    if (analyticsTimer) clearTimeout(analyticsTimer);
+  };
+
+  req.on("close", cleanup);
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Stop reverse proxies such as nginx from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  await sendAnalytics();
+};
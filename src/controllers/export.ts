@@ -0,0 +1,194 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { assertValid, NotFoundError } from "../errors";
+import { getDatabase } from "../database/init";
+import { getStudentScope, scopedStudentQuery } from "../services/studentScope";
+import { buildStudentListQuery, StudentListFilters } from "../services/studentQuery";
+import { computeAnalytics } from "../services/analytics";
+import { getGradeBreakdown } from "../services/grades";
+import { ExportFormat, sendTable } from "../services/exports";
+import { writeReportCard } from "../services/reportCard";
+import { GRADE_SCALE_COLUMNS } from "../services/gradingScales";
+
+interface ExportQuery extends StudentListFilters {
+  format?: ExportFormat;
+}
+
+/**
+ * Export the students matching GET /students' filter, search and sort
+ * parameters (without pagination) as CSV or XLSX.
+ */
+export const exportStudents = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  assertValid(req);
+
+  const {
+    format = "csv",
+    subject,
+    sortBy,
+    sortOrder,
+    search,
+    letterGrade,
+    grade,
+    createdAfter,
+    createdBefore,
+    includeArchived,
+  }: ExportQuery = req.query;
+  const db = getDatabase();
+  const { where, orderBy, params } = await buildStudentListQuery(db, req.user, {
+    subject,
+    sortBy,
+    sortOrder,
+    search,
+    letterGrade,
+    grade,
+    createdAfter,
+    createdBefore,
+    includeArchived,
+  });
+
+  const students = await db.all(
+    `SELECT id, name, email, subject, grade, ${GRADE_SCALE_COLUMNS}, created_at, archived_at FROM students${where}${orderBy}`,
+    params
+  );
+
+  await sendTable(
+    res,
+    format,
+    "students",
+    [
+      { header: "ID", key: "id", width: 8 },
+      { header: "Name", key: "name", width: 28 },
+      { header: "Email", key: "email", width: 32 },
+      { header: "Subject", key: "subject", width: 16 },
+      { header: "Grade", key: "grade" },
+      { header: "Letter Grade", key: "letter_grade" },
+      { header: "GPA Points", key: "gpa_points" },
+      { header: "Created At", key: "created_at", width: 22 },
+      { header: "Archived At", key: "archived_at", width: 22 },
+    ],
+    students
+  );
+});
+
+/**
+ * Export the per-subject averages from GET /analytics as CSV or XLSX
+ */
+export const exportAnalytics = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  assertValid(req);
+
+  const { format = "csv", subject, includeArchived }: ExportQuery = req.query;
+  const db = getDatabase();
+  const scope = getStudentScope(req.user);
+
+  const countConditions = includeArchived ? [] : ["archived_at IS NULL"];
+  if (scope.condition) countConditions.push(scope.condition);
+
+  const [analytics, counts] = await Promise.all([
+    computeAnalytics(db, scope, { subject, includeArchived }),
+    db.all(
+      `SELECT subject, COUNT(*) AS count FROM students
+        ${countConditions.length > 0 ? `WHERE ${countConditions.join(" AND ")}` : ""}
+        GROUP BY subject`,
+      scope.params
+    ),
+  ]);
+
+  const countBySubject = new Map<string, number>(
+    counts.map((row) => [row.subject, row.count])
+  );
+
+  const rows = Object.entries(analytics.averageGradeBySubject).map(
+    ([name, averageGrade]) => ({
+      subject: name,
+      students: countBySubject.get(name) ?? 0,
+      averageGrade,
+      attendanceRate: analytics.attendanceRateBySubject[name] ?? null,
+    })
+  );
+
+  await sendTable(
+    res,
+    format,
+    "analytics",
+    [
+      { header: "Subject", key: "subject", width: 20 },
+      { header: "Students", key: "students" },
+      { header: "Average Grade", key: "averageGrade", width: 16 },
+      { header: "Attendance Rate", key: "attendanceRate", width: 16 },
+    ],
+    rows
+  );
+});
+
+/**
+ * Download a PDF report card with the student's grade breakdown, scores,
+ * class averages and the average for their subject
+ */
+export const getReportCard = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  assertValid(req);
+
+  const studentId = Number(req.params.id);
+  const db = getDatabase();
+
+  const student = await db.get(
+    ...scopedStudentQuery(
+      req.user,
+      "SELECT id, name, email, subject, grade, created_at FROM students WHERE id = ?",
+      [studentId]
+    )
+  );
+
+  if (!student) throw new NotFoundError("Student not found");
+
+  // Averages compare the student against everyone taking the subject or
+  // class, not just the students the caller is allowed to see
+  const [breakdown, scores, classes, analytics] = await Promise.all([
+    getGradeBreakdown(db, studentId),
+    db.all(
+      `SELECT a.title AS assessment_title, c.name AS category_name,
+              a.assessed_on, sc.score, a.max_score,
+              ROUND(sc.score * 100.0 / a.max_score, 2) AS percentage
+         FROM assessment_scores sc
+         JOIN assessments a ON a.id = sc.assessment_id
+         JOIN assessment_categories c ON c.id = a.category_id
+        WHERE sc.student_id = ?
+        ORDER BY a.assessed_on DESC, a.id DESC`,
+      [studentId]
+    ),
+    db.all(
+      `SELECT c.name, c.term, u.username AS teacher,
+              COUNT(s.id) AS student_count, AVG(s.grade) AS average
+         FROM enrollments mine
+         JOIN classes c ON c.id = mine.class_id
+         JOIN users u ON u.id = c.teacher_id
+         JOIN enrollments e ON e.class_id = c.id
+         JOIN students s ON s.id = e.student_id AND s.archived_at IS NULL
+        WHERE mine.student_id = ?
+        GROUP BY c.id
+        ORDER BY c.term, c.name`,
+      [studentId]
+    ),
+    computeAnalytics(db, { params: [] }, { subject: student.subject }),
+  ]);
+
+  res.type("application/pdf");
+  res.attachment(`report-card-${studentId}.pdf`);
+
+  writeReportCard(res, {
+    student,
+    breakdown,
+    scores,
+    classes,
+    subjectAverage: analytics.averageGradeBySubject[student.subject] ?? null,
+  });
+});
@@ -0,0 +1,250 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { assertValid, ConflictError, NotFoundError, toConflictIfUnique } from "../errors";
+import { getDatabase } from "../database/init";
+import { GradingScale } from "../types";
+import { getGradingScales, saveScaleBands } from "../services/gradingScales";
+import { findAccessibleClass } from "./class";
+
+interface GradingScaleResponse<T = GradingScale> {
+  success: boolean;
+  data?: T;
+  message: string;
+  timestamp: string;
+}
+
+interface GradingScaleRequest {
+  name: string;
+  bands: { label: string; minGrade: number; gpaPoints?: number | null }[];
+  isDefault?: boolean;
+}
+
+export const listGradingScales = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<GradingScaleResponse<GradingScale[]>>
+) => {
+  const scales = await getGradingScales(getDatabase());
+
+  res.json({
+    success: true,
+    data: scales,
+    message: `Retrieved ${scales.length} grading scales`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Create a grading scale. With isDefault it replaces the current default.
+ */
+export const createGradingScale = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<GradingScaleResponse>
+) => {
+  assertValid(req);
+
+  const { name, bands, isDefault = false }: GradingScaleRequest = req.body;
+  const db = getDatabase();
+
+  const scaleId = await db
+    .withTransaction(async () => {
+      if (isDefault) await db.run("UPDATE grading_scales SET is_default = 0");
+
+      const result = await db.run(
+        "INSERT INTO grading_scales (name, is_default) VALUES (?, ?)",
+        [name, isDefault ? 1 : 0]
+      );
+      await saveScaleBands(db, result.lastID, bands);
+      return result.lastID;
+    })
+    .catch((error) => {
+      throw toConflictIfUnique(error, "A grading scale with this name already exists");
+    });
+
+  const [scale] = await getGradingScales(db, scaleId);
+
+  res.status(201).json({
+    success: true,
+    data: scale,
+    message: "Grading scale created successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Replace the name and bands of a grading scale, optionally making it the
+ * default. The default scale cannot be unset; make another one the default.
+ */
+export const updateGradingScale = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<GradingScaleResponse>
+) => {
+  assertValid(req);
+
+  const scaleId = Number(req.params.id);
+  const { name, bands, isDefault }: GradingScaleRequest = req.body;
+  const db = getDatabase();
+
+  const existing = await db.get(
+    "SELECT id, is_default FROM grading_scales WHERE id = ?",
+    [scaleId]
+  );
+
+  if (!existing) throw new NotFoundError("Grading scale not found");
+
+  if (existing.is_default === 1 && isDefault === false)
+    throw new ConflictError("A default grading scale is required; make another scale the default instead");
+
+  await db
+    .withTransaction(async () => {
+      if (isDefault && existing.is_default !== 1)
+        await db.run("UPDATE grading_scales SET is_default = 0");
+
+      await db.run(
+        `UPDATE grading_scales
+            SET name = ?, is_default = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?`,
+        [name, isDefault || existing.is_default === 1 ? 1 : 0, scaleId]
+      );
+      await saveScaleBands(db, scaleId, bands);
+    })
+    .catch((error) => {
+      throw toConflictIfUnique(error, "A grading scale with this name already exists");
+    });
+
+  const [scale] = await getGradingScales(db, scaleId);
+
+  res.json({
+    success: true,
+    data: scale,
+    message: "Grading scale updated successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Delete a grading scale. Subjects and classes using it fall back to the
+ * default scale, which itself cannot be deleted.
+ */
+export const deleteGradingScale = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<GradingScaleResponse<{ deletedId: number }>>
+) => {
+  assertValid(req);
+
+  const scaleId = Number(req.params.id);
+  const db = getDatabase();
+
+  const existing = await db.get(
+    "SELECT id, is_default FROM grading_scales WHERE id = ?",
+    [scaleId]
+  );
+
+  if (!existing) throw new NotFoundError("Grading scale not found");
+
+  if (existing.is_default === 1)
+    throw new ConflictError("The default grading scale cannot be deleted");
+
+  await db.run("DELETE FROM grading_scales WHERE id = ?", [scaleId]);
+
+  res.json({
+    success: true,
+    data: { deletedId: scaleId },
+    message: "Grading scale deleted successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Assign a grading scale to a subject, or with `gradingScaleId: null` go
+ * back to the default scale
+ */
+export const setSubjectGradingScale = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<GradingScaleResponse<{ subjectId: number; gradingScaleId: number | null }>>
+) => {
+  assertValid(req);
+
+  const subjectId = Number(req.params.id);
+  const gradingScaleId: number | null = req.body.gradingScaleId;
+  const db = getDatabase();
+
+  const subject = await db.get("SELECT id FROM subjects WHERE id = ?", [
+    subjectId,
+  ]);
+  if (!subject) throw new NotFoundError("Subject not found");
+
+  if (gradingScaleId === null)
+    await db.run("DELETE FROM subject_grading_scales WHERE subject_id = ?", [
+      subjectId,
+    ]);
+  else {
+    const scale = await db.get("SELECT id FROM grading_scales WHERE id = ?", [
+      gradingScaleId,
+    ]);
+    if (!scale) throw new NotFoundError("Grading scale not found");
+
+    await db.run(
+      `INSERT INTO subject_grading_scales (subject_id, scale_id) VALUES (?, ?)
+       ON CONFLICT(subject_id) DO UPDATE SET scale_id = excluded.scale_id`,
+      [subjectId, gradingScaleId]
+    );
+  }
+
+  res.json({
+    success: true,
+    data: { subjectId, gradingScaleId },
+    message:
+      gradingScaleId === null
+        ? "Subject now uses the default grading scale"
+        : "Grading scale assigned to subject",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Assign a grading scale to a class, or with `gradingScaleId: null` go back
+ * to the subject's scale. Takes precedence over the subject's scale for
+ * students enrolled in the class.
+ */
+export const setClassGradingScale = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<GradingScaleResponse<{ classId: number; gradingScaleId: number | null }>>
+) => {
+  assertValid(req);
+
+  const classId = Number(req.params.id);
+  const gradingScaleId: number | null = req.body.gradingScaleId;
+  const db = getDatabase();
+
+  // Teachers can only change their own classes
+  if (!(await findAccessibleClass(db, classId, req.user)))
+    throw new NotFoundError("Class not found");
+
+  if (gradingScaleId === null)
+    await db.run("DELETE FROM class_grading_scales WHERE class_id = ?", [
+      classId,
+    ]);
+  else {
+    const scale = await db.get("SELECT id FROM grading_scales WHERE id = ?", [
+      gradingScaleId,
+    ]);
+    if (!scale) throw new NotFoundError("Grading scale not found");
+
+    await db.run(
+      `INSERT INTO class_grading_scales (class_id, scale_id) VALUES (?, ?)
+       ON CONFLICT(class_id) DO UPDATE SET scale_id = excluded.scale_id`,
+      [classId, gradingScaleId]
+    );
+  }
+
+  res.json({
+    success: true,
+    data: { classId, gradingScaleId },
+    message:
+      gradingScaleId === null
+        ? "Class now uses the subject's grading scale"
+        : "Grading scale assigned to class",
+    timestamp: new Date().toISOString(),
+  });
+});
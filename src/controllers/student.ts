@@ -1,206 +1,281 @@
-import { validationResult } from "express-validator";
 import { AuthenticatedRequest } from "../middleware/auth";
+import { asyncHandler } from "../middleware/asyncHandler";
+import {
+  assertValid,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  PreconditionFailedError,
+  toConflictIfUnique,
+} from "../errors";
 import { Response } from "express";
 import { getDatabase } from "../database/init";
+import { scopedStudentQuery } from "../services/studentScope";
+import {
+  buildStudentListQuery,
+  encodeStudentCursor,
+  GradeRange,
+  sortKeyColumns,
+  splitList,
+  STUDENT_LIST_FIELDS,
+  studentCursorCondition,
+} from "../services/studentQuery";
 import { Roles } from "../types/enums";
-import { Student } from "../types";
+import { findAccessibleClass } from "./class";
+import { hasAssessmentScores } from "../services/grades";
+import { recordAudit, recordUpdateAudit } from "../services/audit";
+import { purgeArchivedStudents } from "../services/studentArchive";
+import { config } from "../config";
+import { contentEtag, ifMatchSatisfied, recordEtag } from "../services/etag";
+import { GRADE_SCALE_COLUMNS } from "../services/gradingScales";
+import { EnrollmentRequest, PaginatedResponse, Student } from "../types";
+import { publishStudentEvent } from "../services/events";
+import { requestEnrollment } from "../services/enrollmentRequests";
+
+export const STUDENT_SELECT =
+  "SELECT id, name, email, subject, grade, created_at, archived_at, version FROM students";
+
+// The stored record plus the letter grade and GPA points of its grading
+// scale, for responses. The audit log compares STUDENT_SELECT rows only.
+export const STUDENT_RESPONSE_SELECT = `SELECT id, name, email, subject, grade, created_at, archived_at, version, ${GRADE_SCALE_COLUMNS} FROM students`;
 
 interface GetStudentsQuery {
   subject?: string;
   page?: number;
   limit?: number;
+  // Continue after the last row of a previous page instead of using page
+  cursor?: string;
   sortBy?: string;
   sortOrder?: "asc" | "desc";
   search?: string;
+  letterGrade?: string;
+  grade?: GradeRange;
+  createdAfter?: string;
+  createdBefore?: string;
+  includeArchived?: boolean;
+  // Comma-separated STUDENT_LIST_FIELDS to return
+  fields?: string;
 }
 
-interface PaginatedResponse<T> {
-  success: boolean;
-  data: T[];
-  pagination: {
-    currentPage: number;
-    totalPages: number;
-    totalItems: number;
-    itemsPerPage: number;
-    hasNext: boolean;
-    hasPrev: boolean;
+/**
+ * List students one page at a time, either by page number or by the
+ * nextCursor of the previous page. Cursor pages continue right after the
+ * last row seen, so students added or removed meanwhile do not shift them.
+ */
+export const getStudents = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<PaginatedResponse<Partial<Student>>>
+) => {
+  assertValid(req);
+
+  const db = getDatabase();
+  const {
+    subject,
+    page = 1,
+    limit = 20,
+    cursor,
+    sortBy,
+    sortOrder = "desc",
+    search,
+    letterGrade,
+    grade,
+    createdAfter,
+    createdBefore,
+    includeArchived,
+    fields,
+  }: GetStudentsQuery = req.query;
+
+  // Build dynamic query with security considerations
+  const query = await buildStudentListQuery(db, req.user, {
+    subject,
+    sortBy,
+    sortOrder,
+    search,
+    letterGrade,
+    grade,
+    createdAfter,
+    createdBefore,
+    includeArchived,
+  });
+  const { where, orderBy, params } = query;
+
+  const after = cursor ? studentCursorCondition(query, cursor) : undefined;
+  if (after === null)
+    throw new BadRequestError("Cursor is invalid or was made for a different sort order");
+
+  const pageWhere = after
+    ? `${where ? `${where} AND` : " WHERE"} ${after.condition}`
+    : where;
+  const offset = after ? 0 : (page - 1) * limit;
+
+  // One extra row tells whether there is a next page
+  const [rows, countResult] = await Promise.all([
+    db.all(
+      `SELECT id, name, subject, grade, created_at, archived_at, version, ${GRADE_SCALE_COLUMNS}, ${sortKeyColumns(
+        query
+      )} FROM students${pageWhere}${orderBy} LIMIT ? OFFSET ?`,
+      [...params, ...(after?.params ?? []), limit + 1, offset]
+    ),
+    db.get(
+      `SELECT COUNT(*) as total${
+        after ? `, SUM(${after.condition}) AS remaining` : ""
+      } FROM students${where}`,
+      [...(after?.params ?? []), ...params]
+    ),
+  ]);
+
+  const totalItems = countResult?.total || 0;
+  const itemsBefore = after ? totalItems - (countResult?.remaining || 0) : offset;
+  const hasNext = rows.length > limit;
+  const pageRows = rows.slice(0, limit);
+
+  const pagination = {
+    currentPage: Math.floor(itemsBefore / limit) + 1,
+    totalPages: Math.ceil(totalItems / limit),
+    totalItems,
+    itemsPerPage: limit,
+    hasNext,
+    hasPrev: itemsBefore > 0,
+    nextCursor: hasNext ? encodeStudentCursor(query, pageRows[pageRows.length - 1]) : null,
   };
-  message: string;
-  timestamp: string;
-  errors?: any[];
-}
 
-export const getStudents = async (
+  const selectedFields = fields
+    ? [...new Set(["id", ...splitList(fields)])]
+    : STUDENT_LIST_FIELDS;
+  const students: Partial<Student>[] = pageRows.map((row) =>
+    Object.fromEntries(selectedFields.map((field) => [field, row[field]]))
+  );
+
+  // Express answers 304 itself when If-None-Match matches this ETag
+  res.set("Cache-Control", "private, no-cache");
+  res.set("ETag", contentEtag({ students, pagination }));
+
+  res.json({
+    success: true,
+    data: students,
+    pagination,
+    message: `Retrieved ${students.length} of ${totalItems} students`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Get a single student. The response carries the student's ETag; a matching
+ * If-None-Match gets 304 Not Modified without a body.
+ */
+export const getStudent = asyncHandler(async (
   req: AuthenticatedRequest,
-  res: Response<PaginatedResponse<Student>>
+  res: Response<UpdateStudentResponse>
 ) => {
-  try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({
-        success: false,
-        data: [],
-        pagination: {
-          currentPage: 0,
-          totalPages: 0,
-          totalItems: 0,
-          itemsPerPage: 0,
-          hasNext: false,
-          hasPrev: false,
-        },
-        message: "Validation failed",
-        timestamp: new Date().toISOString(),
-        errors: errors.array(),
-      });
-    }
-
-    const db = getDatabase();
-    const {
-      subject,
-      page = 1,
-      limit = 20,
-      sortBy = "created_at",
-      sortOrder = "desc",
-      search,
-    }: GetStudentsQuery = req.query;
-
-    // Build dynamic query with security considerations
-    let baseQuery = "SELECT id, name, subject, grade, created_at FROM students";
-    let countQuery = "SELECT COUNT(*) as total FROM students";
-    const params: any[] = [];
-    const conditions: string[] = [];
-
-    if (req.user?.role === Roles.STUDENT) {
-      conditions.push("id = ?");
-      params.push(req.user.id);
-    }
-    // Students can only view their own records if we had user_id field
-    // For now, students can view all records as per current schema
+  assertValid(req);
 
-    if (subject) {
-      conditions.push("subject = ?");
-      params.push(subject);
-    }
+  const student = await getDatabase().get(
+    ...scopedStudentQuery(req.user, `${STUDENT_RESPONSE_SELECT} WHERE id = ?`, [
+      Number(req.params.id),
+    ])
+  );
 
-    if (search) {
-      conditions.push("(name LIKE ? OR subject LIKE ?)");
-      const searchTerm = `%${search}%`;
-      params.push(searchTerm, searchTerm);
-    }
+  if (!student) throw new NotFoundError("Student not found");
 
-    if (conditions.length > 0) {
-      const whereClause = ` WHERE ${conditions.join(" AND ")}`;
-      baseQuery += whereClause;
-      countQuery += whereClause;
-    }
+  // Express answers 304 itself when If-None-Match matches this ETag
+  res.set("Cache-Control", "private, no-cache");
+  res.set("ETag", recordEtag(student));
 
-    // Whitelist sortBy to prevent SQL injection
-    const allowedSortFields = ["created_at", "name", "subject", "grade"];
-    const safeSortBy = allowedSortFields.includes(sortBy)
-      ? sortBy
-      : "created_at";
-    const safeSortOrder = sortOrder === "asc" ? "ASC" : "DESC";
-
-    // Add sorting and pagination
-    const offset = (page - 1) * limit;
-    baseQuery += ` ORDER BY ${safeSortBy} ${safeSortOrder} LIMIT ? OFFSET ?`;
-    params.push(limit, offset);
-
-    const [students, countResult] = await Promise.all([
-      db.all(baseQuery, params),
-      db.get(countQuery, params.slice(0, -2)), // Remove limit and offset for count
-    ]);
-
-    const totalItems = countResult?.total || 0;
-    const totalPages = Math.ceil(totalItems / limit);
-
-    res.json({
-      success: true,
-      data: students,
-      pagination: {
-        currentPage: page,
-        totalPages,
-        totalItems,
-        itemsPerPage: limit,
-        hasNext: page < totalPages,
-        hasPrev: page > 1,
-      },
-      message: `Retrieved ${students.length} of ${totalItems} students`,
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      data: [],
-      pagination: {
-        currentPage: 0,
-        totalPages: 0,
-        totalItems: 0,
-        itemsPerPage: 0,
-        hasNext: false,
-        hasPrev: false,
-      },
-      message: "Internal server error occurred while retrieving students",
-      timestamp: new Date().toISOString(),
-    });
-  }
-};
+  res.json({
+    success: true,
+    data: student,
+    message: "Student retrieved successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
 
 interface CreateStudentRequest {
   name: string;
   email: string;
-  subject: "Math" | "Science" | "English" | "History";
+  subject: string;
   grade: number;
+  classId?: number;
 }
 
 interface CreateStudentResponse {
   success: boolean;
-  data?: Student;
+  // An enrollment request when the email belongs to a student the teacher
+  // cannot see (202)
+  data?: Student | EnrollmentRequest;
   message: string;
   timestamp: string;
-  errors?: any[];
 }
 
-interface DatabaseError extends Error {
-  code?: string;
-  errno?: number;
-}
-
-export const createNewStudent = async (
+/**
+ * 412 for a write based on a stale copy of the student. The current state and
+ * its ETag are included so the client can merge and retry.
+ */
+const staleStudentError = (student: Student) =>
+  new PreconditionFailedError("Student has been modified since it was last retrieved", {
+    data: student,
+    headers: { ETag: recordEtag(student) },
+  });
+
+export const createNewStudent = asyncHandler(async (
   req: AuthenticatedRequest,
   res: Response<CreateStudentResponse>
 ) => {
-  try {
-    // Validation check
-    const errors = validationResult(req);
-    if (!errors.isEmpty())
-      return res.status(400).json({
-        success: false,
-        message: "Validation failed",
-        timestamp: new Date().toISOString(),
-        errors: errors.array(),
-      });
-
-    const { name, email, subject, grade }: CreateStudentRequest = req.body;
-    const db = getDatabase();
-
-    // Check for duplicate email (case-insensitive)
-    const existingStudent = await db.get(
-      "SELECT id FROM students WHERE LOWER(email) = LOWER(?)",
-      [email]
-    );
-
-    if (existingStudent)
-      return res.status(409).json({
-        success: false,
-        message: "A student with this email already exists",
+  // Validation check
+  assertValid(req);
+
+  const { name, email, subject, grade, classId }: CreateStudentRequest =
+    req.body;
+  const db = getDatabase();
+
+  // Teachers only see students in their own classes, so a new student
+  // must be enrolled in one of them straight away
+  if (classId === undefined && req.user?.role === Roles.TEACHER)
+    throw new BadRequestError("classId is required when a teacher creates a student");
+
+  if (
+    classId !== undefined &&
+    !(await findAccessibleClass(db, classId, req.user))
+  )
+    throw new NotFoundError("Class not found");
+
+  // Check for duplicate email (case-insensitive)
+  const existingStudent = await db.get(
+    "SELECT id, archived_at FROM students WHERE LOWER(email) = LOWER(?)",
+    [email]
+  );
+
+  if (existingStudent) {
+    // A student outside the teacher's classes is not confirmed or described:
+    // the teacher gets the same answer as from an enrollment request by email
+    const visible =
+      req.user?.role !== Roles.TEACHER ||
+      (await db.get(
+        ...scopedStudentQuery(
+          req.user,
+          "SELECT id FROM students WHERE id = ?",
+          [existingStudent.id],
+          true
+        )
+      ));
+
+    if (!visible) {
+      const request = await requestEnrollment(db, req.user, classId as number, email);
+      res.status(202).json({
+        success: true,
+        data: request,
+        message: "Enrollment request sent to an administrator",
         timestamp: new Date().toISOString(),
       });
+      return;
+    }
 
-    // Begin transaction for atomicity
-    await db.run("BEGIN TRANSACTION");
+    throw new ConflictError(existingStudent.archived_at
+      ? "An archived student with this email already exists - restore it instead"
+      : "A student with this email already exists");
+  }
 
-    try {
+  const newStudentId = await db
+    .withTransaction(async () => {
       const now = new Date().toISOString();
 
       // Insert new student with parameterized query (prevents SQL injection)
@@ -210,64 +285,53 @@ export const createNewStudent = async (
         [name, email.toLowerCase(), subject, grade, now]
       );
 
-      if (!result.lastID)
-        throw new Error("Failed to create student - no ID returned");
+      if (!result.lastID) throw new Error("Failed to create student - no ID returned");
 
-      // Retrieve the created student
-      const newStudent = await db.get(
-        "SELECT id, name, email, subject, grade, created_at FROM students WHERE id = ?",
-        [result.lastID]
-      );
+      if (classId !== undefined)
+        await db.run(
+          "INSERT INTO enrollments (class_id, student_id) VALUES (?, ?)",
+          [classId, result.lastID]
+        );
 
-      await db.run("COMMIT");
+      // Retrieve the created student
+      const newStudent = await db.get(`${STUDENT_SELECT} WHERE id = ?`, [
+        result.lastID,
+      ]);
 
-      res.status(201).json({
-        success: true,
-        data: newStudent,
-        message: "Student created successfully",
-        timestamp: new Date().toISOString(),
-      });
-    } catch (transactionError) {
-      await db.run("ROLLBACK");
-      throw transactionError;
-    }
-  } catch (error: unknown) {
-    const dbError = error as DatabaseError;
-
-    // Handle specific database constraint errors
-    if (
-      dbError.code === "SQLITE_CONSTRAINT_UNIQUE" ||
-      dbError.message?.includes("UNIQUE constraint failed: students.email")
-    ) {
-      return res.status(409).json({
-        success: false,
-        message: "A student with this email already exists",
-        timestamp: new Date().toISOString(),
+      await recordAudit(db, req.user, {
+        entityType: "student",
+        entityId: newStudent.id,
+        action: "create",
+        after: newStudent,
       });
-    }
 
-    if (dbError.code === "SQLITE_CONSTRAINT_CHECK") {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid data provided - please check grade value",
-        timestamp: new Date().toISOString(),
-      });
-    }
-
-    // Generic server error
-    res.status(500).json({
-      success: false,
-      message: "An unexpected error occurred while creating the student",
-      timestamp: new Date().toISOString(),
+      return newStudent.id;
+    })
+    .catch((error) => {
+      throw toConflictIfUnique(error, "A student with this email already exists");
     });
-  }
-};
+
+  const createdStudent = await db.get(
+    `${STUDENT_RESPONSE_SELECT} WHERE id = ?`,
+    [newStudentId]
+  );
+
+  publishStudentEvent("student.created", createdStudent, req.user);
+
+  res.set("ETag", recordEtag(createdStudent));
+  res.status(201).json({
+    success: true,
+    data: createdStudent,
+    message: "Student created successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
 
 // Request/Response Types
 interface UpdateStudentRequest {
   name?: string;
   email?: string;
-  subject?: "Math" | "Science" | "English" | "History";
+  subject?: string;
   grade?: number;
 }
 
@@ -276,86 +340,64 @@ interface UpdateStudentResponse {
   data?: Student;
   message: string;
   timestamp: string;
-  errors?: any[];
 }
 
 // Enhanced handler
-export const updateStudent = async (
+export const updateStudent = asyncHandler(async (
   req: AuthenticatedRequest,
   res: Response<UpdateStudentResponse>
 ) => {
-  try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty())
-      return res.status(400).json({
-        success: false,
-        message: "Validation failed",
-        timestamp: new Date().toISOString(),
-        errors: errors.array(),
-      });
+  assertValid(req);
 
-    const { id } = req.params;
-    const updates: UpdateStudentRequest = req.body;
+  const { id } = req.params;
+  const updates: UpdateStudentRequest = req.body;
 
-    // Validate ID parameter
-    if (!id || isNaN(Number(id)))
-      return res.status(400).json({
-        success: false,
-        message: "Invalid student ID",
-        timestamp: new Date().toISOString(),
-      });
+  // Validate ID parameter
+  if (!id || isNaN(Number(id))) throw new BadRequestError("Invalid student ID");
 
-    const db = getDatabase();
+  const db = getDatabase();
 
-    const existingStudent = await db.get(
-      "SELECT id, name, email, subject, grade FROM students WHERE id = ?",
-      [id]
-    );
+  // Teachers can only update students enrolled in their classes. The
+  // letter grade is selected too, as it is part of the ETag
+  const existingStudent = await db.get(
+    ...scopedStudentQuery(req.user, `${STUDENT_RESPONSE_SELECT} WHERE id = ?`, [id])
+  );
 
-    if (!existingStudent)
-      return res.status(404).json({
-        success: false,
-        message: "Student not found",
-        timestamp: new Date().toISOString(),
-      });
+  if (!existingStudent) throw new NotFoundError("Student not found");
 
-    // Check if there are fields to update
-    const allowedFields = ["name", "email", "subject", "grade"];
-    const updateFields = Object.keys(updates).filter(
-      (field) =>
-        allowedFields.includes(field) &&
-        updates[field as keyof UpdateStudentRequest] !== undefined
-    );
+  if (!ifMatchSatisfied(req.get("If-Match"), recordEtag(existingStudent)))
+    throw staleStudentError(existingStudent);
 
-    if (updateFields.length === 0)
-      return res.status(400).json({
-        success: false,
-        message: "No valid fields to update",
-        timestamp: new Date().toISOString(),
-      });
+  // Check if there are fields to update
+  const allowedFields = ["name", "email", "subject", "grade"];
+  const updateFields = Object.keys(updates).filter(
+    (field) =>
+      allowedFields.includes(field) &&
+      updates[field as keyof UpdateStudentRequest] !== undefined
+  );
 
-    // Check for duplicate email if email is being updated
-    if (
-      updates.email &&
-      updates.email.toLowerCase() !== existingStudent.email.toLowerCase()
-    ) {
-      const duplicateEmail = await db.get(
-        "SELECT id FROM students WHERE LOWER(email) = LOWER(?) AND id != ?",
-        [updates.email, id]
-      );
+  if (updateFields.length === 0) throw new BadRequestError("No valid fields to update");
 
-      if (duplicateEmail)
-        return res.status(409).json({
-          success: false,
-          message: "A student with this email already exists",
-          timestamp: new Date().toISOString(),
-        });
-    }
+  // Once scores are recorded the grade is the weighted average of them
+  if (updates.grade !== undefined && (await hasAssessmentScores(db, Number(id))))
+    throw new ConflictError("Grade is calculated from recorded assessment scores and cannot be set directly");
 
-    // Begin transaction
-    await db.run("BEGIN TRANSACTION");
+  // Check for duplicate email if email is being updated
+  if (
+    updates.email &&
+    updates.email.toLowerCase() !== existingStudent.email.toLowerCase()
+  ) {
+    const duplicateEmail = await db.get(
+      "SELECT id FROM students WHERE LOWER(email) = LOWER(?) AND id != ?",
+      [updates.email, id]
+    );
+
+    if (duplicateEmail)
+      throw new ConflictError("A student with this email already exists");
+  }
 
-    try {
+  const updatedStudent = await db
+    .withTransaction(async () => {
       // Build secure dynamic query with whitelisted fields
       const setClause = updateFields.map((field) => `${field} = ?`).join(", ");
       const values = updateFields.map((field) => {
@@ -366,60 +408,46 @@ export const updateStudent = async (
           : value;
       });
 
-      const finalQuery = `UPDATE students SET ${setClause} WHERE id = ?`;
-      values.push(id);
+      // Only write over the version that was checked above; the trigger on
+      // students bumps it
+      const finalQuery = `UPDATE students SET ${setClause} WHERE id = ? AND version = ?`;
+      values.push(id, existingStudent.version);
 
       const updateResult = await db.run(finalQuery, values);
 
-      if (updateResult.changes === 0) throw new Error("No rows were updated");
+      // Someone else changed the student since we read it
+      if (updateResult.changes === 0) {
+        const currentStudent = await db.get(`${STUDENT_RESPONSE_SELECT} WHERE id = ?`, [id]);
+        throw staleStudentError(currentStudent);
+      }
 
       // Retrieve updated student
-      const updatedStudent = await db.get(
-        "SELECT id, name, email, subject, grade, created_at FROM students WHERE id = ?",
+      const student = await db.get(
+        `${STUDENT_RESPONSE_SELECT} WHERE id = ?`,
         [id]
       );
 
-      await db.run("COMMIT");
+      // The letter grade and GPA points follow from the grade and are not
+      // audited themselves
+      const { letter_grade, gpa_points, ...stored } = student;
+      await recordUpdateAudit(db, req.user, "student", existingStudent, stored);
 
-      res.json({
-        success: true,
-        data: updatedStudent,
-        message: "Student updated successfully",
-        timestamp: new Date().toISOString(),
-      });
-    } catch (transactionError) {
-      await db.run("ROLLBACK");
-      throw transactionError;
-    }
-  } catch (error: unknown) {
-    const dbError = error as DatabaseError;
+      return student;
+    })
+    .catch((error) => {
+      throw toConflictIfUnique(error, "A student with this email already exists");
+    });
 
-    // Handle specific database constraint errors
-    if (
-      dbError.code === "SQLITE_CONSTRAINT_UNIQUE" ||
-      dbError.message?.includes("UNIQUE constraint failed")
-    )
-      return res.status(409).json({
-        success: false,
-        message: "A student with this email already exists",
-        timestamp: new Date().toISOString(),
-      });
+  publishStudentEvent("student.updated", updatedStudent, req.user);
 
-    if (dbError.code === "SQLITE_CONSTRAINT_CHECK")
-      return res.status(400).json({
-        success: false,
-        message: "Invalid data provided - please check field values",
-        timestamp: new Date().toISOString(),
-      });
-
-    // Generic server error
-    res.status(500).json({
-      success: false,
-      message: "An unexpected error occurred while updating the student",
-      timestamp: new Date().toISOString(),
-    });
-  }
-};
+  res.set("ETag", recordEtag(updatedStudent));
+  res.json({
+    success: true,
+    data: updatedStudent,
+    message: "Student updated successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
 
 interface DeleteStudentResponse {
   success: boolean;
@@ -430,99 +458,178 @@ interface DeleteStudentResponse {
       email: string;
       subject: string;
     };
+    archivedAt: string;
   };
   message: string;
   timestamp: string;
-  errors?: any[];
 }
 
 // Enhanced handler
-export const deleteStudent = async (
+export const deleteStudent = asyncHandler(async (
   req: AuthenticatedRequest,
   res: Response<DeleteStudentResponse>
 ) => {
-  try {
-    const { id } = req.params;
-
-    // Validate ID parameter
-    if (!id || isNaN(Number(id)) || Number(id) <= 0)
-      return res.status(400).json({
-        success: false,
-        message: "Invalid student ID provided",
-        timestamp: new Date().toISOString(),
-      });
+  const { id } = req.params;
 
-    const db = getDatabase();
-    const studentId = Number(id);
+  // Validate ID parameter
+  if (!id || isNaN(Number(id)) || Number(id) <= 0)
+    throw new BadRequestError("Invalid student ID provided");
 
-    // Check if student exists and get data for audit log
-    const existingStudent = await db.get(
-      "SELECT id, name, email, subject, grade FROM students WHERE id = ?",
-      [studentId]
-    );
+  const db = getDatabase();
+  const studentId = Number(id);
 
-    if (!existingStudent)
-      return res.status(404).json({
-        success: false,
-        message: "Student not found",
-        timestamp: new Date().toISOString(),
-      });
+  // Check if student exists and get data for the ETag and audit log
+  const existingStudent = await db.get(
+    ...scopedStudentQuery(req.user, `${STUDENT_RESPONSE_SELECT} WHERE id = ?`, [
+      studentId,
+    ])
+  );
+
+  if (!existingStudent) throw new NotFoundError("Student not found");
 
-    // Authorization is handled by middleware
+  if (!ifMatchSatisfied(req.get("If-Match"), recordEtag(existingStudent)))
+    throw staleStudentError(existingStudent);
 
-    // Begin transaction
-    await db.run("BEGIN TRANSACTION");
+  // Role checks are handled by middleware; the lookup above is scoped to
+  // the teacher's classes
 
-    try {
-      // Note: No related records check needed as student_assignments table doesn't exist
+  // Deleting only archives the record; it stays restorable until the
+  // retention period runs out and the purge removes it for good
+  const archivedAt = new Date().toISOString();
+
+  await db.withTransaction(async () => {
+    const archiveResult = await db.run(
+      "UPDATE students SET archived_at = ? WHERE id = ? AND version = ? AND archived_at IS NULL",
+      [archivedAt, studentId, existingStudent.version]
+    );
 
-      // Perform the deletion
-      const deleteResult = await db.run("DELETE FROM students WHERE id = ?", [
+    // Changed or archived by someone else since we read it
+    if (archiveResult.changes === 0) {
+      const currentStudent = await db.get(`${STUDENT_RESPONSE_SELECT} WHERE id = ?`, [
         studentId,
       ]);
+      throw staleStudentError(currentStudent);
+    }
 
-      if (deleteResult.changes === 0)
-        throw new Error(
-          "No rows were deleted - student may have been deleted by another process"
-        );
+    await recordUpdateAudit(
+      db,
+      req.user,
+      "student",
+      { id: studentId, archived_at: null },
+      { id: studentId, archived_at: archivedAt },
+      "archived"
+    );
+  });
+
+  publishStudentEvent(
+    "student.deleted",
+    { ...existingStudent, archived_at: archivedAt },
+    req.user
+  );
+
+  res.json({
+    success: true,
+    data: {
+      deletedId: studentId,
+      deletedStudent: {
+        name: existingStudent.name,
+        email: existingStudent.email,
+        subject: existingStudent.subject,
+      },
+      archivedAt,
+    },
+    message: "Student archived successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Restore an archived student
+ */
+export const restoreStudent = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<UpdateStudentResponse>
+) => {
+  assertValid(req);
 
-      await db.run("COMMIT");
+  const studentId = Number(req.params.id);
+  const db = getDatabase();
 
-      res.json({
-        success: true,
-        data: {
-          deletedId: studentId,
-          deletedStudent: {
-            name: existingStudent.name,
-            email: existingStudent.email,
-            subject: existingStudent.subject,
-          },
-        },
-        message: "Student deleted successfully",
-        timestamp: new Date().toISOString(),
-      });
-    } catch (transactionError) {
-      await db.run("ROLLBACK");
-      throw transactionError;
-    }
-  } catch (error: unknown) {
-    const dbError = error as DatabaseError;
+  const existingStudent = await db.get(
+    ...scopedStudentQuery(
+      req.user,
+      "SELECT id, archived_at FROM students WHERE id = ?",
+      [studentId],
+      true
+    )
+  );
 
-    // Note: Foreign key constraint handling removed as no related tables exist
+  if (!existingStudent) throw new NotFoundError("Student not found");
 
-    if (dbError.message?.includes("database is locked")) {
-      return res.status(503).json({
-        success: false,
-        message: "Database temporarily unavailable, please try again",
-        timestamp: new Date().toISOString(),
-      });
-    }
+  if (!existingStudent.archived_at) throw new ConflictError("Student is not archived");
 
-    // Generic server error
-    res.status(500).json({
-      success: false,
-      message: "An unexpected error occurred while deleting the student",
-      timestamp: new Date().toISOString(),
-    });
-  }
-};
+  const restoredStudent = await db.withTransaction(async () => {
+    await db.run("UPDATE students SET archived_at = NULL WHERE id = ?", [
+      studentId,
+    ]);
+
+    await recordUpdateAudit(
+      db,
+      req.user,
+      "student",
+      { id: studentId, archived_at: existingStudent.archived_at },
+      { id: studentId, archived_at: null },
+      "restored"
+    );
+
+    return db.get(`${STUDENT_RESPONSE_SELECT} WHERE id = ?`, [studentId]);
+  });
+
+  publishStudentEvent("student.updated", restoredStudent, req.user);
+
+  res.set("ETag", recordEtag(restoredStudent));
+  res.json({
+    success: true,
+    data: restoredStudent,
+    message: "Student restored successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+interface PurgeStudentsResponse {
+  success: boolean;
+  data?: {
+    purgedIds: number[];
+    retentionDays: number;
+  };
+  message: string;
+  timestamp: string;
+}
+
+/**
+ * Permanently remove students archived longer than the retention period.
+ * Defaults to the configured period; admins may pass a different one.
+ */
+export const purgeStudents = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<PurgeStudentsResponse>
+) => {
+  assertValid(req);
+
+  const retentionDays: number =
+    req.body?.retentionDays ?? config.students.archiveRetentionDays;
+
+  const purgedIds = await purgeArchivedStudents(
+    getDatabase(),
+    req.user,
+    retentionDays,
+    "purged by admin"
+  );
+
+  res.json({
+    success: true,
+    data: { purgedIds, retentionDays },
+    message: `Purged ${purgedIds.length} archived students`,
+    timestamp: new Date().toISOString(),
+  });
+});
@@ -0,0 +1,238 @@
+import { Request, Response } from "express";
+import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { asyncHandler } from "../middleware/asyncHandler";
+import {
+  assertValid,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  toConflictIfUnique,
+} from "../errors";
+import { getDatabase, PASSWORD_SALT_ROUNDS } from "../database/init";
+import { Roles } from "../types/enums";
+import { StudentInvitation } from "../types";
+import { scopedStudentQuery } from "../services/studentScope";
+
+const INVITATION_TTL_DAYS = 7;
+
+interface StudentAccountResponse<T = any> {
+  success: boolean;
+  data?: T;
+  message: string;
+  timestamp: string;
+}
+
+// Invitation tokens are only ever shown once; we store a hash of them
+const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Create an invitation for a student to set up a login account using the
+ * email already stored on their record. Any earlier pending invitation for
+ * the same student is replaced.
+ */
+export const inviteStudent = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<StudentAccountResponse<StudentInvitation>>
+) => {
+  assertValid(req);
+
+  const studentId = Number(req.params.id);
+  const db = getDatabase();
+
+  const student = await db.get(
+    ...scopedStudentQuery(
+      req.user,
+      "SELECT id, email FROM students WHERE id = ?",
+      [studentId]
+    )
+  );
+
+  if (!student) throw new NotFoundError("Student not found");
+
+  const existingLink = await db.get(
+    "SELECT user_id FROM student_accounts WHERE student_id = ?",
+    [studentId]
+  );
+
+  if (existingLink)
+    throw new ConflictError("This student already has a linked login account");
+
+  const token = crypto.randomBytes(32).toString("hex");
+  const expiresAt = new Date(
+    Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  await db.withTransaction(async () => {
+    await db.run(
+      "DELETE FROM student_invitations WHERE student_id = ? AND accepted_at IS NULL",
+      [studentId]
+    );
+
+    await db.run(
+      `INSERT INTO student_invitations (student_id, email, token_hash, invited_by, expires_at)
+         VALUES (?, ?, ?, ?, ?)`,
+      [studentId, student.email, hashToken(token), req.user?.id, expiresAt]
+    );
+  });
+
+  res.status(201).json({
+    success: true,
+    data: {
+      studentId,
+      email: student.email,
+      token,
+      expiresAt,
+    },
+    message: "Invitation created successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Accept a student invitation: creates a student-role user whose username is
+ * the invited email and links it to the student record.
+ */
+export const acceptInvitation = asyncHandler(async (
+  req: Request,
+  res: Response<StudentAccountResponse>
+) => {
+  assertValid(req);
+
+  const { token, password } = req.body;
+  const db = getDatabase();
+
+  const invitation = await db.get(
+    `SELECT id, student_id, email, expires_at FROM student_invitations
+       WHERE token_hash = ? AND accepted_at IS NULL`,
+    [hashToken(token)]
+  );
+
+  if (!invitation || new Date(invitation.expires_at) < new Date())
+    throw new BadRequestError("Invitation is invalid or has expired");
+
+  const passwordHash = await bcrypt.hash(password, PASSWORD_SALT_ROUNDS);
+
+  const userId = await db
+    .withTransaction(async () => {
+      const userResult = await db.run(
+        `INSERT INTO users (username, email, password_hash, role)
+           VALUES (?, ?, ?, ?)`,
+        [invitation.email, invitation.email, passwordHash, Roles.STUDENT]
+      );
+
+      await db.run(
+        `INSERT INTO student_accounts (user_id, student_id, linked_by)
+           SELECT ?, student_id, invited_by FROM student_invitations WHERE id = ?`,
+        [userResult.lastID, invitation.id]
+      );
+
+      await db.run(
+        "UPDATE student_invitations SET accepted_at = CURRENT_TIMESTAMP WHERE id = ?",
+        [invitation.id]
+      );
+
+      return userResult.lastID;
+    })
+    .catch((error) => {
+      throw toConflictIfUnique(error, "An account for this student or email already exists");
+    });
+
+  res.status(201).json({
+    success: true,
+    data: {
+      userId,
+      username: invitation.email,
+      studentId: invitation.student_id,
+    },
+    message: "Account created successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Link an existing student-role user to a student record
+ */
+export const linkStudentAccount = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<StudentAccountResponse>
+) => {
+  assertValid(req);
+
+  const studentId = Number(req.params.id);
+  const { userId } = req.body;
+  const db = getDatabase();
+
+  const [student, user] = await Promise.all([
+    db.get(
+      ...scopedStudentQuery(req.user, "SELECT id FROM students WHERE id = ?", [
+        studentId,
+      ])
+    ),
+    db.get("SELECT id, role FROM users WHERE id = ?", [userId]),
+  ]);
+
+  if (!student || !user)
+    throw new NotFoundError(!student ? "Student not found" : "User not found");
+
+  if (user.role !== Roles.STUDENT)
+    throw new BadRequestError("Only users with the student role can be linked to a student record");
+
+  await db
+    .run(
+      "INSERT INTO student_accounts (user_id, student_id, linked_by) VALUES (?, ?, ?)",
+      [userId, studentId, req.user?.id]
+    )
+    .catch((error) => {
+      throw toConflictIfUnique(
+        error,
+        "This student or user is already linked to another account"
+      );
+    });
+
+  res.status(201).json({
+    success: true,
+    data: { userId, studentId },
+    message: "Student account linked successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Remove the link between a student record and its login account. The user
+ * account itself is kept so an admin can disable or re-link it.
+ */
+export const unlinkStudentAccount = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<StudentAccountResponse>
+) => {
+  assertValid(req);
+
+  const studentId = Number(req.params.id);
+  const db = getDatabase();
+
+  const student = await db.get(
+    ...scopedStudentQuery(req.user, "SELECT id FROM students WHERE id = ?", [
+      studentId,
+    ])
+  );
+
+  if (!student) throw new NotFoundError("Student not found");
+
+  const result = await db.run(
+    "DELETE FROM student_accounts WHERE student_id = ?",
+    [studentId]
+  );
+
+  if (result.changes === 0)
+    throw new NotFoundError("No linked account found for this student");
+
+  res.json({
+    success: true,
+    data: { studentId },
+    message: "Student account unlinked successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
@@ -0,0 +1,273 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { AppError, assertValid, BadRequestError, ErrorCode } from "../errors";
+import { Database, getDatabase } from "../database/init";
+import { scopedStudentQuery } from "../services/studentScope";
+import { buildStudentListQuery, StudentListFilters } from "../services/studentQuery";
+import { hasAssessmentScores } from "../services/grades";
+import { recordUpdateAudit } from "../services/audit";
+import { publishStudentEvent, StudentEventType } from "../services/events";
+import { Student, StudentBatchItemResult, StudentBatchReport } from "../types";
+import { STUDENT_RESPONSE_SELECT, STUDENT_SELECT } from "./student";
+
+export const MAX_BATCH_SIZE = 500;
+
+interface StudentBatchTarget {
+  ids?: number[];
+  // Same meaning as the filter parameters of GET /students
+  filter?: Pick<
+    StudentListFilters,
+    "subject" | "search" | "letterGrade" | "grade" | "createdAfter" | "createdBefore"
+  >;
+}
+
+interface StudentBatchChanges {
+  name?: string;
+  email?: string;
+  subject?: string;
+  grade?: number;
+  // Added to every student's current grade, e.g. 5 to curve by five points
+  gradeDelta?: number;
+}
+
+interface StudentBatchResponse {
+  success: boolean;
+  data?: StudentBatchReport;
+  message: string;
+  timestamp: string;
+}
+
+type BatchOperation = (
+  db: Database,
+  req: AuthenticatedRequest,
+  student: Student
+) => Promise<StudentBatchItemResult>;
+
+/**
+ * Ids of the students a batch applies to, in the caller's scope. Explicit
+ * ids that are missing, archived or out of scope are kept so they can be
+ * reported as not found.
+ */
+const resolveTargets = async (
+  db: Database,
+  req: AuthenticatedRequest,
+  { ids, filter }: StudentBatchTarget
+): Promise<{ ids: number[] } | { error: string }> => {
+  if (ids) return { ids: [...new Set(ids)] };
+
+  const { where, params } = await buildStudentListQuery(db, req.user, {
+    subject: filter?.subject,
+    search: filter?.search,
+    letterGrade: filter?.letterGrade,
+    grade: filter?.grade,
+    createdAfter: filter?.createdAfter,
+    createdBefore: filter?.createdBefore,
+  });
+  const rows = await db.all(`SELECT id FROM students${where} ORDER BY id`, params);
+
+  if (rows.length > MAX_BATCH_SIZE)
+    return {
+      error: `The filter matches ${rows.length} students; a batch is limited to ${MAX_BATCH_SIZE}`,
+    };
+
+  return { ids: rows.map((row) => row.id) };
+};
+
+/**
+ * Run `operation` for every target inside one transaction. Each student is
+ * checked on its own so the response can say which ones failed, but the
+ * changes are only committed when every item succeeded.
+ */
+const runBatch = async (
+  req: AuthenticatedRequest,
+  res: Response<StudentBatchResponse>,
+  operation: BatchOperation,
+  verb: string,
+  eventType: StudentEventType
+) => {
+  assertValid(req);
+
+  const db = getDatabase();
+  const targets = await resolveTargets(db, req, req.body);
+  if ("error" in targets) throw new BadRequestError(targets.error);
+
+  const results: StudentBatchItemResult[] = [];
+
+  // A failed item throws, which rolls back the items before it as well
+  await db.withTransaction(async () => {
+    for (const id of targets.ids) {
+      // Read inside the transaction so earlier items of the batch are seen
+      const student = await db.get(
+        ...scopedStudentQuery(req.user, `${STUDENT_SELECT} WHERE id = ?`, [id])
+      );
+
+      results.push(
+        student
+          ? await operation(db, req, student)
+          : { id, status: 404, message: "Student not found" }
+      );
+    }
+
+    const failed = results.filter((result) => result.status >= 400);
+    if (failed.length === 0) return;
+
+    // Report the most specific problem: conflicts, then invalid values,
+    // then students that do not exist
+    const [status, code]: [number, ErrorCode] = failed.some(
+      (result) => result.status === 409
+    )
+      ? [409, "CONFLICT"]
+      : failed.some((result) => result.status === 400)
+      ? [400, "BAD_REQUEST"]
+      : [404, "NOT_FOUND"];
+
+    const report: StudentBatchReport = {
+      applied: false,
+      matched: targets.ids.length,
+      succeeded: results.length - failed.length,
+      failed: failed.length,
+      results,
+    };
+
+    throw new AppError(
+      status,
+      code,
+      `${failed.length} of ${results.length} students could not be ${verb}; no changes were saved`,
+      { data: report }
+    );
+  });
+
+  results.forEach((result) =>
+    publishStudentEvent(eventType, { ...result.data, id: result.id }, req.user)
+  );
+
+  res.json({
+    success: true,
+    data: {
+      applied: true,
+      matched: targets.ids.length,
+      succeeded: results.length,
+      failed: 0,
+      results,
+    },
+    message: `${results.length} students ${verb}`,
+    timestamp: new Date().toISOString(),
+  });
+};
+
+const updateOne =
+  (changes: StudentBatchChanges): BatchOperation =>
+  async (db, req, student) => {
+    const updates: Partial<Student> = {};
+    if (changes.name !== undefined) updates.name = changes.name;
+    if (changes.email !== undefined) updates.email = changes.email.toLowerCase();
+    if (changes.subject !== undefined) updates.subject = changes.subject;
+    if (changes.grade !== undefined) updates.grade = changes.grade;
+    if (changes.gradeDelta !== undefined)
+      updates.grade = Math.round((student.grade + changes.gradeDelta) * 100) / 100;
+
+    if (updates.grade !== undefined) {
+      if (updates.grade < 0 || updates.grade > 100)
+        return {
+          id: student.id,
+          status: 400,
+          message: "Grade must be between 0 and 100",
+        };
+
+      // Once scores are recorded the grade is the weighted average of them
+      if (await hasAssessmentScores(db, student.id))
+        return {
+          id: student.id,
+          status: 409,
+          message:
+            "Grade is calculated from recorded assessment scores and cannot be set directly",
+        };
+    }
+
+    if (updates.email && updates.email !== student.email.toLowerCase()) {
+      const duplicateEmail = await db.get(
+        "SELECT id FROM students WHERE LOWER(email) = LOWER(?) AND id != ?",
+        [updates.email, student.id]
+      );
+
+      if (duplicateEmail)
+        return {
+          id: student.id,
+          status: 409,
+          message: "A student with this email already exists",
+        };
+    }
+
+    const fields = Object.keys(updates) as (keyof typeof updates)[];
+    await db.run(
+      `UPDATE students SET ${fields.map((field) => `${field} = ?`).join(", ")} WHERE id = ?`,
+      [...fields.map((field) => updates[field]), student.id]
+    );
+
+    const updatedStudent = await db.get(`${STUDENT_RESPONSE_SELECT} WHERE id = ?`, [
+      student.id,
+    ]);
+
+    await recordUpdateAudit(
+      db,
+      req.user,
+      "student",
+      { ...student },
+      updatedStudent,
+      "batch update"
+    );
+
+    return {
+      id: student.id,
+      status: 200,
+      message: "Student updated successfully",
+      data: updatedStudent,
+    };
+  };
+
+const archiveOne: BatchOperation = async (db, req, student) => {
+  const archivedAt = new Date().toISOString();
+  await db.run("UPDATE students SET archived_at = ? WHERE id = ?", [
+    archivedAt,
+    student.id,
+  ]);
+
+  await recordUpdateAudit(
+    db,
+    req.user,
+    "student",
+    { id: student.id, archived_at: null },
+    { id: student.id, archived_at: archivedAt },
+    "archived in batch"
+  );
+
+  return {
+    id: student.id,
+    status: 200,
+    message: "Student archived successfully",
+    data: await db.get(`${STUDENT_RESPONSE_SELECT} WHERE id = ?`, [student.id]),
+  };
+};
+
+/**
+ * Apply the same changes to every student selected by `ids` or `filter`.
+ * Each student gets the checks of PUT /students/:id; the whole batch is
+ * saved only if all of them pass.
+ */
+export const batchUpdateStudents = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<StudentBatchResponse>
+) => {
+  await runBatch(req, res, updateOne(req.body?.changes ?? {}), "updated", "student.updated");
+});
+
+/**
+ * Archive every student selected by `ids` or `filter`, all or nothing
+ */
+export const batchDeleteStudents = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<StudentBatchResponse>
+) => {
+  await runBatch(req, res, archiveOne, "archived", "student.deleted");
+});
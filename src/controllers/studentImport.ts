@@ -0,0 +1,145 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { assertValid, BadRequestError, NotFoundError, toConflictIfUnique } from "../errors";
+import { getDatabase } from "../database/init";
+import { Roles } from "../types/enums";
+import { Student, StudentImportReport } from "../types";
+import { findAccessibleClass } from "./class";
+import { recordAudit } from "../services/audit";
+import { publishStudentEvent } from "../services/events";
+import {
+  parseStudentCsv,
+  validateImportRows,
+} from "../services/studentImport";
+
+interface StudentImportResponse {
+  success: boolean;
+  data?: StudentImportReport;
+  message: string;
+  timestamp: string;
+}
+
+interface ImportStudentsQuery {
+  dryRun?: boolean;
+  classId?: number;
+}
+
+/**
+ * Import students from a CSV roster (columns: name, email, subject, grade).
+ * Every row is validated like POST /students and reported individually. With
+ * dryRun nothing is written; otherwise all valid rows are inserted in a
+ * single transaction and invalid rows are skipped.
+ */
+export const importStudents = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<StudentImportResponse>
+) => {
+  assertValid(req);
+
+  if (typeof req.body !== "string" || req.body.trim() === "")
+    throw new BadRequestError("Send the CSV file as the request body with Content-Type: text/csv");
+
+  const { dryRun = false, classId }: ImportStudentsQuery = req.query;
+  const db = getDatabase();
+
+  // Same rule as POST /students: teachers only see students in their own
+  // classes, so imported students must land in one of them
+  if (classId === undefined && req.user?.role === Roles.TEACHER)
+    throw new BadRequestError("classId is required when a teacher imports students");
+
+  if (
+    classId !== undefined &&
+    !(await findAccessibleClass(db, classId, req.user))
+  )
+    throw new NotFoundError("Class not found");
+
+  const parsed = parseStudentCsv(req.body);
+  if ("error" in parsed) throw new BadRequestError(parsed.error);
+
+  const { valid, errors: rowErrors, totalRows } = await validateImportRows(
+    db,
+    parsed.records
+  );
+
+  const report: StudentImportReport = {
+    dryRun,
+    totalRows,
+    validRows: valid.length,
+    invalidRows: rowErrors.length,
+    imported: 0,
+    errors: rowErrors,
+    students: valid.map(({ row, ...student }) => student),
+  };
+
+  if (dryRun)
+    return res.json({
+      success: true,
+      data: report,
+      message: `Dry run: ${valid.length} of ${totalRows} rows can be imported`,
+      timestamp: new Date().toISOString(),
+    });
+
+  if (valid.length === 0)
+    throw new BadRequestError("No valid rows to import", "VALIDATION_FAILED", {
+      data: report,
+    });
+
+  const created: Student[] = [];
+  const now = new Date().toISOString();
+
+  await db
+    .withTransaction(async () => {
+      for (const student of valid) {
+        const result = await db.run(
+          `INSERT INTO students (name, email, subject, grade, created_at)
+             VALUES (?, ?, ?, ?, ?)`,
+          [student.name, student.email, student.subject, student.grade, now]
+        );
+
+        if (classId !== undefined)
+          await db.run(
+            "INSERT INTO enrollments (class_id, student_id) VALUES (?, ?)",
+            [classId, result.lastID]
+          );
+
+        const createdStudent: Student = {
+          id: result.lastID,
+          name: student.name,
+          email: student.email,
+          subject: student.subject,
+          grade: student.grade,
+          created_at: now,
+          version: 1,
+        };
+
+        await recordAudit(db, req.user, {
+          entityType: "student",
+          entityId: createdStudent.id,
+          action: "create",
+          after: { ...createdStudent },
+          reason: "import",
+        });
+
+        created.push(createdStudent);
+      }
+    })
+    // Another request created one of the emails between validation and insert
+    .catch((error) => {
+      throw toConflictIfUnique(
+        error,
+        "A student with one of these emails was created during the import; nothing was imported"
+      );
+    });
+
+  created.forEach((student) =>
+    publishStudentEvent("student.created", student, req.user)
+  );
+
+  res.status(201).json({
+    success: true,
+    data: { ...report, imported: created.length, students: created },
+    message: `Imported ${created.length} of ${totalRows} rows`,
+    timestamp: new Date().toISOString(),
+  });
+});
@@ -0,0 +1,165 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { assertValid, ConflictError, NotFoundError, toConflictIfUnique } from "../errors";
+import { getDatabase } from "../database/init";
+import { Subject } from "../types";
+import { recordUpdateAudit } from "../services/audit";
+
+interface SubjectResponse<T = Subject> {
+  success: boolean;
+  data?: T;
+  message: string;
+  timestamp: string;
+}
+
+const SUBJECT_SELECT = `
+  SELECT sub.id, sub.name,
+         (SELECT COUNT(*) FROM students s WHERE s.subject = sub.name) AS student_count,
+         sub.created_at
+    FROM subjects sub`;
+
+// Tables whose rows reference a subject by name
+const SUBJECT_REFERENCES = ["students", "classes", "assessments"];
+
+export const getSubjects = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<SubjectResponse<Subject[]>>
+) => {
+  const subjects = await getDatabase().all(
+    `${SUBJECT_SELECT} ORDER BY sub.name ASC`
+  );
+
+  res.json({
+    success: true,
+    data: subjects,
+    message: `Retrieved ${subjects.length} subjects`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const createSubject = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<SubjectResponse>
+) => {
+  assertValid(req);
+
+  const db = getDatabase();
+
+  const result = await db
+    .run("INSERT INTO subjects (name) VALUES (?)", [req.body.name])
+    .catch((error) => {
+      throw toConflictIfUnique(error, "A subject with this name already exists");
+    });
+
+  const subject = await db.get(`${SUBJECT_SELECT} WHERE sub.id = ?`, [
+    result.lastID,
+  ]);
+
+  res.status(201).json({
+    success: true,
+    data: subject,
+    message: "Subject created successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Rename a subject. Records reference subjects by name, so the new name is
+ * applied to every student, class and assessment in the same transaction.
+ */
+export const updateSubject = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<SubjectResponse>
+) => {
+  assertValid(req);
+
+  const subjectId = Number(req.params.id);
+  const { name } = req.body;
+  const db = getDatabase();
+
+  const existing = await db.get("SELECT id, name FROM subjects WHERE id = ?", [
+    subjectId,
+  ]);
+
+  if (!existing) throw new NotFoundError("Subject not found");
+
+  await db
+    .withTransaction(async () => {
+      await db.run("UPDATE subjects SET name = ? WHERE id = ?", [
+        name,
+        subjectId,
+      ]);
+
+      const renamedStudents = await db.all(
+        "SELECT id FROM students WHERE subject = ?",
+        [existing.name]
+      );
+
+      for (const table of SUBJECT_REFERENCES) {
+        await db.run(`UPDATE ${table} SET subject = ? WHERE subject = ?`, [
+          name,
+          existing.name,
+        ]);
+      }
+
+      for (const student of renamedStudents)
+        await recordUpdateAudit(
+          db,
+          req.user,
+          "student",
+          { id: student.id, subject: existing.name },
+          { id: student.id, subject: name },
+          "subject renamed"
+        );
+    })
+    .catch((error) => {
+      throw toConflictIfUnique(error, "A subject with this name already exists");
+    });
+
+  const subject = await db.get(`${SUBJECT_SELECT} WHERE sub.id = ?`, [
+    subjectId,
+  ]);
+
+  res.json({
+    success: true,
+    data: subject,
+    message: "Subject updated successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const deleteSubject = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<SubjectResponse<{ deletedId: number }>>
+) => {
+  assertValid(req);
+
+  const subjectId = Number(req.params.id);
+  const db = getDatabase();
+
+  const existing = await db.get("SELECT id, name FROM subjects WHERE id = ?", [
+    subjectId,
+  ]);
+
+  if (!existing) throw new NotFoundError("Subject not found");
+
+  for (const table of SUBJECT_REFERENCES) {
+    const inUse = await db.get(
+      `SELECT 1 AS found FROM ${table} WHERE subject = ? LIMIT 1`,
+      [existing.name]
+    );
+
+    if (inUse)
+      throw new ConflictError(`Subject is still used by existing ${table} and cannot be deleted`);
+  }
+
+  await db.run("DELETE FROM subjects WHERE id = ?", [subjectId]);
+
+  res.json({
+    success: true,
+    data: { deletedId: subjectId },
+    message: "Subject deleted successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
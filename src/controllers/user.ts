@@ -0,0 +1,241 @@
+import { Response } from "express";
+import bcrypt from "bcryptjs";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { asyncHandler } from "../middleware/asyncHandler";
+import {
+  assertValid,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  toConflictIfUnique,
+} from "../errors";
+import { getDatabase, PASSWORD_SALT_ROUNDS } from "../database/init";
+import { Roles } from "../types/enums";
+import { PaginatedResponse, User } from "../types";
+import { revokeUserSessions } from "../services/session";
+
+interface GetUsersQuery {
+  role?: Roles;
+  active?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+interface CreateUserRequest {
+  username: string;
+  email?: string;
+  password: string;
+  role: Roles;
+}
+
+interface UserResponse<T = User> {
+  success: boolean;
+  data?: T;
+  message: string;
+  timestamp: string;
+}
+
+const USER_TAKEN = "A user with this username or email already exists";
+
+const USER_COLUMNS =
+  "id, username, email, role, is_active, created_at, updated_at";
+
+// SQLite stores booleans as 0/1 - convert before sending to clients
+const toUser = (row: any): User => ({
+  ...row,
+  is_active: row.is_active === 1,
+});
+
+export const getUsers = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<PaginatedResponse<User>>
+) => {
+  assertValid(req);
+
+  const db = getDatabase();
+  const { role, active, page = 1, limit = 20 }: GetUsersQuery = req.query;
+
+  let baseQuery = `SELECT ${USER_COLUMNS} FROM users`;
+  let countQuery = "SELECT COUNT(*) as total FROM users";
+  const params: any[] = [];
+  const conditions: string[] = [];
+
+  if (role) {
+    conditions.push("role = ?");
+    params.push(role);
+  }
+
+  if (active !== undefined) {
+    conditions.push("is_active = ?");
+    params.push(active ? 1 : 0);
+  }
+
+  if (conditions.length > 0) {
+    const whereClause = ` WHERE ${conditions.join(" AND ")}`;
+    baseQuery += whereClause;
+    countQuery += whereClause;
+  }
+
+  const offset = (page - 1) * limit;
+  baseQuery += " ORDER BY username ASC LIMIT ? OFFSET ?";
+
+  const [users, countResult] = await Promise.all([
+    db.all(baseQuery, [...params, limit, offset]),
+    db.get(countQuery, params),
+  ]);
+
+  const totalItems = countResult?.total || 0;
+  const totalPages = Math.ceil(totalItems / limit);
+
+  res.json({
+    success: true,
+    data: users.map(toUser),
+    pagination: {
+      currentPage: page,
+      totalPages,
+      totalItems,
+      itemsPerPage: limit,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    },
+    message: `Retrieved ${users.length} of ${totalItems} users`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const createUser = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<UserResponse>
+) => {
+  assertValid(req);
+
+  const { username, email, password, role }: CreateUserRequest = req.body;
+  const db = getDatabase();
+
+  const existingUser = await db.get(
+    "SELECT id FROM users WHERE username = ? OR (email IS NOT NULL AND email = ?)",
+    [username, email ?? null]
+  );
+
+  if (existingUser)
+    throw new ConflictError(USER_TAKEN);
+
+  const passwordHash = await bcrypt.hash(password, PASSWORD_SALT_ROUNDS);
+
+  const result = await db
+    .run(
+      `INSERT INTO users (username, email, password_hash, role)
+         VALUES (?, ?, ?, ?)`,
+      [username, email ? email.toLowerCase() : null, passwordHash, role]
+    )
+    .catch((error) => {
+      throw toConflictIfUnique(error, USER_TAKEN);
+    });
+
+  const newUser = await db.get(
+    `SELECT ${USER_COLUMNS} FROM users WHERE id = ?`,
+    [result.lastID]
+  );
+
+  res.status(201).json({
+    success: true,
+    data: toUser(newUser),
+    message: "User created successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Shared implementation for the single-column admin updates (role, status).
+ * Admins may not change their own account this way so they cannot lock
+ * themselves out of the system. Existing sessions are revoked so the change
+ * takes effect immediately rather than when the access token expires.
+ */
+const updateUserColumn = async (
+  req: AuthenticatedRequest,
+  res: Response<UserResponse>,
+  column: "role" | "is_active",
+  value: string | number,
+  successMessage: string
+) => {
+  assertValid(req);
+
+  const userId = Number(req.params.id);
+
+  if (userId === req.user?.id)
+    throw new BadRequestError("You cannot change the role or status of your own account");
+
+  const db = getDatabase();
+
+  const result = await db.run(
+    `UPDATE users SET ${column} = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+    [value, userId]
+  );
+
+  if (result.changes === 0) throw new NotFoundError("User not found");
+
+  await revokeUserSessions(userId);
+
+  const updatedUser = await db.get(
+    `SELECT ${USER_COLUMNS} FROM users WHERE id = ?`,
+    [userId]
+  );
+
+  res.json({
+    success: true,
+    data: toUser(updatedUser),
+    message: successMessage,
+    timestamp: new Date().toISOString(),
+  });
+};
+
+export const updateUserRole = asyncHandler((
+  req: AuthenticatedRequest,
+  res: Response<UserResponse>
+) =>
+  updateUserColumn(
+    req,
+    res,
+    "role",
+    req.body.role,
+    "User role updated successfully"
+  )
+);
+
+export const updateUserStatus = asyncHandler((
+  req: AuthenticatedRequest,
+  res: Response<UserResponse>
+) =>
+  updateUserColumn(
+    req,
+    res,
+    "is_active",
+    req.body.active ? 1 : 0,
+    req.body.active
+      ? "User enabled successfully"
+      : "User disabled successfully"
+  )
+);
+
+export const revokeSessions = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<UserResponse<{ userId: number; revokedSessions: number }>>
+) => {
+  assertValid(req);
+
+  const userId = Number(req.params.id);
+  const db = getDatabase();
+
+  const user = await db.get("SELECT id FROM users WHERE id = ?", [userId]);
+
+  if (!user) throw new NotFoundError("User not found");
+
+  const revokedSessions = await revokeUserSessions(userId);
+
+  res.json({
+    success: true,
+    data: { userId, revokedSessions },
+    message: `Revoked ${revokedSessions} active session(s)`,
+    timestamp: new Date().toISOString(),
+  });
+});
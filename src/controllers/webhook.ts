@@ -0,0 +1,320 @@
+import crypto from "crypto";
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { assertValid, ConflictError, NotFoundError } from "../errors";
+import { Database, getDatabase } from "../database/init";
+import {
+  PaginatedResponse,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from "../types";
+import {
+  attemptDelivery,
+  generateWebhookSecret,
+  queueRedelivery,
+  queueWebhookDeliveries,
+  toWebhook,
+  toWebhookDelivery,
+  WEBHOOK_DELIVERY_SELECT,
+  WEBHOOK_PING_EVENT,
+  WEBHOOK_SELECT,
+} from "../services/webhooks";
+
+interface WebhookResponse<T = Webhook> {
+  success: boolean;
+  data?: T;
+  message: string;
+  timestamp: string;
+}
+
+interface WebhookRequest {
+  url?: string;
+  events?: string[];
+  description?: string | null;
+  // Generated when not given
+  secret?: string;
+  isActive?: boolean;
+  // Replace the secret with a newly generated one
+  rotateSecret?: boolean;
+}
+
+interface WebhookDeliveryQuery {
+  status?: WebhookDeliveryStatus;
+  page?: number;
+  limit?: number;
+}
+
+const findWebhook = async (db: Database, id: number): Promise<Webhook | null> => {
+  const row = await db.get(`${WEBHOOK_SELECT} WHERE id = ?`, [id]);
+  return row ? toWebhook(row) : null;
+};
+
+export const listWebhooks = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<WebhookResponse<Webhook[]>>
+) => {
+  const rows = await getDatabase().all(`${WEBHOOK_SELECT} ORDER BY id`);
+  const webhooks = rows.map(toWebhook);
+
+  res.json({
+    success: true,
+    data: webhooks,
+    message: `Retrieved ${webhooks.length} webhooks`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export const getWebhook = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<WebhookResponse>
+) => {
+  assertValid(req);
+
+  const webhook = await findWebhook(getDatabase(), Number(req.params.id));
+  if (!webhook) throw new NotFoundError("Webhook not found");
+
+  res.json({
+    success: true,
+    data: webhook,
+    message: "Webhook retrieved successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Subscribe a URL to student events. The signing secret is only returned
+ * here and when it is rotated, so the caller has to keep it.
+ */
+export const createWebhook = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<WebhookResponse>
+) => {
+  assertValid(req);
+
+  const { url, events, description = null, secret }: WebhookRequest = req.body;
+  const signingSecret = secret ?? generateWebhookSecret();
+  const db = getDatabase();
+
+  const result = await db.run(
+    `INSERT INTO webhooks (url, events, secret, description, created_by)
+     VALUES (?, ?, ?, ?, ?)`,
+    [url, JSON.stringify(events), signingSecret, description, req.user?.id ?? null]
+  );
+
+  const webhook = await findWebhook(db, result.lastID);
+
+  res.status(201).json({
+    success: true,
+    data: { ...webhook!, secret: signingSecret },
+    message: "Webhook created successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Change the URL, events, description or active state of a webhook, or
+ * rotate its secret. Disabling a webhook fails its pending deliveries on
+ * their next attempt.
+ */
+export const updateWebhook = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<WebhookResponse>
+) => {
+  assertValid(req);
+
+  const webhookId = Number(req.params.id);
+  const { url, events, description, isActive, rotateSecret }: WebhookRequest =
+    req.body;
+  const db = getDatabase();
+
+  if (!(await findWebhook(db, webhookId))) throw new NotFoundError("Webhook not found");
+
+  const updates: Record<string, unknown> = {};
+  if (url !== undefined) updates.url = url;
+  if (events !== undefined) updates.events = JSON.stringify(events);
+  if (description !== undefined) updates.description = description;
+  if (isActive !== undefined) updates.is_active = isActive ? 1 : 0;
+  const secret = rotateSecret ? generateWebhookSecret() : undefined;
+  if (secret) updates.secret = secret;
+
+  const fields = Object.keys(updates);
+  await db.run(
+    `UPDATE webhooks
+        SET ${fields.map((field) => `${field} = ?, `).join("")}updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?`,
+    [...fields.map((field) => updates[field]), webhookId]
+  );
+
+  const webhook = await findWebhook(db, webhookId);
+
+  res.json({
+    success: true,
+    data: secret ? { ...webhook!, secret } : webhook!,
+    message: secret
+      ? "Webhook updated and its secret rotated"
+      : "Webhook updated successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Delete a webhook together with its delivery log
+ */
+export const deleteWebhook = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<WebhookResponse<{ deletedId: number }>>
+) => {
+  assertValid(req);
+
+  const webhookId = Number(req.params.id);
+  const db = getDatabase();
+
+  if (!(await findWebhook(db, webhookId))) throw new NotFoundError("Webhook not found");
+
+  await db.run("DELETE FROM webhooks WHERE id = ?", [webhookId]);
+
+  res.json({
+    success: true,
+    data: { deletedId: webhookId },
+    message: "Webhook deleted successfully",
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Send a webhook.ping delivery right away and return its outcome, to check
+ * the endpoint and its signature verification. Failed pings are retried
+ * like any other delivery.
+ */
+export const pingWebhook = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<WebhookResponse<WebhookDelivery>>
+) => {
+  assertValid(req);
+
+  const webhookId = Number(req.params.id);
+  const db = getDatabase();
+
+  const webhook = await findWebhook(db, webhookId);
+  if (!webhook) throw new NotFoundError("Webhook not found");
+
+  if (!webhook.is_active) throw new ConflictError("Webhook is disabled");
+
+  const [deliveryId] = await queueWebhookDeliveries(
+    db,
+    WEBHOOK_PING_EVENT,
+    {
+      id: crypto.randomUUID(),
+      type: WEBHOOK_PING_EVENT,
+      occurredAt: new Date().toISOString(),
+      actorId: req.user?.id ?? null,
+      data: { webhookId },
+    },
+    webhookId
+  );
+  const delivery = await attemptDelivery(db, deliveryId);
+  if (!delivery) throw new NotFoundError("Webhook not found");
+
+  res.json({
+    success: true,
+    data: delivery,
+    message:
+      delivery.status === "succeeded"
+        ? "Ping delivered"
+        : `Ping failed: ${delivery.last_error}`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Newest-first delivery log of a webhook
+ */
+export const getWebhookDeliveries = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<PaginatedResponse<WebhookDelivery>>
+) => {
+  assertValid(req);
+
+  const webhookId = Number(req.params.id);
+  const { status, page = 1, limit = 20 }: WebhookDeliveryQuery = req.query;
+  const db = getDatabase();
+
+  if (!(await findWebhook(db, webhookId))) throw new NotFoundError("Webhook not found");
+
+  const conditions = ["webhook_id = ?"];
+  const params: any[] = [webhookId];
+
+  if (status) {
+    conditions.push("status = ?");
+    params.push(status);
+  }
+
+  const where = ` WHERE ${conditions.join(" AND ")}`;
+  const [rows, countResult] = await Promise.all([
+    db.all(`${WEBHOOK_DELIVERY_SELECT}${where} ORDER BY id DESC LIMIT ? OFFSET ?`, [
+      ...params,
+      limit,
+      (page - 1) * limit,
+    ]),
+    db.get(`SELECT COUNT(*) AS total FROM webhook_deliveries${where}`, params),
+  ]);
+
+  const totalItems = countResult?.total || 0;
+  const totalPages = Math.ceil(totalItems / limit);
+
+  res.json({
+    success: true,
+    data: rows.map(toWebhookDelivery),
+    pagination: {
+      currentPage: page,
+      totalPages,
+      totalItems,
+      itemsPerPage: limit,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    },
+    message: `Retrieved ${rows.length} of ${totalItems} deliveries`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Send an earlier delivery again with the same payload, as a new delivery
+ * linked to it through redelivery_of, and return the outcome
+ */
+export const redeliverWebhookDelivery = asyncHandler(async (
+  req: AuthenticatedRequest,
+  res: Response<WebhookResponse<WebhookDelivery>>
+) => {
+  assertValid(req);
+
+  const webhookId = Number(req.params.id);
+  const deliveryId = Number(req.params.deliveryId);
+  const db = getDatabase();
+
+  const webhook = await findWebhook(db, webhookId);
+  const row = await db.get(
+    `${WEBHOOK_DELIVERY_SELECT} WHERE id = ? AND webhook_id = ?`,
+    [deliveryId, webhookId]
+  );
+
+  if (!webhook || !row) throw new NotFoundError("Delivery not found");
+
+  if (!webhook.is_active) throw new ConflictError("Webhook is disabled");
+
+  const redeliveryId = await queueRedelivery(db, toWebhookDelivery(row));
+  const delivery = await attemptDelivery(db, redeliveryId);
+  if (!delivery) throw new NotFoundError("Delivery not found");
+
+  res.status(201).json({
+    success: true,
+    data: delivery,
+    message:
+      delivery.status === "succeeded"
+        ? "Delivery sent again"
+        : `Redelivery failed: ${delivery.last_error}`,
+    timestamp: new Date().toISOString(),
+  });
+});
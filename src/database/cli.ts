@@ -0,0 +1,58 @@
+import { getDatabase } from './init';
+import { getMigrationStatus, migrateDown, migrateUp } from './migrator';
+
+const USAGE = `Usage: npm run migrate -- <command>
+
+Commands:
+  status           List migrations and whether they have been applied
+  up [version]     Apply pending migrations (up to and including version)
+  down [steps]     Revert the last applied migration(s), default 1`;
+
+const parsePositiveInt = (value: string | undefined, label: string): number | undefined => {
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${label} must be a positive integer`);
+  }
+  return parsed;
+};
+
+const printStatus = async (): Promise<void> => {
+  const status = await getMigrationStatus(getDatabase());
+
+  for (const migration of status) {
+    const state = migration.appliedAt ? `applied ${migration.appliedAt}` : 'pending';
+    console.log(`${String(migration.version).padStart(3, '0')}_${migration.name}  ${state}`);
+  }
+};
+
+const run = async (command: string | undefined, arg: string | undefined): Promise<void> => {
+  const db = getDatabase();
+
+  switch (command) {
+    case 'status':
+      await printStatus();
+      break;
+    case 'up': {
+      const applied = await migrateUp(db, parsePositiveInt(arg, 'version'));
+      if (applied.length === 0) console.log('Database is already up to date');
+      break;
+    }
+    case 'down': {
+      const reverted = await migrateDown(db, parsePositiveInt(arg, 'steps') ?? 1);
+      if (reverted.length === 0) console.log('No applied migrations to revert');
+      break;
+    }
+    default:
+      console.log(USAGE);
+      process.exitCode = command ? 1 : 0;
+  }
+};
+
+run(process.argv[2], process.argv[3])
+  .catch((error: Error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => getDatabase().close());
@@ -1,38 +1,92 @@
 import sqlite3 from 'sqlite3';
-import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import bcrypt from 'bcryptjs';
+import { Roles } from '../types/enums';
+import { migrateUp } from './migrator';
+import { config } from '../config';
 
-const DB_PATH = path.join(__dirname, '../../database.sqlite');
+// Marks the async context that owns the open transaction
+interface TransactionScope {
+  open: boolean;
+}
 
+/**
+ * The one connection the server shares between requests and background
+ * jobs. A transaction on it takes the connection for itself: statements
+ * from anywhere else wait until it is committed or rolled back, so they
+ * never end up inside (or undone with) somebody else's transaction.
+ */
 export class Database {
   private db: sqlite3.Database;
+  // Settles when everything queued so far has finished
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly transactions = new AsyncLocalStorage<TransactionScope>();
 
   constructor() {
-    this.db = new sqlite3.Database(DB_PATH);
+    this.db = new sqlite3.Database(config.databasePath);
+    // SQLite leaves foreign key enforcement off unless enabled per connection
+    this.db.run('PRAGMA foreign_keys = ON');
   }
 
   public run(sql: string, params: any[] = []): Promise<sqlite3.RunResult> {
-    return new Promise((resolve, reject) => {
-      this.db.run(sql, params, function(err) {
-        if (err) reject(err);
-        else resolve(this);
-      });
-    });
+    return this.serialize(
+      () =>
+        new Promise((resolve, reject) => {
+          this.db.run(sql, params, function(err) {
+            if (err) reject(err);
+            else resolve(this);
+          });
+        })
+    );
   }
 
   public get(sql: string, params: any[] = []): Promise<any> {
-    return new Promise((resolve, reject) => {
-      this.db.get(sql, params, (err, row) => {
-        if (err) reject(err);
-        else resolve(row);
-      });
-    });
+    return this.serialize(
+      () =>
+        new Promise((resolve, reject) => {
+          this.db.get(sql, params, (err, row) => {
+            if (err) reject(err);
+            else resolve(row);
+          });
+        })
+    );
   }
 
   public all(sql: string, params: any[] = []): Promise<any[]> {
-    return new Promise((resolve, reject) => {
-      this.db.all(sql, params, (err, rows) => {
-        if (err) reject(err);
-        else resolve(rows);
+    return this.serialize(
+      () =>
+        new Promise((resolve, reject) => {
+          this.db.all(sql, params, (err, rows) => {
+            if (err) reject(err);
+            else resolve(rows);
+          });
+        })
+    );
+  }
+
+  /**
+   * Run `work` in a transaction that is committed when it resolves and
+   * rolled back when it throws. Transactions run one at a time; a call from
+   * inside a transaction joins it.
+   */
+  public withTransaction<T>(work: () => Promise<T>): Promise<T> {
+    if (this.inTransaction()) return work();
+
+    return this.exclusive(() => {
+      const scope: TransactionScope = { open: true };
+
+      return this.transactions.run(scope, async () => {
+        await this.run('BEGIN TRANSACTION');
+        try {
+          const result = await work();
+          await this.run('COMMIT');
+          return result;
+        } catch (error) {
+          await this.run('ROLLBACK');
+          throw error;
+        } finally {
+          scope.open = false;
+        }
       });
     });
   }
@@ -45,6 +99,22 @@ export class Database {
       });
     });
   }
+
+  private inTransaction(): boolean {
+    return this.transactions.getStore()?.open === true;
+  }
+
+  // Statements of the open transaction go straight through; all others
+  // wait their turn
+  private serialize<T>(statement: () => Promise<T>): Promise<T> {
+    return this.inTransaction() ? statement() : this.exclusive(statement);
+  }
+
+  private exclusive<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(work);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
 }
 
 let dbInstance: Database;
@@ -58,28 +128,39 @@ export const getDatabase = (): Database => {
 
 export const initializeDatabase = async (): Promise<void> => {
   const db = getDatabase();
-  
-  // Create students table
-  const createStudentsTable = `
-    CREATE TABLE IF NOT EXISTS students (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL CHECK(length(name) >= 2),
-      email TEXT NOT NULL UNIQUE,
-      subject TEXT NOT NULL,
-      grade INTEGER NOT NULL CHECK(grade >= 0 AND grade <= 100),
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    )
-  `;
 
   try {
-    await db.run(createStudentsTable);
-    console.log('Students table created successfully');
-    
+    // Bring the schema up to date before seeding anything
+    await migrateUp(db);
+
+    const subjectCount = await db.get('SELECT COUNT(*) as count FROM subjects');
+    if (subjectCount.count === 0) {
+      await insertDefaultSubjects(db);
+    }
+
     // Insert sample data if table is empty
     const count = await db.get('SELECT COUNT(*) as count FROM students');
     if (count.count === 0) {
       await insertSampleData(db);
     }
+
+    // Seed default accounts so a fresh install can log in
+    const userCount = await db.get('SELECT COUNT(*) as count FROM users');
+    if (userCount.count === 0) {
+      await insertDefaultUsers(db);
+    }
+
+    const categoryCount = await db.get('SELECT COUNT(*) as count FROM assessment_categories');
+    if (categoryCount.count === 0) {
+      await insertDefaultAssessmentCategories(db);
+    }
+
+    // Give the demo teacher a class per subject so existing students stay
+    // visible now that teachers only see students in their own classes
+    const classCount = await db.get('SELECT COUNT(*) as count FROM classes');
+    if (classCount.count === 0) {
+      await insertSampleClasses(db);
+    }
   } catch (error) {
     console.error('Error initializing database:', error);
     throw error;
@@ -107,3 +188,91 @@ const insertSampleData = async (db: Database): Promise<void> => {
   
   console.log('Sample data inserted successfully');
 };
+
+export const PASSWORD_SALT_ROUNDS = 10;
+
+const insertDefaultUsers = async (db: Database): Promise<void> => {
+  const { adminPassword, teacherPassword } = config.seedUsers;
+
+  // Production has no demo passwords: without SEED_ADMIN_PASSWORD nobody could
+  // ever log in, so refuse to start rather than seed a guessable admin
+  if (adminPassword === null) {
+    throw new Error('SEED_ADMIN_PASSWORD must be set to create the first admin account in production');
+  }
+
+  const defaultUsers = [{ username: 'admin', password: adminPassword, role: Roles.ADMIN }];
+  if (teacherPassword !== null) {
+    defaultUsers.push({ username: 'teacher', password: teacherPassword, role: Roles.TEACHER });
+  }
+
+  if (!config.isProduction && (!process.env.SEED_ADMIN_PASSWORD || !process.env.SEED_TEACHER_PASSWORD)) {
+    console.warn('SEED_ADMIN_PASSWORD / SEED_TEACHER_PASSWORD not set - seeding demo passwords');
+  }
+
+  const insertQuery = `
+    INSERT INTO users (username, password_hash, role)
+    VALUES (?, ?, ?)
+  `;
+
+  for (const user of defaultUsers) {
+    const passwordHash = await bcrypt.hash(user.password, PASSWORD_SALT_ROUNDS);
+    await db.run(insertQuery, [user.username, passwordHash, user.role]);
+  }
+
+  console.log('Default user accounts created successfully');
+};
+
+const insertSampleClasses = async (db: Database): Promise<void> => {
+  const teacher = await db.get(
+    "SELECT id FROM users WHERE username = 'teacher' AND role = ?",
+    [Roles.TEACHER]
+  );
+  if (!teacher) return;
+
+  const subjects = await db.all('SELECT DISTINCT subject FROM students ORDER BY subject');
+
+  for (const { subject } of subjects) {
+    const result = await db.run(
+      'INSERT INTO classes (name, subject, term, teacher_id) VALUES (?, ?, ?, ?)',
+      [`${subject} 101`, subject, 'Default Term', teacher.id]
+    );
+    await db.run(
+      'INSERT INTO enrollments (class_id, student_id) SELECT ?, id FROM students WHERE subject = ?',
+      [result.lastID, subject]
+    );
+  }
+
+  console.log('Sample classes created successfully');
+};
+
+const insertDefaultAssessmentCategories = async (db: Database): Promise<void> => {
+  const categories = [
+    { name: 'Quiz', weight: 20 },
+    { name: 'Assignment', weight: 30 },
+    { name: 'Test', weight: 50 }
+  ];
+
+  for (const category of categories) {
+    await db.run(
+      'INSERT INTO assessment_categories (name, weight) VALUES (?, ?)',
+      [category.name, category.weight]
+    );
+  }
+
+  console.log('Default assessment categories created successfully');
+};
+
+const insertDefaultSubjects = async (db: Database): Promise<void> => {
+  const defaultSubjects = ['Math', 'Science', 'English', 'History'];
+
+  for (const name of defaultSubjects) {
+    await db.run('INSERT INTO subjects (name) VALUES (?)', [name]);
+  }
+
+  // Keep any other subject already used by existing student records valid
+  await db.run(
+    'INSERT OR IGNORE INTO subjects (name) SELECT DISTINCT subject FROM students'
+  );
+
+  console.log('Default subjects created successfully');
+};
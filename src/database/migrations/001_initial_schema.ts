@@ -0,0 +1,204 @@
+import { Database } from '../init';
+import { Migration } from './types';
+
+/**
+ * Baseline schema: every table that used to be created with
+ * CREATE TABLE IF NOT EXISTS on startup. The IF NOT EXISTS guards stay so
+ * databases created before migrations existed adopt this version as-is.
+ */
+const up = async (db: Database): Promise<void> => {
+  // Create students table
+  const createStudentsTable = `
+    CREATE TABLE IF NOT EXISTS students (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL CHECK(length(name) >= 2),
+      email TEXT NOT NULL UNIQUE,
+      subject TEXT NOT NULL,
+      grade INTEGER NOT NULL CHECK(grade >= 0 AND grade <= 100),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  // Create users table (login accounts for admins, teachers and students)
+  const createUsersTable = `
+    CREATE TABLE IF NOT EXISTS users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      email TEXT UNIQUE COLLATE NOCASE,
+      password_hash TEXT NOT NULL,
+      role TEXT NOT NULL CHECK(role IN ('admin', 'teacher', 'student')),
+      is_active INTEGER NOT NULL DEFAULT 1 CHECK(is_active IN (0, 1)),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  // Links a student login account to exactly one students row
+  const createStudentAccountsTable = `
+    CREATE TABLE IF NOT EXISTS student_accounts (
+      user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      student_id INTEGER NOT NULL UNIQUE REFERENCES students(id) ON DELETE CASCADE,
+      linked_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  // Pending invitations for students to create their own login account
+  const createStudentInvitationsTable = `
+    CREATE TABLE IF NOT EXISTS student_invitations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+      email TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      invited_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      expires_at DATETIME NOT NULL,
+      accepted_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  // One row per login; access tokens carry the session id so revoking the
+  // session invalidates every token issued for it
+  const createSessionsTable = `
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      user_agent TEXT,
+      ip_address TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      expires_at DATETIME NOT NULL,
+      revoked_at DATETIME
+    )
+  `;
+
+  // Rotating refresh tokens; only the SHA-256 hash of each token is stored
+  const createRefreshTokensTable = `
+    CREATE TABLE IF NOT EXISTS refresh_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+      token_hash TEXT NOT NULL UNIQUE,
+      expires_at DATETIME NOT NULL,
+      used_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  // Classes/sections, each owned by one teacher
+  const createClassesTable = `
+    CREATE TABLE IF NOT EXISTS classes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL CHECK(length(name) >= 2),
+      subject TEXT NOT NULL,
+      term TEXT NOT NULL,
+      teacher_id INTEGER NOT NULL REFERENCES users(id),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(name, term, teacher_id)
+    )
+  `;
+
+  const createEnrollmentsTable = `
+    CREATE TABLE IF NOT EXISTS enrollments (
+      class_id INTEGER NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+      student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+      enrolled_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (class_id, student_id)
+    )
+  `;
+
+  // Weighted assessment categories (quiz, test, ...) used for the current grade
+  const createAssessmentCategoriesTable = `
+    CREATE TABLE IF NOT EXISTS assessment_categories (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      weight REAL NOT NULL CHECK(weight > 0),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  const createAssessmentsTable = `
+    CREATE TABLE IF NOT EXISTS assessments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      title TEXT NOT NULL,
+      category_id INTEGER NOT NULL REFERENCES assessment_categories(id),
+      subject TEXT NOT NULL,
+      class_id INTEGER REFERENCES classes(id) ON DELETE CASCADE,
+      max_score REAL NOT NULL CHECK(max_score > 0),
+      assessed_on DATE NOT NULL,
+      created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  const createAssessmentScoresTable = `
+    CREATE TABLE IF NOT EXISTS assessment_scores (
+      assessment_id INTEGER NOT NULL REFERENCES assessments(id) ON DELETE CASCADE,
+      student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+      score REAL NOT NULL CHECK(score >= 0),
+      recorded_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (assessment_id, student_id)
+    )
+  `;
+
+  // Catalog of subjects that students, classes and assessments can use
+  const createSubjectsTable = `
+    CREATE TABLE IF NOT EXISTS subjects (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE CHECK(length(name) >= 2),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  await db.run(createStudentsTable);
+  await db.run(createUsersTable);
+  await db.run(createStudentAccountsTable);
+  await db.run(createStudentInvitationsTable);
+
+  await db.run(createSessionsTable);
+  await db.run(createRefreshTokensTable);
+  await db.run('CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id)');
+
+  await db.run(createClassesTable);
+  await db.run(createEnrollmentsTable);
+  await db.run('CREATE INDEX IF NOT EXISTS idx_classes_teacher_id ON classes(teacher_id)');
+  await db.run('CREATE INDEX IF NOT EXISTS idx_enrollments_student_id ON enrollments(student_id)');
+
+  await db.run(createAssessmentCategoriesTable);
+  await db.run(createAssessmentsTable);
+  await db.run(createAssessmentScoresTable);
+  await db.run('CREATE INDEX IF NOT EXISTS idx_assessment_scores_student_id ON assessment_scores(student_id)');
+
+  await db.run(createSubjectsTable);
+};
+
+// Dropped children first so foreign keys never point at a missing table
+const down = async (db: Database): Promise<void> => {
+  const tables = [
+    'subjects',
+    'assessment_scores',
+    'assessments',
+    'assessment_categories',
+    'enrollments',
+    'classes',
+    'refresh_tokens',
+    'sessions',
+    'student_invitations',
+    'student_accounts',
+    'users',
+    'students'
+  ];
+
+  for (const table of tables) {
+    await db.run(`DROP TABLE IF EXISTS ${table}`);
+  }
+};
+
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up,
+  down
+};
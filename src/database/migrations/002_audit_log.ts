@@ -0,0 +1,55 @@
+import { Database } from '../init';
+import { Migration } from './types';
+
+/**
+ * Append-only history of record changes. The actor is copied by value (no
+ * foreign key) so entries survive the user or record they describe, and
+ * triggers reject any attempt to edit or remove an entry.
+ */
+const up = async (db: Database): Promise<void> => {
+  await db.run(`
+    CREATE TABLE audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      entity_type TEXT NOT NULL,
+      entity_id INTEGER NOT NULL,
+      action TEXT NOT NULL CHECK(action IN ('create', 'update', 'delete')),
+      actor_id INTEGER,
+      actor_username TEXT,
+      reason TEXT,
+      before_data TEXT,
+      after_data TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  await db.run('CREATE INDEX idx_audit_log_entity ON audit_log(entity_type, entity_id)');
+  await db.run('CREATE INDEX idx_audit_log_actor_id ON audit_log(actor_id)');
+  await db.run('CREATE INDEX idx_audit_log_created_at ON audit_log(created_at)');
+
+  await db.run(`
+    CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+    BEGIN
+      SELECT RAISE(ABORT, 'audit_log is append-only');
+    END
+  `);
+
+  await db.run(`
+    CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+    BEGIN
+      SELECT RAISE(ABORT, 'audit_log is append-only');
+    END
+  `);
+};
+
+const down = async (db: Database): Promise<void> => {
+  await db.run('DROP TRIGGER IF EXISTS audit_log_no_delete');
+  await db.run('DROP TRIGGER IF EXISTS audit_log_no_update');
+  await db.run('DROP TABLE IF EXISTS audit_log');
+};
+
+export const auditLog: Migration = {
+  version: 2,
+  name: 'audit_log',
+  up,
+  down
+};
@@ -0,0 +1,23 @@
+import { Database } from '../init';
+import { Migration } from './types';
+
+/**
+ * Soft delete for students: a set archived_at hides the record until it is
+ * restored or purged.
+ */
+const up = async (db: Database): Promise<void> => {
+  await db.run('ALTER TABLE students ADD COLUMN archived_at DATETIME');
+  await db.run('CREATE INDEX idx_students_archived_at ON students(archived_at)');
+};
+
+const down = async (db: Database): Promise<void> => {
+  await db.run('DROP INDEX IF EXISTS idx_students_archived_at');
+  await db.run('ALTER TABLE students DROP COLUMN archived_at');
+};
+
+export const studentArchiving: Migration = {
+  version: 3,
+  name: 'student_archiving',
+  up,
+  down
+};
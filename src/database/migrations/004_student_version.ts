@@ -0,0 +1,31 @@
+import { Database } from '../init';
+import { Migration } from './types';
+
+/**
+ * Row version for optimistic concurrency control. The trigger bumps it on
+ * every update that does not set it explicitly, so grade recalculations,
+ * subject renames and archiving all invalidate a client's ETag too.
+ */
+const up = async (db: Database): Promise<void> => {
+  await db.run('ALTER TABLE students ADD COLUMN version INTEGER NOT NULL DEFAULT 1');
+
+  await db.run(`
+    CREATE TRIGGER students_bump_version AFTER UPDATE ON students
+    WHEN NEW.version = OLD.version
+    BEGIN
+      UPDATE students SET version = OLD.version + 1 WHERE id = NEW.id;
+    END
+  `);
+};
+
+const down = async (db: Database): Promise<void> => {
+  await db.run('DROP TRIGGER IF EXISTS students_bump_version');
+  await db.run('ALTER TABLE students DROP COLUMN version');
+};
+
+export const studentVersion: Migration = {
+  version: 4,
+  name: 'student_version',
+  up,
+  down
+};
@@ -0,0 +1,50 @@
+import { Database } from '../init';
+import { Migration } from './types';
+
+/**
+ * Per-subject at-risk thresholds and the alert inbox of each teacher.
+ * Subjects without a rule use the defaults from the configuration.
+ */
+const up = async (db: Database): Promise<void> => {
+  await db.run(`
+    CREATE TABLE at_risk_rules (
+      subject_id INTEGER PRIMARY KEY REFERENCES subjects(id) ON DELETE CASCADE,
+      min_grade REAL NOT NULL CHECK (min_grade >= 0 AND min_grade <= 100),
+      max_drop REAL NOT NULL CHECK (max_drop > 0 AND max_drop <= 100),
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // One alert per teacher, student, reason and grade: a student only shows up
+  // again once their grade changes
+  await db.run(`
+    CREATE TABLE student_alerts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      teacher_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+      reason TEXT NOT NULL CHECK (reason IN ('low_grade', 'grade_drop')),
+      grade REAL NOT NULL,
+      previous_grade REAL,
+      threshold REAL NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      acknowledged_at DATETIME,
+      UNIQUE (teacher_id, student_id, reason, grade)
+    )
+  `);
+
+  await db.run(
+    'CREATE INDEX idx_student_alerts_teacher ON student_alerts(teacher_id, acknowledged_at)'
+  );
+};
+
+const down = async (db: Database): Promise<void> => {
+  await db.run('DROP TABLE IF EXISTS student_alerts');
+  await db.run('DROP TABLE IF EXISTS at_risk_rules');
+};
+
+export const atRiskAlerts: Migration = {
+  version: 5,
+  name: 'at_risk_alerts',
+  up,
+  down
+};
@@ -0,0 +1,80 @@
+import { Database } from '../init';
+import { Migration } from './types';
+
+/**
+ * Grading scales that turn the 0-100 grade into a letter (or other label)
+ * and GPA points. A scale can be assigned to a subject or a class; everything
+ * else uses the default scale, seeded here as the standard A-F scale.
+ */
+const up = async (db: Database): Promise<void> => {
+  await db.run(`
+    CREATE TABLE grading_scales (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      is_default INTEGER NOT NULL DEFAULT 0 CHECK (is_default IN (0, 1)),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // At most one default scale
+  await db.run(
+    'CREATE UNIQUE INDEX idx_grading_scales_default ON grading_scales(is_default) WHERE is_default = 1'
+  );
+
+  // A grade gets the band with the highest min_grade not above it
+  await db.run(`
+    CREATE TABLE grading_scale_bands (
+      scale_id INTEGER NOT NULL REFERENCES grading_scales(id) ON DELETE CASCADE,
+      label TEXT NOT NULL,
+      min_grade REAL NOT NULL CHECK (min_grade >= 0 AND min_grade <= 100),
+      gpa_points REAL,
+      PRIMARY KEY (scale_id, min_grade),
+      UNIQUE (scale_id, label)
+    )
+  `);
+
+  await db.run(`
+    CREATE TABLE subject_grading_scales (
+      subject_id INTEGER PRIMARY KEY REFERENCES subjects(id) ON DELETE CASCADE,
+      scale_id INTEGER NOT NULL REFERENCES grading_scales(id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.run(`
+    CREATE TABLE class_grading_scales (
+      class_id INTEGER PRIMARY KEY REFERENCES classes(id) ON DELETE CASCADE,
+      scale_id INTEGER NOT NULL REFERENCES grading_scales(id) ON DELETE CASCADE
+    )
+  `);
+
+  const result = await db.run(
+    "INSERT INTO grading_scales (name, is_default) VALUES ('Standard A-F', 1)"
+  );
+  for (const [label, minGrade, gpaPoints] of [
+    ['A', 90, 4.0],
+    ['B', 80, 3.0],
+    ['C', 70, 2.0],
+    ['D', 60, 1.0],
+    ['F', 0, 0.0]
+  ]) {
+    await db.run(
+      'INSERT INTO grading_scale_bands (scale_id, label, min_grade, gpa_points) VALUES (?, ?, ?, ?)',
+      [result.lastID, label, minGrade, gpaPoints]
+    );
+  }
+};
+
+const down = async (db: Database): Promise<void> => {
+  await db.run('DROP TABLE IF EXISTS class_grading_scales');
+  await db.run('DROP TABLE IF EXISTS subject_grading_scales');
+  await db.run('DROP TABLE IF EXISTS grading_scale_bands');
+  await db.run('DROP TABLE IF EXISTS grading_scales');
+};
+
+export const gradingScales: Migration = {
+  version: 6,
+  name: 'grading_scales',
+  up,
+  down
+};
@@ -0,0 +1,60 @@
+import { Database } from '../init';
+import { Migration } from './types';
+
+// Names are stored HTML-escaped; the index holds the plain text so that
+// searching for O'Brien finds O&#x27;Brien
+const plainName = (column: string) => `replace(${column}, '&#x27;', '''')`;
+
+/**
+ * Full-text index over student names and emails. The trigram tokenizer
+ * matches any part of a word, which GET /students?search= uses for prefix
+ * and typo-tolerant matching. Triggers keep it in step with students.
+ */
+const up = async (db: Database): Promise<void> => {
+  await db.run(
+    "CREATE VIRTUAL TABLE students_fts USING fts5(name, email, tokenize = 'trigram')"
+  );
+
+  await db.run(
+    `INSERT INTO students_fts (rowid, name, email)
+     SELECT id, ${plainName('name')}, email FROM students`
+  );
+
+  await db.run(`
+    CREATE TRIGGER students_fts_insert AFTER INSERT ON students
+    BEGIN
+      INSERT INTO students_fts (rowid, name, email)
+      VALUES (NEW.id, ${plainName('NEW.name')}, NEW.email);
+    END
+  `);
+
+  await db.run(`
+    CREATE TRIGGER students_fts_update AFTER UPDATE OF name, email ON students
+    BEGIN
+      UPDATE students_fts
+         SET name = ${plainName('NEW.name')}, email = NEW.email
+       WHERE rowid = NEW.id;
+    END
+  `);
+
+  await db.run(`
+    CREATE TRIGGER students_fts_delete AFTER DELETE ON students
+    BEGIN
+      DELETE FROM students_fts WHERE rowid = OLD.id;
+    END
+  `);
+};
+
+const down = async (db: Database): Promise<void> => {
+  await db.run('DROP TRIGGER IF EXISTS students_fts_delete');
+  await db.run('DROP TRIGGER IF EXISTS students_fts_update');
+  await db.run('DROP TRIGGER IF EXISTS students_fts_insert');
+  await db.run('DROP TABLE IF EXISTS students_fts');
+};
+
+export const studentSearch: Migration = {
+  version: 7,
+  name: 'student_search',
+  up,
+  down
+};
@@ -0,0 +1,37 @@
+import { Database } from '../init';
+import { Migration } from './types';
+
+/**
+ * One attendance record per student and school day. Corrections overwrite
+ * the record and are kept in the audit log.
+ */
+const up = async (db: Database): Promise<void> => {
+  await db.run(`
+    CREATE TABLE attendance_records (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+      date TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('present', 'absent', 'late', 'excused')),
+      note TEXT,
+      -- Class the attendance was taken in, if it was taken for a class
+      class_id INTEGER REFERENCES classes(id) ON DELETE SET NULL,
+      recorded_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (student_id, date)
+    )
+  `);
+
+  await db.run('CREATE INDEX idx_attendance_records_date ON attendance_records(date)');
+};
+
+const down = async (db: Database): Promise<void> => {
+  await db.run('DROP TABLE IF EXISTS attendance_records');
+};
+
+export const attendance: Migration = {
+  version: 8,
+  name: 'attendance',
+  up,
+  down
+};
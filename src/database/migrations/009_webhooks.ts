@@ -0,0 +1,64 @@
+import { Database } from '../init';
+import { Migration } from './types';
+
+/**
+ * Admin-managed webhook subscriptions and the log of every delivery
+ * attempt made to them
+ */
+const up = async (db: Database): Promise<void> => {
+  await db.run(`
+    CREATE TABLE webhooks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      url TEXT NOT NULL,
+      -- JSON array of the event types the endpoint receives
+      events TEXT NOT NULL,
+      -- Key of the HMAC signature sent with every delivery
+      secret TEXT NOT NULL,
+      description TEXT,
+      is_active INTEGER NOT NULL DEFAULT 1,
+      created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // One row per event and webhook. Pending deliveries are retried until
+  // next_attempt_at is NULL, i.e. they succeeded or gave up.
+  await db.run(`
+    CREATE TABLE webhook_deliveries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+      event_type TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TEXT,
+      last_attempt_at TEXT,
+      response_status INTEGER,
+      last_error TEXT,
+      -- Set on manual redeliveries to the delivery they repeat
+      redelivery_of INTEGER REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+      created_at TEXT NOT NULL,
+      delivered_at TEXT
+    )
+  `);
+
+  await db.run(
+    'CREATE INDEX idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, id)'
+  );
+  await db.run(
+    'CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE next_attempt_at IS NOT NULL'
+  );
+};
+
+const down = async (db: Database): Promise<void> => {
+  await db.run('DROP TABLE IF EXISTS webhook_deliveries');
+  await db.run('DROP TABLE IF EXISTS webhooks');
+};
+
+export const webhooks: Migration = {
+  version: 9,
+  name: 'webhooks',
+  up,
+  down
+};
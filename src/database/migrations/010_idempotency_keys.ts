@@ -0,0 +1,36 @@
+import { Database } from '../init';
+import { Migration } from './types';
+
+/**
+ * Responses stored under the Idempotency-Key of the request that produced
+ * them, so a retried request gets the same response instead of running again
+ */
+const up = async (db: Database): Promise<void> => {
+  await db.run(`
+    CREATE TABLE idempotency_keys (
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      key TEXT NOT NULL,
+      -- Hash of the method, URL and body the key was first used with
+      request_hash TEXT NOT NULL,
+      -- NULL while the first request is still running
+      status_code INTEGER,
+      response_body TEXT,
+      created_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      PRIMARY KEY (user_id, key)
+    )
+  `);
+
+  await db.run('CREATE INDEX idx_idempotency_keys_expires ON idempotency_keys(expires_at)');
+};
+
+const down = async (db: Database): Promise<void> => {
+  await db.run('DROP TABLE IF EXISTS idempotency_keys');
+};
+
+export const idempotencyKeys: Migration = {
+  version: 10,
+  name: 'idempotency_keys',
+  up,
+  down
+};
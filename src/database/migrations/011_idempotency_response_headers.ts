@@ -0,0 +1,21 @@
+import { Database } from '../init';
+import { Migration } from './types';
+
+/**
+ * Headers of a stored idempotent response (ETag, Location, Content-Type) as
+ * a JSON object, so replays carry them too
+ */
+const up = async (db: Database): Promise<void> => {
+  await db.run('ALTER TABLE idempotency_keys ADD COLUMN response_headers TEXT');
+};
+
+const down = async (db: Database): Promise<void> => {
+  await db.run('ALTER TABLE idempotency_keys DROP COLUMN response_headers');
+};
+
+export const idempotencyResponseHeaders: Migration = {
+  version: 11,
+  name: 'idempotency_response_headers',
+  up,
+  down
+};
@@ -0,0 +1,50 @@
+import { Database } from '../init';
+import { Migration } from './types';
+
+// Reasons recalculateStudentGrades logs its grade changes under
+const SCORE_REASONS = [
+  'scores recorded',
+  'score deleted',
+  'assessment updated',
+  'assessment deleted',
+  'category weight changed'
+];
+
+/**
+ * The grade entered by hand before assessment scores took over
+ * students.grade, so it can be restored once the last score is removed.
+ * Students already graded from scores get the grade their first
+ * score-driven change replaced.
+ */
+const up = async (db: Database): Promise<void> => {
+  await db.run('ALTER TABLE students ADD COLUMN manual_grade INTEGER');
+
+  const placeholders = SCORE_REASONS.map(() => '?').join(', ');
+  await db.run(
+    `UPDATE students
+        SET manual_grade = (
+          SELECT json_extract(a.before_data, '$.grade')
+            FROM audit_log a
+           WHERE a.entity_type = 'student'
+             AND a.entity_id = students.id
+             AND a.action = 'update'
+             AND a.reason IN (${placeholders})
+             AND json_extract(a.before_data, '$.grade') IS NOT NULL
+           ORDER BY a.id ASC
+           LIMIT 1
+        )
+      WHERE id IN (SELECT student_id FROM assessment_scores)`,
+    SCORE_REASONS
+  );
+};
+
+const down = async (db: Database): Promise<void> => {
+  await db.run('ALTER TABLE students DROP COLUMN manual_grade');
+};
+
+export const studentManualGrade: Migration = {
+  version: 12,
+  name: 'student_manual_grade',
+  up,
+  down
+};
@@ -0,0 +1,40 @@
+import { Database } from '../init';
+import { Migration } from './types';
+
+/**
+ * Requests from teachers to enroll a student they cannot see yet, by email.
+ * An admin approves or rejects each one; teachers never learn who the email
+ * belongs to until the student is enrolled in their class.
+ */
+const up = async (db: Database): Promise<void> => {
+  await db.run(`
+    CREATE TABLE enrollment_requests (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      class_id INTEGER NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+      email TEXT NOT NULL,
+      note TEXT,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+      requested_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      reviewed_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Asking again for the same class and email returns the open request
+  await db.run(`
+    CREATE UNIQUE INDEX idx_enrollment_requests_pending
+      ON enrollment_requests(class_id, email) WHERE status = 'pending'
+  `);
+};
+
+const down = async (db: Database): Promise<void> => {
+  await db.run('DROP TABLE IF EXISTS enrollment_requests');
+};
+
+export const enrollmentRequests: Migration = {
+  version: 13,
+  name: 'enrollment_requests',
+  up,
+  down
+};
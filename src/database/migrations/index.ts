@@ -0,0 +1,36 @@
+import { Migration } from './types';
+import { initialSchema } from './001_initial_schema';
+import { auditLog } from './002_audit_log';
+import { studentArchiving } from './003_student_archiving';
+import { studentVersion } from './004_student_version';
+import { atRiskAlerts } from './005_at_risk_alerts';
+import { gradingScales } from './006_grading_scales';
+import { studentSearch } from './007_student_search';
+import { attendance } from './008_attendance';
+import { webhooks } from './009_webhooks';
+import { idempotencyKeys } from './010_idempotency_keys';
+import { idempotencyResponseHeaders } from './011_idempotency_response_headers';
+import { studentManualGrade } from './012_student_manual_grade';
+import { enrollmentRequests } from './013_enrollment_requests';
+
+export { Migration } from './types';
+
+/**
+ * Every schema migration, in the order it must be applied. New migrations
+ * go at the end with the next version number.
+ */
+export const migrations: Migration[] = [
+  initialSchema,
+  auditLog,
+  studentArchiving,
+  studentVersion,
+  atRiskAlerts,
+  gradingScales,
+  studentSearch,
+  attendance,
+  webhooks,
+  idempotencyKeys,
+  idempotencyResponseHeaders,
+  studentManualGrade,
+  enrollmentRequests
+];
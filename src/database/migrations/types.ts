@@ -0,0 +1,9 @@
+import { Database } from '../init';
+
+export interface Migration {
+  // Applied in ascending order; never renumber a migration once released
+  version: number;
+  name: string;
+  up: (db: Database) => Promise<void>;
+  down: (db: Database) => Promise<void>;
+}
@@ -0,0 +1,140 @@
+import { Database } from './init';
+import { migrations as allMigrations, Migration } from './migrations';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+}
+
+const ensureMigrationsTable = async (db: Database): Promise<void> => {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+};
+
+const getAppliedVersions = async (db: Database): Promise<Map<number, string>> => {
+  await ensureMigrationsTable(db);
+  const rows = await db.all('SELECT version, applied_at FROM schema_migrations');
+  return new Map(rows.map((row) => [row.version, row.applied_at]));
+};
+
+const sortedMigrations = (migrations: Migration[]): Migration[] => {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+
+  sorted.forEach((migration, index) => {
+    if (index > 0 && sorted[index - 1].version === migration.version) {
+      throw new Error(`Duplicate migration version ${migration.version}`);
+    }
+  });
+
+  return sorted;
+};
+
+/**
+ * Run one migration step and record (or forget) it in schema_migrations
+ * inside the same transaction, so a failing migration leaves neither a
+ * half-applied schema nor a misleading version row behind.
+ */
+const runStep = async (
+  db: Database,
+  migration: Migration,
+  direction: 'up' | 'down'
+): Promise<void> => {
+  await db
+    .withTransaction(async () => {
+      if (direction === 'up') {
+        await migration.up(db);
+        await db.run(
+          'INSERT INTO schema_migrations (version, name) VALUES (?, ?)',
+          [migration.version, migration.name]
+        );
+      } else {
+        await migration.down(db);
+        await db.run('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+      }
+    })
+    .catch((error) => {
+      throw new Error(
+        `Migration ${migration.version}_${migration.name} (${direction}) failed: ${(error as Error).message}`
+      );
+    });
+
+  console.log(
+    `${direction === 'up' ? 'Applied' : 'Reverted'} migration ${migration.version}_${migration.name}`
+  );
+};
+
+/**
+ * Every known migration with the time it was applied, or null if pending.
+ */
+export const getMigrationStatus = async (
+  db: Database,
+  migrations: Migration[] = allMigrations
+): Promise<MigrationStatus[]> => {
+  const applied = await getAppliedVersions(db);
+
+  return sortedMigrations(migrations).map((migration) => ({
+    version: migration.version,
+    name: migration.name,
+    appliedAt: applied.get(migration.version) ?? null
+  }));
+};
+
+/**
+ * Apply pending migrations in version order, up to and including
+ * `targetVersion` when given. Returns the versions that were applied.
+ */
+export const migrateUp = async (
+  db: Database,
+  targetVersion?: number,
+  migrations: Migration[] = allMigrations
+): Promise<number[]> => {
+  const applied = await getAppliedVersions(db);
+  const pending = sortedMigrations(migrations).filter(
+    (migration) =>
+      !applied.has(migration.version) &&
+      (targetVersion === undefined || migration.version <= targetVersion)
+  );
+
+  for (const migration of pending) {
+    await runStep(db, migration, 'up');
+  }
+
+  return pending.map((migration) => migration.version);
+};
+
+/**
+ * Revert the most recently applied migrations, newest first. Returns the
+ * versions that were reverted.
+ */
+export const migrateDown = async (
+  db: Database,
+  steps = 1,
+  migrations: Migration[] = allMigrations
+): Promise<number[]> => {
+  const applied = await getAppliedVersions(db);
+  const known = sortedMigrations(migrations);
+
+  const unknown = [...applied.keys()].filter(
+    (version) => !known.some((migration) => migration.version === version)
+  );
+  if (unknown.length > 0) {
+    throw new Error(`Cannot revert: no migration code for applied version(s) ${unknown.join(', ')}`);
+  }
+
+  const toRevert = known
+    .filter((migration) => applied.has(migration.version))
+    .reverse()
+    .slice(0, steps);
+
+  for (const migration of toRevert) {
+    await runStep(db, migration, 'down');
+  }
+
+  return toRevert.map((migration) => migration.version);
+};
@@ -0,0 +1,167 @@
+import { Request } from 'express';
+import { validationResult } from 'express-validator';
+
+/**
+ * Machine-readable error codes sent as `code` in every error response.
+ * Clients should branch on these rather than on the human-readable detail.
+ */
+export type ErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'BAD_REQUEST'
+  | 'INVALID_JSON'
+  | 'CONSTRAINT_VIOLATION'
+  | 'UNAUTHORIZED'
+  | 'TOKEN_REQUIRED'
+  | 'TOKEN_INVALID'
+  | 'SESSION_REVOKED'
+  | 'INVALID_CREDENTIALS'
+  | 'FORBIDDEN'
+  | 'ACCOUNT_DISABLED'
+  | 'CSRF_TOKEN_INVALID'
+  | 'ORIGIN_NOT_ALLOWED'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'PRECONDITION_FAILED'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'IDEMPOTENCY_KEY_REUSED'
+  | 'NO_MATCHING_STUDENT'
+  | 'RATE_LIMITED'
+  | 'LOGIN_LOCKED'
+  | 'SERVICE_UNAVAILABLE'
+  | 'INTERNAL_ERROR';
+
+interface AppErrorOptions {
+  // Field errors of a failed validation
+  errors?: unknown[];
+  // Extra payload for the client, e.g. the current state of a stale record
+  data?: unknown;
+  // Response headers, e.g. Retry-After
+  headers?: Record<string, string>;
+}
+
+/**
+ * An error with a known HTTP status. Thrown anywhere in a request, it is
+ * turned into a problem+json response by errorHandler; anything else that
+ * is thrown becomes a 500.
+ */
+export class AppError extends Error {
+  readonly errors?: unknown[];
+  readonly data?: unknown;
+  readonly headers?: Record<string, string>;
+
+  constructor(
+    readonly status: number,
+    readonly code: ErrorCode,
+    message: string,
+    options: AppErrorOptions = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.errors = options.errors;
+    this.data = options.data;
+    this.headers = options.headers;
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message: string, code: ErrorCode = 'BAD_REQUEST', options: AppErrorOptions = {}) {
+    super(400, code, message, options);
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(errors: unknown[], message = 'Validation failed') {
+    super(400, 'VALIDATION_FAILED', message, { errors });
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = 'Authentication required', code: ErrorCode = 'UNAUTHORIZED') {
+    super(401, code, message);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = 'You do not have permission to do this', code: ErrorCode = 'FORBIDDEN') {
+    super(403, code, message);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message = 'Not found') {
+    super(404, 'NOT_FOUND', message);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(409, 'CONFLICT', message, options);
+  }
+}
+
+export class PreconditionFailedError extends AppError {
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(412, 'PRECONDITION_FAILED', message, options);
+  }
+}
+
+export class UnprocessableEntityError extends AppError {
+  constructor(message: string, code: ErrorCode) {
+    super(422, code, message);
+  }
+}
+
+export class TooManyRequestsError extends AppError {
+  constructor(message: string, retryAfterSeconds: number, code: ErrorCode = 'RATE_LIMITED') {
+    super(429, code, message, { headers: { 'Retry-After': String(retryAfterSeconds) } });
+  }
+}
+
+export class ServiceUnavailableError extends AppError {
+  constructor(message: string) {
+    super(503, 'SERVICE_UNAVAILABLE', message);
+  }
+}
+
+interface DatabaseError extends Error {
+  code?: string;
+  errno?: number;
+}
+
+export const isUniqueViolation = (error: unknown): boolean => {
+  const dbError = error as DatabaseError;
+  return (
+    dbError?.code === 'SQLITE_CONSTRAINT_UNIQUE' ||
+    dbError?.code === 'SQLITE_CONSTRAINT_PRIMARYKEY' ||
+    dbError?.message?.includes('UNIQUE constraint failed') === true
+  );
+};
+
+/**
+ * A ConflictError with `message` when `error` is a unique constraint
+ * violation, otherwise `error` itself; for rethrowing from a catch block
+ */
+export const toConflictIfUnique = (error: unknown, message: string): unknown =>
+  isUniqueViolation(error) ? new ConflictError(message) : error;
+
+export const isCheckViolation = (error: unknown): boolean => {
+  const dbError = error as DatabaseError;
+  return (
+    dbError?.code === 'SQLITE_CONSTRAINT_CHECK' ||
+    dbError?.message?.includes('CHECK constraint failed') === true
+  );
+};
+
+export const isDatabaseBusy = (error: unknown): boolean => {
+  const dbError = error as DatabaseError;
+  return dbError?.code === 'SQLITE_BUSY' || dbError?.message?.includes('database is locked') === true;
+};
+
+/**
+ * Throw a ValidationError with the field errors when the request failed
+ * the express-validator rules of its route
+ */
+export const assertValid = (req: Request): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) throw new ValidationError(errors.array());
+};
@@ -1,49 +1,21 @@
-import express from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
-import morgan from 'morgan';
+import app from './app';
 import { initializeDatabase } from './database/init';
-import authRoutes from './routes/auth';
-import studentRoutes from './routes/students';
-import analyticsRoutes from './routes/analytics';
-import { errorHandler } from './middleware/errorHandler';
+import { config } from './config';
+import { scheduleArchivePurge } from './services/studentArchive';
+import { startWebhookDelivery } from './services/webhooks';
+import { scheduleAlertSync } from './services/atRisk';
 
-const app = express();
-const PORT = process.env.PORT || 3001;
-
-app.use(helmet());
-app.use(morgan('combined'));
-
-app.use(
-  cors({
-    origin: (origin, callback) => {
-      if (!origin || origin === "null") return callback(null, true);
-      if (["http://localhost:3000", "http://localhost:5173"].includes(origin)) return callback(null, true);
-      return callback(new Error("Not allowed by CORS"));
-    },
-    credentials: true,
-  })
-);
-// app.use(cors({ origin: true, credentials: true }));
-
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
-
-app.use('/auth', authRoutes);
-app.use('/students', studentRoutes);
-app.use('/analytics', analyticsRoutes);
-
-app.get('/health', (req, res) => {
-  res.json({ status: 'OK', timestamp: new Date().toISOString() });
-});
-
-app.use(errorHandler);
+const PORT = config.port;
 
 // Initialize database and start server
 const startServer = async () => {
   try {
     await initializeDatabase();
     console.log('Database initialized successfully');
+
+    scheduleArchivePurge();
+    startWebhookDelivery();
+    scheduleAlertSync();
     
     app.listen(PORT, () => {
       console.log(`Teacher Dashboard Server running on port ${PORT}`);
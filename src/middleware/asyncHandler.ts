@@ -0,0 +1,13 @@
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Wrap an async route handler so that anything it throws, or a promise it
+ * rejects, reaches errorHandler instead of leaving the request hanging.
+ */
+export const asyncHandler =
+  <Req extends Request, Res extends Response>(
+    handler: (req: Req, res: Res, next: NextFunction) => Promise<unknown>
+  ) =>
+  (req: Req, res: Res, next: NextFunction): void => {
+    handler(req, res, next).catch(next);
+  };
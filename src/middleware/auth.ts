@@ -1,54 +1,112 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { ApiResponse } from '../types';
 import { Roles } from '../types/enums';
+import { config } from '../config';
+import { getDatabase } from '../database/init';
+import { AUTH_COOKIE } from '../services/authCookies';
+import { ForbiddenError, UnauthorizedError } from '../errors';
 
-const JWT_SECRET = 'teacher-dashboard-secret-key-2024';
+export interface AuthUser {
+  username: string;
+  role: Roles;
+  id: number;
+  sessionId: string;
+}
+
+export type AuthSource = 'header' | 'cookie';
 
 export interface AuthenticatedRequest extends Request {
-  user?: {
-    username: string;
-    role: Roles;
-    id: number;
-  };
+  user?: AuthUser;
+  // How the access token was presented; cookie-authenticated requests need
+  // CSRF protection, bearer tokens do not
+  authSource?: AuthSource;
 }
 
-export const authenticateToken = (
-  req: AuthenticatedRequest,
-  res: Response<ApiResponse>,
-  next: NextFunction
-): void => {
-  // Try to get token from Authorization header first (Bearer token)
+interface AccessTokenPayload {
+  username: string;
+  role: Roles;
+  id: number;
+  sid: string;
+}
+
+/**
+ * Read the access token from the Authorization header (Bearer token) or,
+ * failing that, from the httpOnly auth cookie.
+ */
+export const extractToken = (req: Request): { token: string; source: AuthSource } | undefined => {
   const authHeader = req.headers['authorization'];
-  let token = authHeader && authHeader.split(' ')[1];
-  
-  // If no Bearer token, try to get from httpOnly cookie
-  if (!token) {
-    token = req.cookies?.auth_token;
-  }
+  const headerToken = authHeader && authHeader.split(' ')[1];
+  if (headerToken) return { token: headerToken, source: 'header' };
+
+  const cookieToken = req.cookies?.[AUTH_COOKIE];
+  if (cookieToken) return { token: cookieToken, source: 'cookie' };
+
+  return undefined;
+};
 
-  if (!token) {
-    res.status(401).json({
-      success: false,
-      error: 'Access token required'
-    });
-    return;
+/**
+ * Verify an access token's signature. Expired tokens are accepted when
+ * `ignoreExpiration` is set, which lets logout work after the token lapsed.
+ */
+export const verifyAccessToken = (
+  token: string,
+  ignoreExpiration = false
+): AuthUser | null => {
+  try {
+    const payload = jwt.verify(token, config.auth.jwtSecret, { ignoreExpiration }) as AccessTokenPayload;
+    if (!payload.sid) return null;
+
+    return { username: payload.username, role: payload.role, id: payload.id, sessionId: payload.sid };
+  } catch {
+    return null;
   }
+};
+
+/**
+ * Whether the token's session is still usable: not logged out, revoked or
+ * expired, and the account has not been disabled since the token was issued
+ */
+export const isSessionActive = async (user: AuthUser): Promise<boolean> => {
+  const session = await getDatabase().get(
+    `SELECT s.revoked_at, s.expires_at, u.is_active
+       FROM sessions s JOIN users u ON u.id = s.user_id
+      WHERE s.id = ? AND s.user_id = ?`,
+    [user.sessionId, user.id]
+  );
+
+  return Boolean(
+    session && !session.revoked_at && session.is_active === 1 && new Date(session.expires_at) >= new Date()
+  );
+};
 
-  jwt.verify(token, JWT_SECRET, (err, decoded) => {
-    if (err) {
-      res.status(403).json({
-        success: false,
-        error: 'Invalid or expired token'
-      });
-      return;
+export const authenticateToken = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const extracted = extractToken(req);
+  if (!extracted) return next(new UnauthorizedError('Access token required', 'TOKEN_REQUIRED'));
+
+  const user = verifyAccessToken(extracted.token);
+  if (!user) return next(new ForbiddenError('Invalid or expired token', 'TOKEN_INVALID'));
+
+  try {
+    if (!(await isSessionActive(user))) {
+      return next(new ForbiddenError('Token has been revoked', 'SESSION_REVOKED'));
     }
 
-    req.user = decoded as { username: string; role: Roles; id: number };
+    req.user = user;
+    req.authSource = extracted.source;
     next();
-  });
+  } catch (error) {
+    next(error);
+  }
 };
 
-export const generateToken = (user: { username: string; role: Roles; id: number }): string => {
-  return jwt.sign({ username: user.username, role: user.role, id: user.id }, JWT_SECRET, { expiresIn: '24h' });
+export const generateToken = (user: AuthUser): string => {
+  return jwt.sign(
+    { username: user.username, role: user.role, id: user.id, sid: user.sessionId },
+    config.auth.jwtSecret,
+    { expiresIn: config.auth.accessTokenTtlSeconds }
+  );
 };
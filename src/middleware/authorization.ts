@@ -1,11 +1,12 @@
 import { NextFunction, Response } from "express";
 import { AuthenticatedRequest } from "./auth";
 import { Roles } from "../types/enums";
+import { ForbiddenError, UnauthorizedError } from "../errors";
 
 export const authorize = (roles: Roles[]) => {
     return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
       if (!req.user) {
-        return res.status(401).json({ success: false, message: 'Unauthorized' });
+        return next(new UnauthorizedError());
       }
       
       if (!roles.includes(req.user.role)) {
@@ -14,7 +15,7 @@ export const authorize = (roles: Roles[]) => {
           userRole: req.user.role,
           requiredRoles: roles
         });
-        return res.status(403).json({ success: false, message: 'Forbidden' });
+        return next(new ForbiddenError());
       }
       
       next();
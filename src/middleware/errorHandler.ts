@@ -1,33 +1,99 @@
 import { Request, Response, NextFunction } from 'express';
-import { ApiResponse } from '../types';
+import { STATUS_CODES } from 'http';
+import { ProblemDetails } from '../types';
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  isCheckViolation,
+  isDatabaseBusy,
+  isUniqueViolation,
+  NotFoundError,
+  ServiceUnavailableError
+} from '../errors';
 
+// Errors raised by body-parser carry the status they should be answered with
+interface HttpError extends Error {
+  status?: number;
+  type?: string;
+}
+
+/**
+ * Map anything thrown during a request to an AppError. Errors that are not
+ * AppErrors and not otherwise recognised are internal errors.
+ */
+const toAppError = (err: HttpError): AppError => {
+  if (err instanceof AppError) return err;
+
+  if (err.type === 'entity.parse.failed') {
+    return new BadRequestError('Request body is not valid JSON', 'INVALID_JSON');
+  }
+  if (err.type === 'entity.too.large') {
+    return new AppError(413, 'PAYLOAD_TOO_LARGE', 'Request body is too large');
+  }
+  if (err.message === 'Not allowed by CORS') {
+    return new ForbiddenError('Requests from this origin are not allowed', 'ORIGIN_NOT_ALLOWED');
+  }
+  if (isUniqueViolation(err)) {
+    return new ConflictError('A record with the same unique values already exists');
+  }
+  if (isCheckViolation(err)) {
+    return new BadRequestError('Invalid data provided', 'CONSTRAINT_VIOLATION');
+  }
+  if (isDatabaseBusy(err)) {
+    return new ServiceUnavailableError('Database temporarily unavailable, please try again');
+  }
+
+  return new AppError(500, 'INTERNAL_ERROR', 'Internal server error');
+};
+
+const toProblemDetails = (error: AppError, req: Request): ProblemDetails => ({
+  type: 'about:blank',
+  title: STATUS_CODES[error.status] ?? 'Error',
+  status: error.status,
+  detail: error.message,
+  instance: req.originalUrl,
+  code: error.code,
+  ...(error.errors && { errors: error.errors }),
+  ...(error.data !== undefined && { data: error.data }),
+  success: false,
+  message: error.message,
+  timestamp: new Date().toISOString()
+});
+
+/**
+ * Answer requests no route matched with a 404 in the error envelope
+ */
+export const notFoundHandler = (req: Request, res: Response, next: NextFunction): void => {
+  next(new NotFoundError(`Cannot ${req.method} ${req.path}`));
+};
+
+/**
+ * Turn every error into an application/problem+json response with the
+ * status and code of its AppError. Details of internal errors are logged,
+ * never sent.
+ */
 export const errorHandler = (
-  err: Error,
+  err: HttpError,
   req: Request,
-  res: Response<ApiResponse>,
+  res: Response<ProblemDetails>,
   next: NextFunction
 ): void => {
-  console.error('Error:', err.message);
-  console.error('Stack:', err.stack);
-
-  // Default error response
-  let statusCode = 500;
-  let message = 'Internal server error';
-
-  // Handle specific error types
-  if (err.name === 'ValidationError') {
-    statusCode = 400;
-    message = err.message;
-  } else if (err.message.includes('UNIQUE constraint failed')) {
-    statusCode = 409;
-    message = 'Email already exists';
-  } else if (err.message.includes('CHECK constraint failed')) {
-    statusCode = 400;
-    message = 'Invalid data provided';
-  }
-
-  res.status(statusCode).json({
-    success: false,
-    error: message
-  });
+  const error = toAppError(err);
+
+  if (error.status >= 500) {
+    console.error('Error:', err.message);
+    console.error('Stack:', err.stack);
+  }
+
+  // Too late for an error response once a download or stream has started;
+  // cutting the connection tells the client it is incomplete
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+
+  if (error.headers) res.set(error.headers);
+  res.status(error.status).type('application/problem+json').json(toProblemDetails(error, req));
 };
@@ -0,0 +1,107 @@
+import { NextFunction, Response } from "express";
+import { AuthenticatedRequest } from "./auth";
+import { getDatabase } from "../database/init";
+import {
+  completeIdempotencyKey,
+  hashIdempotentRequest,
+  releaseIdempotencyKey,
+  REPLAYED_HEADERS,
+  reserveIdempotencyKey,
+} from "../services/idempotency";
+import { BadRequestError, ConflictError, UnprocessableEntityError } from "../errors";
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+export const IDEMPOTENCY_HEADER = "idempotency-key";
+export const IDEMPOTENT_REPLAY_HEADER = "Idempotent-Replayed";
+
+// Printable ASCII, as for any other header value
+const VALID_KEY = /^[\x21-\x7e]{1,255}$/;
+
+// The REPLAYED_HEADERS the handler set on its response
+const replayedHeaders = (res: Response): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const name of REPLAYED_HEADERS) {
+    const value = res.get(name);
+    if (value !== undefined) headers[name] = value;
+  }
+  return headers;
+};
+
+/**
+ * Honour an Idempotency-Key header on mutating requests. The first JSON
+ * response for a key is stored with its status and ETag, Location and
+ * Content-Type headers, and replayed to retries with the same key
+ * until it expires, so a retried request never runs twice. Reusing a key
+ * for a different method, URL or body is rejected. Server errors are not
+ * stored, so retrying after one runs the request again. Must run after
+ * authenticateToken and after the body is parsed.
+ */
+export const idempotency = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  const key = req.get(IDEMPOTENCY_HEADER);
+  if (SAFE_METHODS.includes(req.method) || key === undefined || !req.user) {
+    return next();
+  }
+
+  if (!VALID_KEY.test(key)) {
+    return next(
+      new BadRequestError("Idempotency-Key must be 1-255 printable ASCII characters")
+    );
+  }
+
+  try {
+    const db = getDatabase();
+    const userId = req.user.id;
+    const requestHash = hashIdempotentRequest(req.method, req.originalUrl, req.body);
+    const stored = await reserveIdempotencyKey(db, userId, key, requestHash);
+
+    if (stored) {
+      if (stored.request_hash !== requestHash)
+        throw new UnprocessableEntityError(
+          "Idempotency-Key has already been used for a different request",
+          "IDEMPOTENCY_KEY_REUSED"
+        );
+
+      if (stored.status_code === null)
+        throw new ConflictError("A request with this Idempotency-Key is still being processed");
+
+      res.set(JSON.parse(stored.response_headers ?? "{}"));
+      res.set(IDEMPOTENT_REPLAY_HEADER, "true");
+      return res.status(stored.status_code).json(JSON.parse(stored.response_body!));
+    }
+
+    let settled = false;
+    const sendJson = res.json.bind(res);
+
+    // Store the response before sending it, so a retry that arrives as soon
+    // as the client sees it is already answered from the store
+    res.json = (body: unknown) => {
+      settled = true;
+      const save =
+        res.statusCode >= 500
+          ? releaseIdempotencyKey(db, userId, key)
+          : completeIdempotencyKey(db, userId, key, res.statusCode, replayedHeaders(res), body);
+
+      save
+        .catch((error) => console.error("Failed to store idempotent response:", error))
+        .finally(() => sendJson(body));
+      return res;
+    };
+
+    // Responses that are not JSON, or never sent, are not replayed
+    res.on("close", () => {
+      if (settled) return;
+      releaseIdempotencyKey(db, userId, key).catch((error) =>
+        console.error("Failed to release idempotency key:", error)
+      );
+    });
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,88 @@
+import { NextFunction, Response } from "express";
+import { AuthenticatedRequest } from "./auth";
+import { config } from "../config";
+import { getRateLimitStore } from "../services/rateLimitStore";
+import { TooManyRequestsError } from "../errors";
+
+interface RateLimitOptions {
+  // Keeps the counters of different limits apart
+  name: string;
+  // Requests allowed per window; 0 disables the limit
+  max: number;
+  windowSeconds: number;
+  // Who is counted: the caller's IP address, or the signed-in user
+  by: "ip" | "user";
+}
+
+/**
+ * Fixed-window rate limit. Every response carries RateLimit-Limit,
+ * RateLimit-Remaining and RateLimit-Reset (seconds until the window ends);
+ * requests over the limit get 429 with Retry-After. Limits by user must run
+ * after authenticateToken.
+ */
+export const rateLimit = ({ name, max, windowSeconds, by }: RateLimitOptions) =>
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const subject = by === "user" ? req.user?.id : req.ip;
+    if (max === 0 || subject === undefined) return next();
+
+    try {
+      const { count, resetAt } = await getRateLimitStore().increment(
+        `rate:${name}:${subject}`,
+        windowSeconds * 1000
+      );
+      const resetSeconds = Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
+
+      res.set({
+        "RateLimit-Policy": `${max};w=${windowSeconds}`,
+        "RateLimit-Limit": String(max),
+        "RateLimit-Remaining": String(Math.max(0, max - count)),
+        "RateLimit-Reset": String(resetSeconds),
+      });
+
+      if (count > max) {
+        return next(
+          new TooManyRequestsError(
+            `Too many requests; try again in ${resetSeconds} seconds`,
+            resetSeconds
+          )
+        );
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+// Every request, signed in or not
+export const ipRateLimit = rateLimit({
+  name: "ip",
+  max: config.rateLimit.perIp,
+  windowSeconds: config.rateLimit.windowSeconds,
+  by: "ip",
+});
+
+// Requests of a signed-in user, from wherever they come
+export const userRateLimit = rateLimit({
+  name: "user",
+  max: config.rateLimit.perUser,
+  windowSeconds: config.rateLimit.windowSeconds,
+  by: "user",
+});
+
+// Login attempts, on top of the lockout of usernames with repeated failures
+export const loginRateLimit = rateLimit({
+  name: "login",
+  max: config.rateLimit.loginPerIp,
+  windowSeconds: config.rateLimit.windowSeconds,
+  by: "ip",
+});
+
+// Headers a browser client may read from responses
+export const RATE_LIMIT_HEADERS = [
+  "RateLimit-Policy",
+  "RateLimit-Limit",
+  "RateLimit-Remaining",
+  "RateLimit-Reset",
+  "Retry-After",
+];
@@ -0,0 +1,63 @@
+import express from "express";
+import { param, query } from "express-validator";
+import { authenticateToken } from "../middleware/auth";
+import { userRateLimit } from "../middleware/rateLimit";
+import { Roles } from "../types/enums";
+import { authorize } from "../middleware/authorization";
+import { csrfProtection } from "../middleware/csrf";
+import { idempotency } from "../middleware/idempotency";
+import { acknowledgeAlert, getAlerts } from "../controllers/alert";
+
+const router = express.Router();
+
+// Apply authentication middleware to all alert routes
+router.use(authenticateToken);
+router.use(userRateLimit);
+router.use(csrfProtection);
+router.use(idempotency);
+
+/**
+ * The teacher's inbox of at-risk alerts for students in their classes
+ * @route GET /alerts
+ * @access Private - teachers only
+ */
+router.get(
+  "/",
+  authorize([Roles.TEACHER]),
+  [
+    query("status")
+      .optional()
+      .isIn(["open", "acknowledged", "all"])
+      .withMessage("Status must be one of: open, acknowledged, all"),
+    query("page")
+      .optional()
+      .isInt({ min: 1, max: 1000 })
+      .withMessage("Page must be a positive integer between 1 and 1000")
+      .toInt(),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("Limit must be between 1 and 100")
+      .toInt(),
+  ],
+  getAlerts
+);
+
+/**
+ * Acknowledge an alert
+ * @route POST /alerts/:id/acknowledge
+ * @access Private - teachers only, for their own alerts
+ */
+router.post(
+  "/:id/acknowledge",
+  authorize([Roles.TEACHER]),
+  [
+    param("id")
+      .isInt({ min: 1 })
+      .withMessage("Alert ID must be a positive integer")
+      .toInt(),
+  ],
+  acknowledgeAlert
+);
+
+export default router;
@@ -1,14 +1,48 @@
 import express from "express";
-import { query } from "express-validator";
+import { body, param, query } from "express-validator";
 import { authenticateToken } from "../middleware/auth";
+import { userRateLimit } from "../middleware/rateLimit";
 import { Roles } from "../types/enums";
 import { authorize } from "../middleware/authorization";
-import { getAnalytics } from "../controllers/analytics";
+import { csrfProtection } from "../middleware/csrf";
+import { idempotency } from "../middleware/idempotency";
+import { isKnownSubject } from "../services/subjects";
+import {
+  getAnalytics,
+  getGradeDistribution,
+  getGradeTrends,
+  getStudentPercentiles,
+} from "../controllers/analytics";
+import { TREND_INTERVALS } from "../services/gradeTrends";
+import {
+  deleteRule,
+  getAtRiskStudents,
+  getRules,
+  updateRule,
+} from "../controllers/atRisk";
+import { exportAnalytics } from "../controllers/export";
+import { EXPORT_FORMATS } from "../services/exports";
 
 const router = express.Router();
 
 // Apply authentication middleware to all analytics routes
 router.use(authenticateToken);
+router.use(userRateLimit);
+router.use(csrfProtection);
+router.use(idempotency);
+
+// Subject and archive filters shared by every analytics route
+const validateAnalyticsFilters = [
+  query("subject")
+    .optional()
+    .custom(isKnownSubject),
+
+  query("includeArchived")
+    .optional()
+    .isBoolean()
+    .withMessage("includeArchived must be true or false")
+    .toBoolean(),
+];
 
 // Validation middleware for analytics query parameters
 const validateGetAnalytics = [
@@ -18,22 +52,156 @@ const validateGetAnalytics = [
     .withMessage("Limit must be between 1 and 50")
     .toInt(),
 
-  query("subject")
-    .optional()
-    .isIn(["Math", "Science", "English", "History"])
-    .withMessage("Subject must be one of: Math, Science, English, History"),
+  ...validateAnalyticsFilters,
 ];
 
 /**
  * Get analytics data
  * @route GET /api/analytics
- * @access Private - requires authentication and admin/teacher role
+ * @access Private - requires authentication; student users only see their own record
  */
 router.get(
   "/",
-  authorize([Roles.ADMIN, Roles.TEACHER]),
+  authorize([Roles.ADMIN, Roles.TEACHER, Roles.STUDENT]),
   validateGetAnalytics,
   getAnalytics
 );
 
+/**
+ * Grade statistics, histogram and letter-grade distribution per subject
+ * @route GET /api/analytics/distribution
+ * @access Private - requires authentication; student users only see their own record
+ */
+router.get(
+  "/distribution",
+  authorize([Roles.ADMIN, Roles.TEACHER, Roles.STUDENT]),
+  [
+    ...validateAnalyticsFilters,
+    query("bucketSize")
+      .optional()
+      .isInt({ min: 1, max: 50 })
+      .withMessage("Bucket size must be between 1 and 50")
+      .toInt(),
+  ],
+  getGradeDistribution
+);
+
+/**
+ * Percentile rank of each student within their subject
+ * @route GET /api/analytics/percentiles
+ * @access Private - requires authentication; student users only see their own rank
+ */
+router.get(
+  "/percentiles",
+  authorize([Roles.ADMIN, Roles.TEACHER, Roles.STUDENT]),
+  validateAnalyticsFilters,
+  getStudentPercentiles
+);
+
+/**
+ * Average grade per week or month over a date range
+ * @route GET /api/analytics/trends
+ * @access Private - requires authentication; student users only see their own record
+ */
+router.get(
+  "/trends",
+  authorize([Roles.ADMIN, Roles.TEACHER, Roles.STUDENT]),
+  [
+    ...validateAnalyticsFilters,
+    query("interval")
+      .optional()
+      .isIn(TREND_INTERVALS)
+      .withMessage(`Interval must be one of: ${TREND_INTERVALS.join(", ")}`),
+    query("from")
+      .optional()
+      .isISO8601({ strict: true })
+      .withMessage("from must be a valid date (YYYY-MM-DD)"),
+    query("to")
+      .optional()
+      .isISO8601({ strict: true })
+      .withMessage("to must be a valid date (YYYY-MM-DD)"),
+  ],
+  getGradeTrends
+);
+
+/**
+ * Students whose grade is below their subject's threshold or dropped sharply
+ * @route GET /api/analytics/at-risk
+ * @access Private - requires authentication and admin/teacher role
+ */
+router.get(
+  "/at-risk",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [query("subject").optional().custom(isKnownSubject)],
+  getAtRiskStudents
+);
+
+/**
+ * The at-risk thresholds in force for every subject
+ * @route GET /api/analytics/at-risk/rules
+ * @access Private - requires authentication and admin/teacher role
+ */
+router.get(
+  "/at-risk/rules",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  getRules
+);
+
+const validateRuleSubjectId = param("subjectId")
+  .isInt({ min: 1 })
+  .withMessage("Subject ID must be a positive integer")
+  .toInt();
+
+/**
+ * Set a subject's at-risk thresholds
+ * @route PUT /api/analytics/at-risk/rules/:subjectId
+ * @access Private - admin only
+ */
+router.put(
+  "/at-risk/rules/:subjectId",
+  authorize([Roles.ADMIN]),
+  [
+    validateRuleSubjectId,
+    body("minGrade")
+      .isFloat({ min: 0, max: 100 })
+      .withMessage("minGrade must be between 0 and 100")
+      .toFloat(),
+    body("maxDrop")
+      .isFloat({ min: 0.01, max: 100 })
+      .withMessage("maxDrop must be greater than 0 and at most 100")
+      .toFloat(),
+  ],
+  updateRule
+);
+
+/**
+ * Reset a subject to the default at-risk thresholds
+ * @route DELETE /api/analytics/at-risk/rules/:subjectId
+ * @access Private - admin only
+ */
+router.delete(
+  "/at-risk/rules/:subjectId",
+  authorize([Roles.ADMIN]),
+  [validateRuleSubjectId],
+  deleteRule
+);
+
+/**
+ * Export the per-subject averages as CSV or XLSX
+ * @route GET /api/analytics/export
+ * @access Private - requires authentication; student users only see their own record
+ */
+router.get(
+  "/export",
+  authorize([Roles.ADMIN, Roles.TEACHER, Roles.STUDENT]),
+  [
+    query("format")
+      .optional()
+      .isIn(EXPORT_FORMATS)
+      .withMessage(`Format must be one of: ${EXPORT_FORMATS.join(", ")}`),
+    ...validateAnalyticsFilters,
+  ],
+  exportAnalytics
+);
+
 export default router;
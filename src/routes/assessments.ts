@@ -0,0 +1,259 @@
+import express from "express";
+import { body, param, query } from "express-validator";
+import { authenticateToken } from "../middleware/auth";
+import { userRateLimit } from "../middleware/rateLimit";
+import { Roles } from "../types/enums";
+import { authorize } from "../middleware/authorization";
+import { isKnownSubject } from "../services/subjects";
+import { csrfProtection } from "../middleware/csrf";
+import { idempotency } from "../middleware/idempotency";
+import {
+  createAssessment,
+  createCategory,
+  deleteAssessment,
+  deleteCategory,
+  deleteScore,
+  getAssessment,
+  getAssessments,
+  getCategories,
+  recordScores,
+  updateAssessment,
+  updateCategory,
+} from "../controllers/assessment";
+
+const router = express.Router();
+
+// Apply authentication middleware to all assessment routes
+router.use(authenticateToken);
+router.use(userRateLimit);
+router.use(csrfProtection);
+router.use(idempotency);
+
+const validateId = (name: string, label: string) =>
+  param(name)
+    .isInt({ min: 1 })
+    .withMessage(`${label} ID must be a positive integer`)
+    .toInt();
+
+// Validation middleware
+const validateCategoryBody = (optional: boolean) => {
+  const field = (name: string) =>
+    optional ? body(name).optional() : body(name);
+
+  return [
+    field("name")
+      .trim()
+      .isLength({ min: 2, max: 50 })
+      .withMessage("Name must be between 2 and 50 characters")
+      .escape(),
+
+    field("weight")
+      .isFloat({ gt: 0, max: 100 })
+      .withMessage("Weight must be greater than 0 and at most 100")
+      .toFloat(),
+  ];
+};
+
+const validateGetAssessments = [
+  query("classId")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Class ID must be a positive integer")
+    .toInt(),
+
+  query("subject")
+    .optional()
+    .custom(isKnownSubject),
+
+  query("categoryId")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Category ID must be a positive integer")
+    .toInt(),
+];
+
+const validateAssessmentBody = (optional: boolean) => {
+  const field = (name: string) =>
+    optional ? body(name).optional() : body(name);
+
+  return [
+    field("title")
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage("Title must be between 1 and 100 characters")
+      .escape(),
+
+    field("categoryId")
+      .isInt({ min: 1 })
+      .withMessage("Category ID must be a positive integer")
+      .toInt(),
+
+    body("subject")
+      .optional()
+      .trim()
+      .custom(isKnownSubject),
+
+    field("maxScore")
+      .isFloat({ gt: 0, max: 10000 })
+      .withMessage("Max score must be greater than 0")
+      .toFloat(),
+
+    body("assessedOn")
+      .optional()
+      .isISO8601({ strict: true })
+      .withMessage("assessedOn must be a valid date (YYYY-MM-DD)"),
+  ];
+};
+
+/**
+ * List assessment categories and their weights
+ * @route GET /assessments/categories
+ * @access Private - requires authentication and admin/teacher role
+ */
+router.get(
+  "/categories",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  getCategories
+);
+
+/**
+ * Create an assessment category
+ * @route POST /assessments/categories
+ * @access Private - admin only
+ */
+router.post(
+  "/categories",
+  authorize([Roles.ADMIN]),
+  validateCategoryBody(false),
+  createCategory
+);
+
+/**
+ * Rename or re-weight an assessment category (recomputes all grades)
+ * @route PUT /assessments/categories/:id
+ * @access Private - admin only
+ */
+router.put(
+  "/categories/:id",
+  authorize([Roles.ADMIN]),
+  [validateId("id", "Category"), ...validateCategoryBody(true)],
+  updateCategory
+);
+
+/**
+ * Delete an unused assessment category
+ * @route DELETE /assessments/categories/:id
+ * @access Private - admin only
+ */
+router.delete(
+  "/categories/:id",
+  authorize([Roles.ADMIN]),
+  [validateId("id", "Category")],
+  deleteCategory
+);
+
+/**
+ * List assessments the caller can manage
+ * @route GET /assessments
+ * @access Private - requires authentication and admin/teacher role
+ */
+router.get(
+  "/",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  validateGetAssessments,
+  getAssessments
+);
+
+/**
+ * Get an assessment with all recorded scores
+ * @route GET /assessments/:id
+ * @access Private - assessment owner or admin
+ */
+router.get(
+  "/:id",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [validateId("id", "Assessment")],
+  getAssessment
+);
+
+/**
+ * Create an assessment (quiz, test, assignment, ...)
+ * @route POST /assessments
+ * @access Private - requires authentication and admin/teacher role
+ */
+router.post(
+  "/",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [
+    ...validateAssessmentBody(false),
+    body("classId")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Class ID must be a positive integer")
+      .toInt(),
+  ],
+  createAssessment
+);
+
+/**
+ * Update an assessment
+ * @route PUT /assessments/:id
+ * @access Private - assessment owner or admin
+ */
+router.put(
+  "/:id",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [validateId("id", "Assessment"), ...validateAssessmentBody(true)],
+  updateAssessment
+);
+
+/**
+ * Delete an assessment and its scores
+ * @route DELETE /assessments/:id
+ * @access Private - assessment owner or admin
+ */
+router.delete(
+  "/:id",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [validateId("id", "Assessment")],
+  deleteAssessment
+);
+
+/**
+ * Record or overwrite scores for an assessment
+ * @route PUT /assessments/:id/scores
+ * @access Private - assessment owner or admin
+ */
+router.put(
+  "/:id/scores",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [
+    validateId("id", "Assessment"),
+    body("scores")
+      .isArray({ min: 1, max: 500 })
+      .withMessage("scores must be an array of 1-500 entries"),
+    body("scores.*.studentId")
+      .isInt({ min: 1 })
+      .withMessage("Each studentId must be a positive integer")
+      .toInt(),
+    body("scores.*.score")
+      .isFloat({ min: 0 })
+      .withMessage("Each score must be a non-negative number")
+      .toFloat(),
+  ],
+  recordScores
+);
+
+/**
+ * Remove a student's score from an assessment
+ * @route DELETE /assessments/:id/scores/:studentId
+ * @access Private - assessment owner or admin
+ */
+router.delete(
+  "/:id/scores/:studentId",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [validateId("id", "Assessment"), validateId("studentId", "Student")],
+  deleteScore
+);
+
+export default router;
@@ -0,0 +1,71 @@
+import express from "express";
+import { query } from "express-validator";
+import { authenticateToken } from "../middleware/auth";
+import { userRateLimit } from "../middleware/rateLimit";
+import { Roles } from "../types/enums";
+import { authorize } from "../middleware/authorization";
+import { getAuditLog } from "../controllers/audit";
+
+const router = express.Router();
+
+// Apply authentication middleware to all audit routes
+router.use(authenticateToken);
+router.use(userRateLimit);
+
+const AUDIT_ACTIONS = ["create", "update", "delete"];
+
+// Validation middleware
+const validateGetAuditLog = [
+  query("entityType")
+    .optional()
+    .isIn(["student", "attendance"])
+    .withMessage("Entity type must be one of: student, attendance"),
+
+  query("entityId")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Entity ID must be a positive integer")
+    .toInt(),
+
+  query("action")
+    .optional()
+    .isIn(AUDIT_ACTIONS)
+    .withMessage(`Action must be one of: ${AUDIT_ACTIONS.join(", ")}`),
+
+  query("actorId")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Actor ID must be a positive integer")
+    .toInt(),
+
+  query("from")
+    .optional()
+    .isISO8601()
+    .withMessage("from must be a valid ISO 8601 date or timestamp"),
+
+  query("to")
+    .optional()
+    .isISO8601()
+    .withMessage("to must be a valid ISO 8601 date or timestamp"),
+
+  query("page")
+    .optional()
+    .isInt({ min: 1, max: 1000 })
+    .withMessage("Page must be a positive integer between 1 and 1000")
+    .toInt(),
+
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100")
+    .toInt(),
+];
+
+/**
+ * Search the audit log of record changes
+ * @route GET /api/audit
+ * @access Private - admin only
+ */
+router.get("/", authorize([Roles.ADMIN]), validateGetAuditLog, getAuditLog);
+
+export default router;
@@ -1,64 +1,194 @@
 import express, {Response} from 'express';
-import { body, validationResult } from 'express-validator';
-import { generateToken } from '../middleware/auth';
+import { body } from 'express-validator';
+import bcrypt from 'bcryptjs';
+import { extractToken, verifyAccessToken } from '../middleware/auth';
+import { getDatabase } from '../database/init';
 import { Roles } from '../types/enums';
+import { acceptInvitation } from '../controllers/studentAccount';
+import {
+  createSession,
+  IssuedTokens,
+  SessionUser,
+  findSessionIdByRefreshToken,
+  revokeSession,
+  rotateRefreshToken
+} from '../services/session';
+import { clearAuthCookies, REFRESH_COOKIE, setAuthCookies } from '../services/authCookies';
+import { clearLoginFailures, getLoginLockout, recordLoginFailure } from '../services/loginLockout';
+import { loginRateLimit } from '../middleware/rateLimit';
+import { assertCsrfToken } from '../middleware/csrf';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { assertValid, ForbiddenError, TooManyRequestsError, UnauthorizedError } from '../errors';
 
 const router = express.Router();
 
-// Hardcoded credentials as per requirements
-const VALID_CREDENTIALS = {
-  username: 'teacher',
-  password: 'password123'
+/**
+ * Build the login/refresh response body. In cookie mode the tokens go into
+ * httpOnly cookies and are left out of the body; the client only receives
+ * the CSRF token it must echo on mutating requests.
+ */
+const buildTokenResponse = (
+  res: Response,
+  tokens: IssuedTokens,
+  user: SessionUser,
+  useCookie: boolean
+) => {
+  if (!useCookie) return { ...tokens, user };
+
+  const csrfToken = setAuthCookies(res, tokens);
+  return {
+    expiresIn: tokens.expiresIn,
+    refreshTokenExpiresAt: tokens.refreshTokenExpiresAt,
+    csrfToken,
+    user
+  };
 };
 
+// Compared against when the username is unknown so that response time does
+// not reveal which usernames exist
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('dummy-password', 10);
+
+const lockedOutError = (seconds: number) =>
+  new TooManyRequestsError(
+    `Too many failed login attempts; try again in ${seconds} seconds`,
+    seconds,
+    'LOGIN_LOCKED'
+  );
+
 /**
  * POST /auth/login
- * Authenticate user with hardcoded credentials and return JWT token
+ * Authenticate user against the users table and return JWT token. A username
+ * with repeated failed attempts is locked out for a growing period.
  */
-router.post('/login', [
+router.post('/login', loginRateLimit, [
   body('username').notEmpty().withMessage('Username is required'),
-  body('password').notEmpty().withMessage('Password is required')
-], (req: express.Request, res: Response) => {
-  try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      res.status(400).json({
-        success: false,
-        error: 'Validation failed',
-        data: errors.array()
-      });
-      return;
-    }
-
-    const { username, password } = req.body;
-
-    // Check credentials against hardcoded values
-    if (username !== VALID_CREDENTIALS.username || password !== VALID_CREDENTIALS.password) {
-      res.status(401).json({
-        success: false,
-        error: 'Invalid username or password'
-      });
-      return;
-    }
-
-    // Generate JWT token
-    const token = generateToken({username, role: Roles.TEACHER, id: 1});
-
-    res.json({
-      success: true,
-      data: {
-        token,
-        user: { username, role: Roles.TEACHER }
-      },
-      message: 'Login successful'
-    });
-  } catch (error) {
-    console.error('Login error:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Login failed'
-    });
+  body('password').notEmpty().withMessage('Password is required'),
+  body('useCookie').optional().isBoolean({ strict: true }).withMessage('useCookie must be a boolean')
+], asyncHandler(async (req: express.Request, res: Response) => {
+  assertValid(req);
+
+  const { username, password } = req.body;
+  const db = getDatabase();
+
+  // Refused without checking the password, so guesses during a lockout
+  // cannot succeed either
+  const lockedFor = await getLoginLockout(String(username));
+  if (lockedFor > 0) throw lockedOutError(lockedFor);
+
+  const user = await db.get(
+    'SELECT id, username, password_hash, role, is_active FROM users WHERE username = ?',
+    [username]
+  );
+
+  const passwordMatches = await bcrypt.compare(
+    password,
+    user ? user.password_hash : DUMMY_PASSWORD_HASH
+  );
+
+  if (!user || !passwordMatches) {
+    const lockoutSeconds = await recordLoginFailure(String(username));
+    if (lockoutSeconds > 0) throw lockedOutError(lockoutSeconds);
+
+    throw new UnauthorizedError('Invalid username or password', 'INVALID_CREDENTIALS');
   }
-});
+
+  if (user.is_active !== 1) throw new ForbiddenError('Account is disabled', 'ACCOUNT_DISABLED');
+
+  await clearLoginFailures(String(username));
+
+  // Start a session and issue its access/refresh token pair
+  const role = user.role as Roles;
+  const tokens = await createSession(
+    { id: user.id, username: user.username, role },
+    { userAgent: req.get('user-agent'), ipAddress: req.ip }
+  );
+
+  res.json({
+    success: true,
+    data: buildTokenResponse(
+      res,
+      tokens,
+      { id: user.id, username: user.username, role },
+      req.body.useCookie === true
+    ),
+    message: 'Login successful'
+  });
+}));
+
+/**
+ * POST /auth/refresh
+ * Exchange a refresh token for a new access token and a new refresh token.
+ * The refresh token comes from the body or, for cookie sessions, the
+ * refresh_token cookie - in which case the request must pass the CSRF check
+ * and the new pair is set as cookies too.
+ */
+router.post('/refresh', [
+  body('refreshToken').optional().isString().notEmpty().withMessage('Refresh token must be a non-empty string')
+], asyncHandler(async (req: express.Request, res: Response) => {
+  assertValid(req);
+
+  const cookieToken = req.cookies?.[REFRESH_COOKIE];
+  const refreshToken = req.body.refreshToken ?? cookieToken;
+
+  if (!refreshToken) throw new UnauthorizedError('Refresh token required', 'TOKEN_REQUIRED');
+  if (!req.body.refreshToken) assertCsrfToken(req);
+
+  const result = await rotateRefreshToken(refreshToken);
+
+  if (!result) throw new UnauthorizedError('Invalid or expired refresh token', 'TOKEN_INVALID');
+
+  res.json({
+    success: true,
+    data: buildTokenResponse(res, result.tokens, result.user, !req.body.refreshToken),
+    message: 'Token refreshed successfully'
+  });
+}));
+
+/**
+ * POST /auth/logout
+ * End the current session and clear any auth cookies. The session is
+ * identified by the access token (which may already be expired) or by a
+ * refresh token in the body or cookie. When a cookie identifies it, the
+ * request must pass the CSRF check so another site cannot log the user out.
+ */
+router.post('/logout', asyncHandler(async (req: express.Request, res: Response) => {
+  const accessToken = extractToken(req);
+  const tokenUser = accessToken ? verifyAccessToken(accessToken.token, true) : null;
+  const bodyRefreshToken = req.body?.refreshToken;
+  const refreshToken = bodyRefreshToken ?? req.cookies?.[REFRESH_COOKIE];
+
+  const usesCookie = tokenUser
+    ? accessToken?.source === 'cookie'
+    : bodyRefreshToken === undefined && refreshToken !== undefined;
+  if (usesCookie) assertCsrfToken(req);
+
+  let sessionId = tokenUser?.sessionId ?? null;
+  if (!sessionId && typeof refreshToken === 'string') {
+    sessionId = await findSessionIdByRefreshToken(refreshToken);
+  }
+
+  // Always drop the cookies, even if the session is already gone
+  clearAuthCookies(res);
+
+  if (!sessionId) {
+    throw new UnauthorizedError('Access token or refresh token required', 'TOKEN_REQUIRED');
+  }
+
+  await revokeSession(sessionId);
+
+  res.json({
+    success: true,
+    message: 'Logout successful'
+  });
+}));
+
+/**
+ * POST /auth/accept-invite
+ * Create a student login account from an invitation token
+ */
+router.post('/accept-invite', [
+  body('token').isHexadecimal().isLength({ min: 64, max: 64 }).withMessage('Valid invitation token is required'),
+  body('password').isLength({ min: 8, max: 128 }).withMessage('Password must be between 8 and 128 characters')
+], acceptInvitation);
 
 export default router;
@@ -0,0 +1,253 @@
+import express from "express";
+import { body, param, query } from "express-validator";
+import { authenticateToken } from "../middleware/auth";
+import { userRateLimit } from "../middleware/rateLimit";
+import { Roles } from "../types/enums";
+import { authorize } from "../middleware/authorization";
+import { isKnownSubject } from "../services/subjects";
+import { csrfProtection } from "../middleware/csrf";
+import { idempotency } from "../middleware/idempotency";
+import {
+  createClass,
+  deleteClass,
+  enrollStudents,
+  getClass,
+  getClasses,
+  unenrollStudent,
+  updateClass,
+} from "../controllers/class";
+import { createEnrollmentRequest } from "../controllers/enrollmentRequest";
+import { setClassGradingScale } from "../controllers/gradingScale";
+import { gradingScaleAssignmentRule } from "../validators/gradingScale";
+import {
+  getClassDayAttendance,
+  recordClassDayAttendance,
+} from "../controllers/attendance";
+import { attendanceDateRule, classAttendanceRules } from "../validators/attendance";
+
+const router = express.Router();
+
+// Apply authentication middleware to all class routes
+router.use(authenticateToken);
+router.use(userRateLimit);
+router.use(csrfProtection);
+router.use(idempotency);
+
+const validateClassId = param("id")
+  .isInt({ min: 1 })
+  .withMessage("Class ID must be a positive integer")
+  .toInt();
+
+// Validation middleware
+const validateGetClasses = [
+  query("subject")
+    .optional()
+    .custom(isKnownSubject),
+
+  query("term")
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage("Term must be 1-50 characters"),
+
+  query("teacherId")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Teacher ID must be a positive integer")
+    .toInt(),
+];
+
+const validateClassBody = (optional: boolean) => {
+  const field = (name: string) =>
+    optional ? body(name).optional() : body(name);
+
+  return [
+    field("name")
+      .trim()
+      .isLength({ min: 2, max: 100 })
+      .withMessage("Name must be between 2 and 100 characters")
+      .escape(),
+
+    field("subject")
+      .trim()
+      .custom(isKnownSubject),
+
+    field("term")
+      .trim()
+      .isLength({ min: 1, max: 50 })
+      .withMessage("Term must be 1-50 characters")
+      .escape(),
+
+    body("teacherId")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Teacher ID must be a positive integer")
+      .toInt(),
+  ];
+};
+
+/**
+ * List classes (teachers see their own, admins see all)
+ * @route GET /classes
+ * @access Private - requires authentication and admin/teacher role
+ */
+router.get(
+  "/",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  validateGetClasses,
+  getClasses
+);
+
+/**
+ * Get a class with its enrolled students
+ * @route GET /classes/:id
+ * @access Private - class owner or admin
+ */
+router.get(
+  "/:id",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [validateClassId],
+  getClass
+);
+
+/**
+ * Create a class
+ * @route POST /classes
+ * @access Private - requires authentication and admin/teacher role
+ */
+router.post(
+  "/",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  validateClassBody(false),
+  createClass
+);
+
+/**
+ * Update a class
+ * @route PUT /classes/:id
+ * @access Private - class owner or admin
+ */
+router.put(
+  "/:id",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [validateClassId, ...validateClassBody(true)],
+  updateClass
+);
+
+/**
+ * Delete a class (students are kept, only their enrollments are removed)
+ * @route DELETE /classes/:id
+ * @access Private - class owner or admin
+ */
+router.delete(
+  "/:id",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [validateClassId],
+  deleteClass
+);
+
+/**
+ * Enroll students in a class
+ * @route POST /classes/:id/enrollments
+ * @access Private - class owner or admin
+ */
+router.post(
+  "/:id/enrollments",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [
+    validateClassId,
+    body("studentIds")
+      .isArray({ min: 1, max: 500 })
+      .withMessage("studentIds must be an array of 1-500 student IDs"),
+    body("studentIds.*")
+      .isInt({ min: 1 })
+      .withMessage("Each student ID must be a positive integer")
+      .toInt(),
+  ],
+  enrollStudents
+);
+
+/**
+ * Ask an admin to enroll a student who is not in any of the caller's
+ * classes, by email
+ * @route POST /classes/:id/enrollment-requests
+ * @access Private - class owner or admin
+ */
+router.post(
+  "/:id/enrollment-requests",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [
+    validateClassId,
+    body("email")
+      .trim()
+      .isEmail()
+      .withMessage("Valid email is required")
+      .isLength({ max: 255 })
+      .withMessage("Email must not exceed 255 characters")
+      .normalizeEmail(),
+    body("note")
+      .optional({ values: "null" })
+      .isString()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage("Note must be at most 500 characters")
+      .escape(),
+  ],
+  createEnrollmentRequest
+);
+
+/**
+ * Remove a student from a class
+ * @route DELETE /classes/:id/enrollments/:studentId
+ * @access Private - class owner or admin
+ */
+router.delete(
+  "/:id/enrollments/:studentId",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [
+    validateClassId,
+    param("studentId")
+      .isInt({ min: 1 })
+      .withMessage("Student ID must be a positive integer")
+      .toInt(),
+  ],
+  unenrollStudent
+);
+
+/**
+ * Assign a grading scale to a class (null to use the subject's scale)
+ * @route PUT /classes/:id/grading-scale
+ * @access Private - class owner or admin
+ */
+router.put(
+  "/:id/grading-scale",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [validateClassId, gradingScaleAssignmentRule],
+  setClassGradingScale
+);
+
+/**
+ * Get the attendance sheet of a class for one day
+ * @route GET /classes/:id/attendance/:date
+ * @access Private - class owner or admin
+ */
+router.get(
+  "/:id/attendance/:date",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [validateClassId, attendanceDateRule],
+  getClassDayAttendance
+);
+
+/**
+ * Take or correct attendance for a whole class day
+ * @route PUT /classes/:id/attendance/:date
+ * @access Private - class owner or admin
+ */
+router.put(
+  "/:id/attendance/:date",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [validateClassId, ...classAttendanceRules],
+  recordClassDayAttendance
+);
+
+export default router;
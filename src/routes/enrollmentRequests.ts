@@ -0,0 +1,80 @@
+import express from "express";
+import { param, query } from "express-validator";
+import { authenticateToken } from "../middleware/auth";
+import { userRateLimit } from "../middleware/rateLimit";
+import { Roles } from "../types/enums";
+import { authorize } from "../middleware/authorization";
+import { csrfProtection } from "../middleware/csrf";
+import { idempotency } from "../middleware/idempotency";
+import {
+  approveEnrollmentRequest,
+  getEnrollmentRequests,
+  rejectEnrollmentRequest,
+} from "../controllers/enrollmentRequest";
+import { ENROLLMENT_REQUEST_STATUSES } from "../services/enrollmentRequests";
+
+const router = express.Router();
+
+// Apply authentication middleware to all enrollment request routes
+router.use(authenticateToken);
+router.use(userRateLimit);
+router.use(csrfProtection);
+router.use(idempotency);
+
+const validateRequestId = param("id")
+  .isInt({ min: 1 })
+  .withMessage("Enrollment request ID must be a positive integer")
+  .toInt();
+
+/**
+ * List enrollment requests, pending ones by default
+ * @route GET /enrollment-requests
+ * @access Private - admins see every request, teachers their own
+ */
+router.get(
+  "/",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [
+    query("status")
+      .optional()
+      .isIn([...ENROLLMENT_REQUEST_STATUSES, "all"])
+      .withMessage(`Status must be one of: ${ENROLLMENT_REQUEST_STATUSES.join(", ")}, all`),
+    query("page")
+      .optional()
+      .isInt({ min: 1, max: 1000 })
+      .withMessage("Page must be a positive integer between 1 and 1000")
+      .toInt(),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("Limit must be between 1 and 100")
+      .toInt(),
+  ],
+  getEnrollmentRequests
+);
+
+/**
+ * Enroll the student with the request's email in the requested class
+ * @route POST /enrollment-requests/:id/approve
+ * @access Private - admin only
+ */
+router.post(
+  "/:id/approve",
+  authorize([Roles.ADMIN]),
+  [validateRequestId],
+  approveEnrollmentRequest
+);
+
+/**
+ * Turn an enrollment request down
+ * @route POST /enrollment-requests/:id/reject
+ * @access Private - admin only
+ */
+router.post(
+  "/:id/reject",
+  authorize([Roles.ADMIN]),
+  [validateRequestId],
+  rejectEnrollmentRequest
+);
+
+export default router;
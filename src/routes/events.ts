@@ -0,0 +1,25 @@
+import express from "express";
+import { authenticateToken } from "../middleware/auth";
+import { userRateLimit } from "../middleware/rateLimit";
+import { Roles } from "../types/enums";
+import { authorize } from "../middleware/authorization";
+import { streamEvents } from "../controllers/events";
+
+const router = express.Router();
+
+// Apply authentication middleware to all event routes
+router.use(authenticateToken);
+router.use(userRateLimit);
+
+/**
+ * Server-Sent Events stream of student changes and analytics snapshots
+ * @route GET /events
+ * @access Private - requires authentication; student users only get events about their own record
+ */
+router.get(
+  "/",
+  authorize([Roles.ADMIN, Roles.TEACHER, Roles.STUDENT]),
+  streamEvents
+);
+
+export default router;
@@ -0,0 +1,72 @@
+import express from "express";
+import { param } from "express-validator";
+import { authenticateToken } from "../middleware/auth";
+import { userRateLimit } from "../middleware/rateLimit";
+import { Roles } from "../types/enums";
+import { authorize } from "../middleware/authorization";
+import { csrfProtection } from "../middleware/csrf";
+import { idempotency } from "../middleware/idempotency";
+import { gradingScaleRules } from "../validators/gradingScale";
+import {
+  createGradingScale,
+  deleteGradingScale,
+  listGradingScales,
+  updateGradingScale,
+} from "../controllers/gradingScale";
+
+const router = express.Router();
+
+// Apply authentication middleware to all grading scale routes
+router.use(authenticateToken);
+router.use(userRateLimit);
+router.use(csrfProtection);
+router.use(idempotency);
+
+const validateScaleId = param("id")
+  .isInt({ min: 1 })
+  .withMessage("Grading scale ID must be a positive integer")
+  .toInt();
+
+/**
+ * List grading scales with their bands and the subjects and classes using them
+ * @route GET /grading-scales
+ * @access Private - requires authentication
+ */
+router.get(
+  "/",
+  authorize([Roles.ADMIN, Roles.TEACHER, Roles.STUDENT]),
+  listGradingScales
+);
+
+/**
+ * Create a grading scale
+ * @route POST /grading-scales
+ * @access Private - admin only
+ */
+router.post("/", authorize([Roles.ADMIN]), gradingScaleRules, createGradingScale);
+
+/**
+ * Replace the name and bands of a grading scale
+ * @route PUT /grading-scales/:id
+ * @access Private - admin only
+ */
+router.put(
+  "/:id",
+  authorize([Roles.ADMIN]),
+  [validateScaleId, ...gradingScaleRules],
+  updateGradingScale
+);
+
+/**
+ * Delete a grading scale that is not the default
+ * @route DELETE /grading-scales/:id
+ * @access Private - admin only
+ */
+router.delete(
+  "/:id",
+  authorize([Roles.ADMIN]),
+  [validateScaleId],
+  deleteGradingScale
+);
+
+export default router;
@@ -1,59 +1,189 @@
 import express from "express";
-import { body, query } from "express-validator";
+import { body, param, query, ValidationChain } from "express-validator";
 import { authenticateToken } from "../middleware/auth";
+import { userRateLimit } from "../middleware/rateLimit";
 import { Roles } from "../types/enums";
 import { authorize } from "../middleware/authorization";
+import { isKnownSubject } from "../services/subjects";
+import { csrfProtection } from "../middleware/csrf";
+import { idempotency } from "../middleware/idempotency";
+import { studentFieldRules, studentUpdateRules } from "../validators/student";
 import {
   createNewStudent,
   deleteStudent,
+  getStudent,
   getStudents,
+  purgeStudents,
+  restoreStudent,
   updateStudent,
 } from "../controllers/student";
+import {
+  inviteStudent,
+  linkStudentAccount,
+  unlinkStudentAccount,
+} from "../controllers/studentAccount";
+import { getStudentScores } from "../controllers/assessment";
+import { importStudents } from "../controllers/studentImport";
+import {
+  batchDeleteStudents,
+  batchUpdateStudents,
+  MAX_BATCH_SIZE,
+} from "../controllers/studentBatch";
+import { exportStudents, getReportCard } from "../controllers/export";
+import { getAttendanceHistory, getStudentHistory } from "../controllers/audit";
+import {
+  getStudentAttendance,
+  recordStudentAttendance,
+} from "../controllers/attendance";
+import { attendanceRules } from "../validators/attendance";
+import { EXPORT_FORMATS } from "../services/exports";
+import {
+  MAX_SORT_FIELDS,
+  splitList,
+  STUDENT_LIST_FIELDS,
+  STUDENT_SORT_FIELDS,
+} from "../services/studentQuery";
 
 const router = express.Router();
 
 // Apply authentication middleware to all student routes
 router.use(authenticateToken);
+router.use(userRateLimit);
+router.use(csrfProtection);
+// CSV imports are parsed first so their content is part of the idempotency check
+router.use("/import", express.text({ type: ["text/csv", "text/plain"], limit: "1mb" }));
+router.use(idempotency);
 
 // Validation middleware
-const validateGetStudents = [
-  query("subject")
+type FieldChain = (fields: string | string[]) => ValidationChain;
+
+// Filters that select students, shared by the list, the exports (as query
+// parameters) and batch requests (as `filter`), so a filter means the same
+// everywhere
+const studentFilterRules = (field: FieldChain) => [
+  field("subject")
     .optional()
-    .isIn(["Math", "Science", "English", "History"])
-    .withMessage("Subject must be one of: Math, Science, English, History"),
+    .custom(async (value) => {
+      // Several subjects may be given separated by commas
+      for (const subject of typeof value === "string" ? splitList(value) : [value])
+        await isKnownSubject(subject);
+      return true;
+    }),
 
-  query("page")
+  field("search")
     .optional()
-    .isInt({ min: 1, max: 1000 })
-    .withMessage("Page must be a positive integer between 1 and 1000")
-    .toInt(),
+    .isLength({ min: 1, max: 100 })
+    .trim()
+    .withMessage("Search term must be 1-100 characters"),
 
-  query("limit")
+  field("letterGrade")
     .optional()
-    .isInt({ min: 1, max: 100 })
-    .withMessage("Limit must be between 1 and 100")
-    .toInt(),
+    .isString()
+    .custom((value: string) => {
+      const letters = splitList(value);
+      return letters.length > 0 && letters.every((letter) => letter.length <= 10);
+    })
+    .withMessage("Letter grades must be 1-10 characters each"),
+
+  field("grade")
+    .optional()
+    .custom(
+      (value) =>
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        Object.keys(value).every((operator) =>
+          ["gt", "gte", "lt", "lte"].includes(operator)
+        )
+    )
+    .withMessage("Filter grades with grade[gt], grade[gte], grade[lt] or grade[lte]"),
+
+  field(["grade.gt", "grade.gte", "grade.lt", "grade.lte"])
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Grade bounds must be numbers between 0 and 100")
+    .toFloat(),
+
+  field(["createdAfter", "createdBefore"])
+    .optional()
+    .isISO8601()
+    .withMessage("createdAfter and createdBefore must be ISO 8601 dates"),
+];
+
+// Filter, search and sort parameters shared by the list and the exports
+const validateStudentListFilters = [
+  ...studentFilterRules(query),
 
   query("sortBy")
     .optional()
-    .isIn(["created_at", "name", "subject", "grade"])
-    .withMessage("Sort field must be one of: created_at, name, subject, grade"),
+    .isString()
+    .custom((value: string) => {
+      const fields = splitList(value).map((item) => item.split(":"));
+      return (
+        fields.length > 0 &&
+        fields.length <= MAX_SORT_FIELDS &&
+        new Set(fields.map(([field]) => field)).size === fields.length &&
+        fields.every(
+          ([field, direction, ...rest]) =>
+            STUDENT_SORT_FIELDS.includes(field) &&
+            (direction === undefined || ["asc", "desc"].includes(direction)) &&
+            rest.length === 0
+        )
+      );
+    })
+    .withMessage(
+      `Sort must list up to ${MAX_SORT_FIELDS} distinct fields from ${STUDENT_SORT_FIELDS.join(
+        ", "
+      )}, each optionally followed by :asc or :desc`
+    ),
 
   query("sortOrder")
     .optional()
     .isIn(["asc", "desc"])
     .withMessage("Sort order must be asc or desc"),
 
-  query("search")
+  query("includeArchived")
     .optional()
-    .isLength({ min: 1, max: 100 })
-    .trim()
-    .escape()
-    .withMessage("Search term must be 1-100 characters"),
+    .isBoolean()
+    .withMessage("includeArchived must be true or false")
+    .toBoolean(),
+];
+
+const validateGetStudents = [
+  ...validateStudentListFilters,
+
+  query("page")
+    .optional()
+    .isInt({ min: 1, max: 1000 })
+    .withMessage("Page must be a positive integer between 1 and 1000")
+    .toInt(),
+
+  query("cursor")
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 2000 })
+    .withMessage("Cursor must be the nextCursor of a previous page")
+    .custom((_, { req }) => req.query?.page === undefined)
+    .withMessage("Use either page or cursor, not both"),
+
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100")
+    .toInt(),
+
+  query("fields")
+    .optional()
+    .isString()
+    .custom((value: string) => {
+      const fields = splitList(value);
+      return fields.length > 0 && fields.every((field) => STUDENT_LIST_FIELDS.includes(field));
+    })
+    .withMessage(`Fields must be a comma-separated list of: ${STUDENT_LIST_FIELDS.join(", ")}`),
 ];
 
 /**
- * Get students with filtering, pagination, and search
+ * Get students with filtering, pagination (by page or cursor), sorting,
+ * sparse fieldsets and search
  * @route GET /api/students
  * @access Private - requires authentication and appropriate permissions
  */
@@ -64,44 +194,34 @@ router.get(
   getStudents
 );
 
+/**
+ * Export students as CSV or XLSX; accepts the same filter, search and sort
+ * parameters as GET /students
+ * @route GET /api/students/export
+ * @access Private - requires authentication; student users only export their own record
+ */
+router.get(
+  "/export",
+  authorize([Roles.ADMIN, Roles.TEACHER, Roles.STUDENT]),
+  [
+    query("format")
+      .optional()
+      .isIn(EXPORT_FORMATS)
+      .withMessage(`Format must be one of: ${EXPORT_FORMATS.join(", ")}`),
+    ...validateStudentListFilters,
+  ],
+  exportStudents
+);
+
 // Enhanced validation middleware
 const validateCreateStudent = [
-  body("name")
-    .trim()
-    .isLength({ min: 2, max: 100 })
-    .withMessage("Name must be between 2 and 100 characters")
-    .matches(/^[a-zA-Z\s'-]+$/)
-    .withMessage(
-      "Name can only contain letters, spaces, hyphens, and apostrophes"
-    )
-    .escape(), // Prevent XSS
-
-  body("email")
-    .trim()
-    .isEmail()
-    .withMessage("Valid email is required")
-    .isLength({ max: 255 })
-    .withMessage("Email must not exceed 255 characters")
-    .normalizeEmail()
-    .custom(async (email) => {
-      // Additional email validation can be added here
-      const disposableEmailDomains = ["tempmail.org", "10minutemail.com"];
-      const domain = email.split("@")[1];
-      if (disposableEmailDomains.includes(domain)) {
-        throw new Error("Disposable email addresses are not allowed");
-      }
-      return true;
-    }),
+  ...studentFieldRules,
 
-  body("subject")
-    .trim()
-    .isIn(["Math", "Science", "English", "History"])
-    .withMessage("Subject must be one of: Math, Science, English, History"),
-
-  body("grade")
-    .isFloat({ min: 0, max: 100 })
-    .withMessage("Grade must be between 0 and 100")
-    .toFloat(),
+  body("classId")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Class ID must be a positive integer")
+    .toInt(),
 ];
 
 /**
@@ -118,47 +238,343 @@ router.post(
 );
 
 /**
- * PUT /students/:id
- * Update an existing student
+ * Bulk import students from a CSV file (header: name,email,subject,grade).
+ * Pass ?dryRun=true to preview the per-row validation report without saving.
+ * @route POST /api/students/import
+ * @access Private - requires authentication and admin/teacher role
  */
-router.put(
-  "/:id",
+router.post(
+  "/import",
   authorize([Roles.ADMIN, Roles.TEACHER]),
   [
-    body("name")
-      .optional()
-      .trim()
-      .isLength({ min: 2, max: 100 })
-      .withMessage("Name must be between 2 and 100 characters")
-      .matches(/^[a-zA-Z\s'-]+$/)
-      .withMessage("Name can only contain letters, spaces, hyphens, and apostrophes")
-      .escape(),
-    body("email")
+    query("dryRun")
       .optional()
-      .trim()
-      .isEmail()
-      .withMessage("Valid email is required")
-      .isLength({ max: 255 })
-      .withMessage("Email must not exceed 255 characters")
-      .normalizeEmail(),
-    body("subject")
+      .isBoolean()
+      .withMessage("dryRun must be true or false")
+      .toBoolean(),
+    query("classId")
       .optional()
-      .isIn(["Math", "Science", "English", "History"])
-      .withMessage("Subject must be one of: Math, Science, English, History"),
-    body("grade")
+      .isInt({ min: 1 })
+      .withMessage("Class ID must be a positive integer")
+      .toInt(),
+  ],
+  importStudents
+);
+
+const BATCH_FILTER_FIELDS = [
+  "subject",
+  "search",
+  "letterGrade",
+  "grade",
+  "createdAfter",
+  "createdBefore",
+];
+
+// Target of a batch request: explicit ids or a GET /students style filter
+const validateBatchTarget = [
+  body()
+    .custom((value) => (value?.ids === undefined) !== (value?.filter === undefined))
+    .withMessage("Provide either ids or filter"),
+
+  body("ids")
+    .optional()
+    .isArray({ min: 1, max: MAX_BATCH_SIZE })
+    .withMessage(`ids must be a list of 1-${MAX_BATCH_SIZE} student IDs`),
+
+  body("ids.*")
+    .isInt({ min: 1 })
+    .withMessage("Student IDs must be positive integers")
+    .toInt(),
+
+  body("filter")
+    .optional()
+    .isObject()
+    .custom((filter) =>
+      BATCH_FILTER_FIELDS.some((field) => filter[field] !== undefined)
+    )
+    .withMessage(`filter needs at least one of ${BATCH_FILTER_FIELDS.join(", ")}`),
+
+  ...studentFilterRules((fields) =>
+    body(
+      Array.isArray(fields)
+        ? fields.map((name) => `filter.${name}`)
+        : `filter.${fields}`
+    )
+  ),
+];
+
+/**
+ * Apply the same changes to many students at once, all or nothing.
+ * `changes.gradeDelta` shifts every current grade, e.g. to curve by +5.
+ * @route PATCH /students/batch
+ * @access Private - requires authentication and admin/teacher role
+ */
+router.patch(
+  "/batch",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [
+    ...validateBatchTarget,
+    body("changes")
+      .isObject()
+      .withMessage("changes must be an object")
+      .custom(
+        (changes) =>
+          ["name", "email", "subject", "grade", "gradeDelta"].some(
+            (field) => changes[field] !== undefined
+          )
+      )
+      .withMessage("No valid fields to update")
+      .custom((changes) => changes.grade === undefined || changes.gradeDelta === undefined)
+      .withMessage("Use either grade or gradeDelta, not both"),
+    ...studentUpdateRules("changes."),
+    body("changes.gradeDelta")
       .optional()
-      .isFloat({ min: 0, max: 100 })
-      .withMessage("Grade must be between 0 and 100")
+      .isFloat({ min: -100, max: 100 })
+      .withMessage("gradeDelta must be between -100 and 100")
       .toFloat(),
   ],
+  batchUpdateStudents
+);
+
+/**
+ * Archive many students at once, all or nothing
+ * @route POST /students/batch-delete
+ * @access Private - requires authentication and admin/teacher role
+ */
+router.post(
+  "/batch-delete",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  validateBatchTarget,
+  batchDeleteStudents
+);
+
+/**
+ * PUT /students/:id
+ * Update an existing student; a stale If-Match ETag gets 412
+ */
+router.put(
+  "/:id",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  studentUpdateRules(),
 
   updateStudent
 );
 
 /**
  * DELETE /students/:id
- * Delete a student
+ * Archive (soft-delete) a student; it can be restored until it is purged.
+ * A stale If-Match ETag gets 412
  */
 router.delete("/:id", authorize([Roles.ADMIN, Roles.TEACHER]), deleteStudent);
 
+const validateStudentId = param("id")
+  .isInt({ min: 1 })
+  .withMessage("Student ID must be a positive integer")
+  .toInt();
+
+/**
+ * Get a single student; supports If-None-Match for conditional requests
+ * @route GET /students/:id
+ * @access Private - requires authentication; student users only see their own record
+ */
+router.get(
+  "/:id",
+  authorize([Roles.ADMIN, Roles.TEACHER, Roles.STUDENT]),
+  [validateStudentId],
+  getStudent
+);
+
+/**
+ * Restore an archived student
+ * @route POST /students/:id/restore
+ * @access Private - requires authentication and admin/teacher role
+ */
+router.post(
+  "/:id/restore",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [validateStudentId],
+  restoreStudent
+);
+
+/**
+ * Permanently delete students archived longer than the retention period
+ * @route POST /students/purge
+ * @access Private - admin only
+ */
+router.post(
+  "/purge",
+  authorize([Roles.ADMIN]),
+  [
+    body("retentionDays")
+      .optional()
+      .isInt({ min: 0, max: 3650 })
+      .withMessage("Retention days must be between 0 and 3650")
+      .toInt(),
+  ],
+  purgeStudents
+);
+
+/**
+ * Invite a student to create a login account using the email on their record
+ * @route POST /students/:id/invite
+ * @access Private - requires authentication and admin/teacher role
+ */
+router.post(
+  "/:id/invite",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [validateStudentId],
+  inviteStudent
+);
+
+/**
+ * Link an existing student-role user to a student record
+ * @route PUT /students/:id/account
+ * @access Private - requires authentication and admin/teacher role
+ */
+router.put(
+  "/:id/account",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [
+    validateStudentId,
+    body("userId")
+      .isInt({ min: 1 })
+      .withMessage("User ID must be a positive integer")
+      .toInt(),
+  ],
+  linkStudentAccount
+);
+
+/**
+ * Unlink the login account from a student record
+ * @route DELETE /students/:id/account
+ * @access Private - requires authentication and admin/teacher role
+ */
+router.delete(
+  "/:id/account",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [validateStudentId],
+  unlinkStudentAccount
+);
+
+/**
+ * Get every individual score of a student and their weighted grade breakdown
+ * @route GET /students/:id/scores
+ * @access Private - requires authentication; student users only see their own record
+ */
+router.get(
+  "/:id/scores",
+  authorize([Roles.ADMIN, Roles.TEACHER, Roles.STUDENT]),
+  [
+    validateStudentId,
+    query("categoryId")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Category ID must be a positive integer")
+      .toInt(),
+    query("from")
+      .optional()
+      .isISO8601({ strict: true })
+      .withMessage("from must be a valid date (YYYY-MM-DD)"),
+    query("to")
+      .optional()
+      .isISO8601({ strict: true })
+      .withMessage("to must be a valid date (YYYY-MM-DD)"),
+  ],
+  getStudentScores
+);
+
+/**
+ * Download a printable PDF report card for a student
+ * @route GET /students/:id/report-card
+ * @access Private - requires authentication; student users only see their own record
+ */
+router.get(
+  "/:id/report-card",
+  authorize([Roles.ADMIN, Roles.TEACHER, Roles.STUDENT]),
+  [validateStudentId],
+  getReportCard
+);
+
+/**
+ * Get the change history of a student record, newest first
+ * @route GET /students/:id/history
+ * @access Private - requires authentication and admin/teacher role
+ */
+router.get(
+  "/:id/history",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [
+    validateStudentId,
+    query("page")
+      .optional()
+      .isInt({ min: 1, max: 1000 })
+      .withMessage("Page must be a positive integer between 1 and 1000")
+      .toInt(),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("Limit must be between 1 and 100")
+      .toInt(),
+  ],
+  getStudentHistory
+);
+
+/**
+ * Get a student's attendance records and attendance rate
+ * @route GET /students/:id/attendance
+ * @access Private - requires authentication; student users only see their own record
+ */
+router.get(
+  "/:id/attendance",
+  authorize([Roles.ADMIN, Roles.TEACHER, Roles.STUDENT]),
+  [
+    validateStudentId,
+    query("from")
+      .optional()
+      .isISO8601({ strict: true })
+      .withMessage("from must be a valid date (YYYY-MM-DD)"),
+    query("to")
+      .optional()
+      .isISO8601({ strict: true })
+      .withMessage("to must be a valid date (YYYY-MM-DD)"),
+  ],
+  getStudentAttendance
+);
+
+/**
+ * Get how a student's attendance was recorded and corrected, newest first
+ * @route GET /students/:id/attendance/history
+ * @access Private - requires authentication and admin/teacher role
+ */
+router.get(
+  "/:id/attendance/history",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [
+    validateStudentId,
+    query("page")
+      .optional()
+      .isInt({ min: 1, max: 1000 })
+      .withMessage("Page must be a positive integer between 1 and 1000")
+      .toInt(),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("Limit must be between 1 and 100")
+      .toInt(),
+  ],
+  getAttendanceHistory
+);
+
+/**
+ * Record or correct a student's attendance for one day
+ * @route PUT /students/:id/attendance/:date
+ * @access Private - requires authentication and admin/teacher role
+ */
+router.put(
+  "/:id/attendance/:date",
+  authorize([Roles.ADMIN, Roles.TEACHER]),
+  [validateStudentId, ...attendanceRules],
+  recordStudentAttendance
+);
+
 export default router;
@@ -0,0 +1,99 @@
+import express from "express";
+import { body, param } from "express-validator";
+import { authenticateToken } from "../middleware/auth";
+import { userRateLimit } from "../middleware/rateLimit";
+import { Roles } from "../types/enums";
+import { authorize } from "../middleware/authorization";
+import { csrfProtection } from "../middleware/csrf";
+import { idempotency } from "../middleware/idempotency";
+import {
+  createSubject,
+  deleteSubject,
+  getSubjects,
+  updateSubject,
+} from "../controllers/subject";
+import { setSubjectGradingScale } from "../controllers/gradingScale";
+import { gradingScaleAssignmentRule } from "../validators/gradingScale";
+
+const router = express.Router();
+
+// Apply authentication middleware to all subject routes
+router.use(authenticateToken);
+router.use(userRateLimit);
+router.use(csrfProtection);
+router.use(idempotency);
+
+const validateSubjectId = param("id")
+  .isInt({ min: 1 })
+  .withMessage("Subject ID must be a positive integer")
+  .toInt();
+
+const validateSubjectName = body("name")
+  .trim()
+  .isLength({ min: 2, max: 50 })
+  .withMessage("Name must be between 2 and 50 characters")
+  .matches(/^[a-zA-Z0-9\s&'-]+$/)
+  .withMessage(
+    "Name can only contain letters, numbers, spaces, hyphens, ampersands and apostrophes"
+  );
+
+/**
+ * List the subject catalog
+ * @route GET /subjects
+ * @access Private - requires authentication
+ */
+router.get(
+  "/",
+  authorize([Roles.ADMIN, Roles.TEACHER, Roles.STUDENT]),
+  getSubjects
+);
+
+/**
+ * Add a subject to the catalog
+ * @route POST /subjects
+ * @access Private - admin only
+ */
+router.post(
+  "/",
+  authorize([Roles.ADMIN]),
+  [validateSubjectName],
+  createSubject
+);
+
+/**
+ * Rename a subject (applied to every record using it)
+ * @route PUT /subjects/:id
+ * @access Private - admin only
+ */
+router.put(
+  "/:id",
+  authorize([Roles.ADMIN]),
+  [validateSubjectId, validateSubjectName],
+  updateSubject
+);
+
+/**
+ * Remove an unused subject from the catalog
+ * @route DELETE /subjects/:id
+ * @access Private - admin only
+ */
+router.delete(
+  "/:id",
+  authorize([Roles.ADMIN]),
+  [validateSubjectId],
+  deleteSubject
+);
+
+/**
+ * Assign a grading scale to a subject (null to use the default scale)
+ * @route PUT /subjects/:id/grading-scale
+ * @access Private - admin only
+ */
+router.put(
+  "/:id/grading-scale",
+  authorize([Roles.ADMIN]),
+  [validateSubjectId, gradingScaleAssignmentRule],
+  setSubjectGradingScale
+);
+
+export default router;
@@ -0,0 +1,146 @@
+import express from "express";
+import { body, param, query } from "express-validator";
+import { authenticateToken } from "../middleware/auth";
+import { userRateLimit } from "../middleware/rateLimit";
+import { Roles } from "../types/enums";
+import { authorize } from "../middleware/authorization";
+import { csrfProtection } from "../middleware/csrf";
+import { idempotency } from "../middleware/idempotency";
+import {
+  createUser,
+  getUsers,
+  revokeSessions,
+  updateUserRole,
+  updateUserStatus,
+} from "../controllers/user";
+
+const router = express.Router();
+
+// Apply authentication middleware to all user routes
+router.use(authenticateToken);
+router.use(userRateLimit);
+router.use(csrfProtection);
+router.use(idempotency);
+
+const ROLE_VALUES = Object.values(Roles);
+
+const validateUserId = param("id")
+  .isInt({ min: 1 })
+  .withMessage("User ID must be a positive integer")
+  .toInt();
+
+// Validation middleware
+const validateGetUsers = [
+  query("role")
+    .optional()
+    .isIn(ROLE_VALUES)
+    .withMessage(`Role must be one of: ${ROLE_VALUES.join(", ")}`),
+
+  query("active")
+    .optional()
+    .isBoolean()
+    .withMessage("Active must be true or false")
+    .toBoolean(),
+
+  query("page")
+    .optional()
+    .isInt({ min: 1, max: 1000 })
+    .withMessage("Page must be a positive integer between 1 and 1000")
+    .toInt(),
+
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100")
+    .toInt(),
+];
+
+const validateCreateUser = [
+  body("username")
+    .trim()
+    .isLength({ min: 3, max: 50 })
+    .withMessage("Username must be between 3 and 50 characters")
+    .matches(/^[a-zA-Z0-9._@-]+$/)
+    .withMessage(
+      "Username can only contain letters, numbers, dots, underscores, hyphens and @"
+    ),
+
+  body("email")
+    .optional()
+    .trim()
+    .isEmail()
+    .withMessage("Valid email is required")
+    .isLength({ max: 255 })
+    .withMessage("Email must not exceed 255 characters")
+    .normalizeEmail(),
+
+  body("password")
+    .isLength({ min: 8, max: 128 })
+    .withMessage("Password must be between 8 and 128 characters"),
+
+  body("role")
+    .isIn(ROLE_VALUES)
+    .withMessage(`Role must be one of: ${ROLE_VALUES.join(", ")}`),
+];
+
+/**
+ * List user accounts
+ * @route GET /users
+ * @access Private - admin only
+ */
+router.get("/", authorize([Roles.ADMIN]), validateGetUsers, getUsers);
+
+/**
+ * Register a new user account
+ * @route POST /users
+ * @access Private - admin only
+ */
+router.post("/", authorize([Roles.ADMIN]), validateCreateUser, createUser);
+
+/**
+ * Change the role of a user
+ * @route PATCH /users/:id/role
+ * @access Private - admin only
+ */
+router.patch(
+  "/:id/role",
+  authorize([Roles.ADMIN]),
+  [
+    validateUserId,
+    body("role")
+      .isIn(ROLE_VALUES)
+      .withMessage(`Role must be one of: ${ROLE_VALUES.join(", ")}`),
+  ],
+  updateUserRole
+);
+
+/**
+ * Enable or disable a user account
+ * @route PATCH /users/:id/status
+ * @access Private - admin only
+ */
+router.patch(
+  "/:id/status",
+  authorize([Roles.ADMIN]),
+  [
+    validateUserId,
+    body("active")
+      .isBoolean({ strict: true })
+      .withMessage("Active must be a boolean"),
+  ],
+  updateUserStatus
+);
+
+/**
+ * Revoke every active session of a user (forces logout everywhere)
+ * @route POST /users/:id/revoke-sessions
+ * @access Private - admin only
+ */
+router.post(
+  "/:id/revoke-sessions",
+  authorize([Roles.ADMIN]),
+  [validateUserId],
+  revokeSessions
+);
+
+export default router;
@@ -0,0 +1,132 @@
+import express from "express";
+import { param, query } from "express-validator";
+import { authenticateToken } from "../middleware/auth";
+import { userRateLimit } from "../middleware/rateLimit";
+import { Roles } from "../types/enums";
+import { authorize } from "../middleware/authorization";
+import { csrfProtection } from "../middleware/csrf";
+import { idempotency } from "../middleware/idempotency";
+import { createWebhookRules, updateWebhookRules } from "../validators/webhook";
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhook,
+  getWebhookDeliveries,
+  listWebhooks,
+  pingWebhook,
+  redeliverWebhookDelivery,
+  updateWebhook,
+} from "../controllers/webhook";
+
+const router = express.Router();
+
+// Apply authentication middleware to all webhook routes
+router.use(authenticateToken);
+router.use(userRateLimit);
+router.use(csrfProtection);
+router.use(idempotency);
+
+const validateWebhookId = param("id")
+  .isInt({ min: 1 })
+  .withMessage("Webhook ID must be a positive integer")
+  .toInt();
+
+const validateGetDeliveries = [
+  validateWebhookId,
+
+  query("status")
+    .optional()
+    .isIn(["pending", "succeeded", "failed"])
+    .withMessage("Status must be one of: pending, succeeded, failed"),
+
+  query("page")
+    .optional()
+    .isInt({ min: 1, max: 1000 })
+    .withMessage("Page must be a positive integer between 1 and 1000")
+    .toInt(),
+
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100")
+    .toInt(),
+];
+
+/**
+ * List webhooks
+ * @route GET /webhooks
+ * @access Private - admin only
+ */
+router.get("/", authorize([Roles.ADMIN]), listWebhooks);
+
+/**
+ * Subscribe a URL to student events; the response holds the signing secret
+ * @route POST /webhooks
+ * @access Private - admin only
+ */
+router.post("/", authorize([Roles.ADMIN]), createWebhookRules, createWebhook);
+
+/**
+ * Get a webhook
+ * @route GET /webhooks/:id
+ * @access Private - admin only
+ */
+router.get("/:id", authorize([Roles.ADMIN]), [validateWebhookId], getWebhook);
+
+/**
+ * Change a webhook, disable it or rotate its secret
+ * @route PUT /webhooks/:id
+ * @access Private - admin only
+ */
+router.put(
+  "/:id",
+  authorize([Roles.ADMIN]),
+  [validateWebhookId, ...updateWebhookRules],
+  updateWebhook
+);
+
+/**
+ * Delete a webhook and its delivery log
+ * @route DELETE /webhooks/:id
+ * @access Private - admin only
+ */
+router.delete("/:id", authorize([Roles.ADMIN]), [validateWebhookId], deleteWebhook);
+
+/**
+ * Send a test delivery and return its outcome
+ * @route POST /webhooks/:id/ping
+ * @access Private - admin only
+ */
+router.post("/:id/ping", authorize([Roles.ADMIN]), [validateWebhookId], pingWebhook);
+
+/**
+ * Delivery log of a webhook, newest first
+ * @route GET /webhooks/:id/deliveries
+ * @access Private - admin only
+ */
+router.get(
+  "/:id/deliveries",
+  authorize([Roles.ADMIN]),
+  validateGetDeliveries,
+  getWebhookDeliveries
+);
+
+/**
+ * Send a delivery again with the same payload
+ * @route POST /webhooks/:id/deliveries/:deliveryId/redeliver
+ * @access Private - admin only
+ */
+router.post(
+  "/:id/deliveries/:deliveryId/redeliver",
+  authorize([Roles.ADMIN]),
+  [
+    validateWebhookId,
+    param("deliveryId")
+      .isInt({ min: 1 })
+      .withMessage("Delivery ID must be a positive integer")
+      .toInt(),
+  ],
+  redeliverWebhookDelivery
+);
+
+export default router;
@@ -0,0 +1,275 @@
+import { Database } from "../database/init";
+import {
+  Analytics,
+  GradeDistribution,
+  GradeStatistics,
+  StudentPercentile,
+} from "../types";
+import { StudentScope } from "./studentScope";
+import { getSubjectNames } from "./subjects";
+import { findAtRiskStudents } from "./atRisk";
+import { GRADE_SCALE_COLUMNS, LETTER_GRADE_SQL } from "./gradingScales";
+import { ATTENDANCE_RATE_COLUMNS, attendanceRate } from "./attendance";
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export interface AnalyticsFilters {
+  limit?: number;
+  subject?: string;
+  includeArchived?: boolean;
+}
+
+/**
+ * WHERE clause shared by the analytics queries: the caller's scope, the
+ * optional subject and, unless asked for, only students that are not archived
+ */
+export const buildAnalyticsWhere = (
+  scope: StudentScope,
+  { subject, includeArchived = false }: AnalyticsFilters
+): { where: string; params: any[] } => {
+  const params: any[] = [];
+  const conditions: string[] = [];
+
+  if (!includeArchived) conditions.push("archived_at IS NULL");
+
+  if (scope.condition) {
+    conditions.push(scope.condition);
+    params.push(...scope.params);
+  }
+
+  // Apply subject filter if provided
+  if (subject) {
+    conditions.push("subject = ?");
+    params.push(subject);
+  }
+
+  return {
+    where: conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "",
+    params,
+  };
+};
+
+/**
+ * Student totals, per-subject averages and attendance rates and recent
+ * additions over the students matched by `scope` and the optional subject
+ * filter.
+ */
+export const computeAnalytics = async (
+  db: Database,
+  scope: StudentScope,
+  { limit = 10, subject, includeArchived = false }: AnalyticsFilters
+): Promise<Analytics> => {
+  // Build dynamic queries based on filters
+  const { where, params } = buildAnalyticsWhere(scope, { subject, includeArchived });
+  const studentCountQuery = `SELECT COUNT(*) as count FROM students${where}`;
+  const averageQuery = `SELECT subject, AVG(grade) as average, AVG(gpa_points) as average_gpa
+    FROM (SELECT subject, grade, ${GRADE_SCALE_COLUMNS} FROM students${where})
+    GROUP BY subject`;
+  const letterQuery = `SELECT letter_grade, COUNT(*) as count
+    FROM (SELECT ${LETTER_GRADE_SQL} AS letter_grade FROM students${where})
+    GROUP BY letter_grade`;
+  const recentQuery = `SELECT id, name, email, subject, grade, created_at, archived_at, ${GRADE_SCALE_COLUMNS} FROM students${where} ORDER BY created_at DESC LIMIT ?`;
+  const attendanceQuery = `SELECT s.subject, ${ATTENDANCE_RATE_COLUMNS}
+    FROM attendance_records ar
+    JOIN (SELECT id, subject FROM students${where}) s ON s.id = ar.student_id
+    GROUP BY s.subject`;
+
+  // Execute queries in parallel for better performance
+  const [
+    totalResult,
+    averageBySubject,
+    letterCounts,
+    recentAdditions,
+    subjects,
+    atRisk,
+    attendanceBySubject,
+  ] = await Promise.all([
+    db.get(studentCountQuery, params),
+    db.all(averageQuery, params),
+    db.all(letterQuery, params),
+    db.all(recentQuery, [...params, limit]),
+    getSubjectNames(),
+    findAtRiskStudents(db, scope, { subject }),
+    db.all(attendanceQuery, params),
+  ]);
+
+  // Group by the subject catalog so subjects without students still appear
+  const averageGradeBySubject: Analytics["averageGradeBySubject"] = {};
+  const averageGpaBySubject: Analytics["averageGpaBySubject"] = {};
+  const attendanceRateBySubject: Analytics["attendanceRateBySubject"] = {};
+  subjects
+    .filter((name) => !subject || name === subject)
+    .forEach((name) => {
+      averageGradeBySubject[name] = null;
+      averageGpaBySubject[name] = null;
+      attendanceRateBySubject[name] = null;
+    });
+  averageBySubject.forEach((row) => {
+    averageGradeBySubject[row.subject] = round(row.average);
+    averageGpaBySubject[row.subject] =
+      row.average_gpa === null ? null : round(row.average_gpa);
+  });
+
+  let attended = 0;
+  let counted = 0;
+  attendanceBySubject.forEach((row) => {
+    attendanceRateBySubject[row.subject] = attendanceRate(row.attended, row.counted);
+    attended += row.attended;
+    counted += row.counted;
+  });
+
+  const letterGradeDistribution: Analytics["letterGradeDistribution"] = {};
+  letterCounts.forEach((row) => {
+    if (row.letter_grade !== null) letterGradeDistribution[row.letter_grade] = row.count;
+  });
+
+  return {
+    totalStudents: totalResult?.count || 0,
+    averageGradeBySubject,
+    averageGpaBySubject,
+    letterGradeDistribution,
+    recentAdditions,
+    atRiskCount: atRisk.length,
+    attendanceRate: attendanceRate(attended, counted),
+    attendanceRateBySubject,
+  };
+};
+
+/**
+ * Summary statistics, histogram and letter-grade counts for a set of grades
+ * and the letters their grading scales give them
+ */
+export const summarizeGrades = (
+  rows: { grade: number; letter_grade: string | null }[],
+  bucketSize = 10
+): GradeStatistics => {
+  const sorted = rows.map((row) => row.grade).sort((a, b) => a - b);
+  const count = sorted.length;
+
+  const histogram: GradeStatistics["histogram"] = [];
+  for (let from = 0; from < 100; from += bucketSize)
+    histogram.push({ from, to: Math.min(from + bucketSize, 100), count: 0 });
+
+  sorted.forEach((grade) => {
+    histogram[Math.min(Math.floor(grade / bucketSize), histogram.length - 1)]
+      .count++;
+  });
+
+  const letterGrades: GradeStatistics["letterGrades"] = {};
+  rows.forEach(({ letter_grade }) => {
+    if (letter_grade !== null)
+      letterGrades[letter_grade] = (letterGrades[letter_grade] || 0) + 1;
+  });
+
+  if (count === 0)
+    return {
+      count,
+      mean: null,
+      median: null,
+      standardDeviation: null,
+      min: null,
+      max: null,
+      histogram,
+      letterGrades,
+    };
+
+  const mean = sorted.reduce((sum, grade) => sum + grade, 0) / count;
+  const middle = Math.floor(count / 2);
+  const median =
+    count % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  const variance =
+    sorted.reduce((sum, grade) => sum + (grade - mean) ** 2, 0) / count;
+
+  return {
+    count,
+    mean: round(mean),
+    median: round(median),
+    standardDeviation: round(Math.sqrt(variance)),
+    min: sorted[0],
+    max: sorted[count - 1],
+    histogram,
+    letterGrades,
+  };
+};
+
+/**
+ * Grade statistics over the students matched by `scope` and the filters,
+ * overall and for every subject in the catalog
+ */
+export const computeDistribution = async (
+  db: Database,
+  scope: StudentScope,
+  filters: AnalyticsFilters,
+  bucketSize = 10
+): Promise<GradeDistribution> => {
+  const { where, params } = buildAnalyticsWhere(scope, filters);
+  const [rows, subjects] = await Promise.all([
+    db.all(
+      `SELECT subject, grade, ${LETTER_GRADE_SQL} AS letter_grade FROM students${where}`,
+      params
+    ),
+    getSubjectNames(),
+  ]);
+
+  const rowsBySubject = new Map<string, typeof rows>();
+  subjects
+    .filter((name) => !filters.subject || name === filters.subject)
+    .forEach((name) => rowsBySubject.set(name, []));
+  rows.forEach((row) => {
+    if (!rowsBySubject.has(row.subject)) rowsBySubject.set(row.subject, []);
+    rowsBySubject.get(row.subject)!.push(row);
+  });
+
+  const bySubject: GradeDistribution["bySubject"] = {};
+  rowsBySubject.forEach((subjectRows, name) => {
+    bySubject[name] = summarizeGrades(subjectRows, bucketSize);
+  });
+
+  return {
+    overall: summarizeGrades(rows, bucketSize),
+    bySubject,
+  };
+};
+
+/**
+ * Percentile rank of each student in `scope` within their subject, measured
+ * against the other students of the subject in the same scope. Students
+ * outside it are left out, so neither their number nor their grades can be
+ * inferred from the ranks.
+ */
+export const computePercentiles = async (
+  db: Database,
+  scope: StudentScope,
+  filters: AnalyticsFilters
+): Promise<StudentPercentile[]> => {
+  const { where, params } = buildAnalyticsWhere(scope, filters);
+
+  const students = await db.all(
+    `SELECT id, name, subject, grade FROM students${where} ORDER BY subject, grade DESC, name`,
+    params
+  );
+
+  // Visible grades of each subject
+  const gradesBySubject = new Map<string, number[]>();
+  students.forEach((row) => {
+    if (!gradesBySubject.has(row.subject)) gradesBySubject.set(row.subject, []);
+    gradesBySubject.get(row.subject)!.push(row.grade);
+  });
+
+  return students.map((student) => {
+    const grades = gradesBySubject.get(student.subject) || [student.grade];
+    const below = grades.filter((grade) => grade < student.grade).length;
+    const equal = grades.filter((grade) => grade === student.grade).length;
+    const above = grades.length - below - equal;
+
+    return {
+      id: student.id,
+      name: student.name,
+      subject: student.subject,
+      grade: student.grade,
+      percentile: round(((below + equal / 2) / grades.length) * 100),
+      rank: above + 1,
+      subjectSize: grades.length,
+    };
+  });
+};
@@ -0,0 +1,167 @@
+import { Database, getDatabase } from "../database/init";
+import { config } from "../config";
+import { AtRiskRule, AtRiskStudent } from "../types";
+import { buildAnalyticsWhere } from "./analytics";
+import { StudentScope } from "./studentScope";
+import { subscribeToStudentEvents } from "./events";
+
+/**
+ * The rule in force for every subject of the catalog: its own thresholds or
+ * the configured defaults.
+ */
+export const getAtRiskRules = async (db: Database): Promise<AtRiskRule[]> => {
+  const rows = await db.all(
+    `SELECT sub.id, sub.name, r.min_grade, r.max_drop
+       FROM subjects sub
+       LEFT JOIN at_risk_rules r ON r.subject_id = sub.id
+      ORDER BY sub.name ASC`
+  );
+
+  return rows.map((row) => ({
+    subjectId: row.id,
+    subject: row.name,
+    minGrade: row.min_grade ?? config.atRisk.minGrade,
+    maxDrop: row.max_drop ?? config.atRisk.maxDrop,
+    isDefault: row.min_grade === null,
+  }));
+};
+
+/**
+ * Students in `scope` whose grade is below their subject's minimum or fell
+ * by at least its maximum drop in the most recent grade change, lowest
+ * grade first. Archived students are never flagged.
+ */
+export const findAtRiskStudents = async (
+  db: Database,
+  scope: StudentScope,
+  { subject }: { subject?: string } = {}
+): Promise<AtRiskStudent[]> => {
+  const { where, params } = buildAnalyticsWhere(scope, { subject });
+
+  const [rules, students, previousGrades] = await Promise.all([
+    getAtRiskRules(db),
+    db.all(
+      `SELECT id, name, subject, grade FROM students${where} ORDER BY grade ASC, name ASC`,
+      params
+    ),
+    // Grade before the latest logged grade change of each student
+    db.all(
+      `SELECT a.entity_id, json_extract(a.before_data, '$.grade') AS previous_grade
+         FROM audit_log a
+         JOIN (SELECT entity_id, MAX(id) AS id
+                 FROM audit_log
+                WHERE entity_type = 'student'
+                  AND action = 'update'
+                  AND json_extract(after_data, '$.grade') IS NOT NULL
+                GROUP BY entity_id) latest ON latest.id = a.id
+        WHERE a.entity_id IN (SELECT id FROM students${where})`,
+      params
+    ),
+  ]);
+
+  const rulesBySubject = new Map(rules.map((rule) => [rule.subject, rule]));
+  const previousById = new Map<number, number>(
+    previousGrades.map((row) => [row.entity_id, row.previous_grade])
+  );
+
+  const flagged: AtRiskStudent[] = [];
+  students.forEach((student) => {
+    const rule = rulesBySubject.get(student.subject) ?? {
+      minGrade: config.atRisk.minGrade,
+      maxDrop: config.atRisk.maxDrop,
+    };
+    const previousGrade = previousById.get(student.id) ?? null;
+    const reasons: AtRiskStudent["reasons"] = [];
+
+    if (student.grade < rule.minGrade)
+      reasons.push({ reason: "low_grade", threshold: rule.minGrade });
+
+    if (previousGrade !== null && previousGrade - student.grade >= rule.maxDrop)
+      reasons.push({ reason: "grade_drop", threshold: rule.maxDrop });
+
+    if (reasons.length > 0) flagged.push({ ...student, previousGrade, reasons });
+  });
+
+  return flagged;
+};
+
+/**
+ * Add an alert to the inbox of every teacher with a flagged student in one
+ * of their classes, unless they were already alerted at the student's
+ * current grade. Returns how many alerts were added.
+ */
+export const syncStudentAlerts = async (db: Database): Promise<number> => {
+  const flagged = await findAtRiskStudents(db, { params: [] });
+
+  return db.withTransaction(async () => {
+    let added = 0;
+
+    for (const student of flagged) {
+      for (const { reason, threshold } of student.reasons) {
+        const result = await db.run(
+          `INSERT OR IGNORE INTO student_alerts
+             (teacher_id, student_id, reason, grade, previous_grade, threshold)
+           SELECT DISTINCT c.teacher_id, ?, ?, ?, ?, ?
+             FROM enrollments e
+             JOIN classes c ON c.id = e.class_id
+            WHERE e.student_id = ?`,
+          [student.id, reason, student.grade, student.previousGrade, threshold, student.id]
+        );
+        added += result.changes;
+      }
+    }
+
+    return added;
+  });
+};
+
+let syncing = false;
+let syncAgain = false;
+
+/**
+ * Bring the alert inboxes up to date in the background. Call it after a
+ * change that may move grades has been committed; requests made while a
+ * sync is running are folded into one more run.
+ */
+export const requestAlertSync = (): void => {
+  if (syncing) {
+    syncAgain = true;
+    return;
+  }
+
+  syncing = true;
+  void (async () => {
+    try {
+      do {
+        syncAgain = false;
+        await syncStudentAlerts(getDatabase());
+      } while (syncAgain);
+    } catch (error) {
+      console.error("At-risk alert sync failed:", error);
+    } finally {
+      syncing = false;
+    }
+  })();
+};
+
+/**
+ * Sync the alert inboxes at startup, after every student event and every
+ * `config.atRisk.alertSyncSeconds`, which also picks up rule, class and
+ * enrollment changes. Returns a function that stops it.
+ */
+export const scheduleAlertSync = (): (() => void) => {
+  const unsubscribe = subscribeToStudentEvents(() => requestAlertSync());
+
+  requestAlertSync();
+  const { alertSyncSeconds } = config.atRisk;
+  const timer =
+    alertSyncSeconds > 0 ? setInterval(requestAlertSync, alertSyncSeconds * 1000) : undefined;
+
+  // Never keep the process alive just for the sync
+  timer?.unref();
+
+  return () => {
+    unsubscribe();
+    clearInterval(timer);
+  };
+};
@@ -0,0 +1,111 @@
+import { Database } from "../database/init";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { AttendanceRecord, AttendanceStatus, AttendanceSummary } from "../types";
+import { recordAudit } from "./audit";
+
+export const ATTENDANCE_STATUSES: AttendanceStatus[] = [
+  "present",
+  "absent",
+  "late",
+  "excused",
+];
+
+export const ATTENDANCE_SELECT = `
+  SELECT id, student_id, date, status, note, class_id, recorded_by, created_at, updated_at
+    FROM attendance_records`;
+
+export interface AttendanceEntry {
+  studentId: number;
+  date: string;
+  status: AttendanceStatus;
+  note?: string | null;
+  classId?: number | null;
+}
+
+export type AttendanceChange = "created" | "corrected" | "unchanged";
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Present or late days as a percentage of the days that were not excused
+ */
+export const attendanceRate = (attended: number, counted: number): number | null =>
+  counted === 0 ? null : round((attended * 100) / counted);
+
+// Aggregates for attendanceRate over attendance_records aliased as `ar`
+export const ATTENDANCE_RATE_COLUMNS = `
+  SUM(CASE WHEN ar.status IN ('present', 'late') THEN 1 ELSE 0 END) AS attended,
+  SUM(CASE WHEN ar.status != 'excused' THEN 1 ELSE 0 END) AS counted`;
+
+export const summarizeAttendance = (
+  records: { status: AttendanceStatus }[]
+): AttendanceSummary => {
+  const counts = { present: 0, absent: 0, late: 0, excused: 0 };
+  records.forEach(({ status }) => counts[status]++);
+
+  return {
+    ...counts,
+    rate: attendanceRate(
+      counts.present + counts.late,
+      records.length - counts.excused
+    ),
+  };
+};
+
+/**
+ * Record a student's attendance for a day, or correct the existing record.
+ * Corrections are written to the audit log with `reason`, so call this
+ * inside the transaction that saves the day.
+ */
+export const saveAttendance = async (
+  db: Database,
+  actor: AuthenticatedRequest["user"],
+  { studentId, date, status, note = null, classId = null }: AttendanceEntry,
+  reason?: string
+): Promise<{ record: AttendanceRecord; change: AttendanceChange }> => {
+  const existing: AttendanceRecord | undefined = await db.get(
+    `${ATTENDANCE_SELECT} WHERE student_id = ? AND date = ?`,
+    [studentId, date]
+  );
+
+  if (!existing) {
+    const result = await db.run(
+      `INSERT INTO attendance_records (student_id, date, status, note, class_id, recorded_by)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [studentId, date, status, note, classId, actor?.id ?? null]
+    );
+    const record = await db.get(`${ATTENDANCE_SELECT} WHERE id = ?`, [result.lastID]);
+
+    await recordAudit(db, actor, {
+      entityType: "attendance",
+      entityId: record.id,
+      action: "create",
+      after: record,
+      reason,
+    });
+    return { record, change: "created" };
+  }
+
+  if (existing.status === status && existing.note === note)
+    return { record: existing, change: "unchanged" };
+
+  await db.run(
+    `UPDATE attendance_records
+        SET status = ?, note = ?, class_id = COALESCE(?, class_id), recorded_by = ?,
+            updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?`,
+    [status, note, classId, actor?.id ?? null, existing.id]
+  );
+  const record = await db.get(`${ATTENDANCE_SELECT} WHERE id = ?`, [existing.id]);
+
+  // The date stays in both versions so each history entry names its day
+  await recordAudit(db, actor, {
+    entityType: "attendance",
+    entityId: existing.id,
+    action: "update",
+    before: { date: existing.date, status: existing.status, note: existing.note },
+    after: { date: record.date, status: record.status, note: record.note },
+    reason,
+  });
+  return { record, change: "corrected" };
+};
@@ -0,0 +1,88 @@
+import { Database } from "../database/init";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { AuditAction, AuditLogEntry } from "../types";
+
+export type AuditEntityType = "student" | "attendance";
+
+export interface AuditRecord {
+  entityType: AuditEntityType;
+  entityId: number;
+  action: AuditAction;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  // Why the change happened when it was not a direct edit, e.g. "import"
+  reason?: string;
+}
+
+export const AUDIT_SELECT = `
+  SELECT id, entity_type, entity_id, action, actor_id, actor_username,
+         reason, before_data, after_data, created_at
+    FROM audit_log`;
+
+/**
+ * Append an entry to the audit log. Call it inside the transaction that makes
+ * the change so the record and its history are committed or rolled back
+ * together.
+ */
+export const recordAudit = async (
+  db: Database,
+  actor: AuthenticatedRequest["user"],
+  { entityType, entityId, action, before = null, after = null, reason }: AuditRecord
+): Promise<void> => {
+  await db.run(
+    `INSERT INTO audit_log
+       (entity_type, entity_id, action, actor_id, actor_username, reason, before_data, after_data, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      entityType,
+      entityId,
+      action,
+      actor?.id ?? null,
+      actor?.username ?? null,
+      reason ?? null,
+      before ? JSON.stringify(before) : null,
+      after ? JSON.stringify(after) : null,
+      new Date().toISOString(),
+    ]
+  );
+};
+
+/**
+ * Record an update with only the fields whose value actually changed.
+ * Nothing is written when the two versions are identical.
+ */
+export const recordUpdateAudit = async (
+  db: Database,
+  actor: AuthenticatedRequest["user"],
+  entityType: AuditEntityType,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  reason?: string
+): Promise<void> => {
+  const changed = Object.keys(after).filter(
+    (field) => field in before && before[field] !== after[field]
+  );
+  if (changed.length === 0) return;
+
+  await recordAudit(db, actor, {
+    entityType,
+    entityId: Number(after.id ?? before.id),
+    action: "update",
+    before: Object.fromEntries(changed.map((field) => [field, before[field]])),
+    after: Object.fromEntries(changed.map((field) => [field, after[field]])),
+    reason,
+  });
+};
+
+export const toAuditLogEntry = (row: any): AuditLogEntry => ({
+  id: row.id,
+  entity_type: row.entity_type,
+  entity_id: row.entity_id,
+  action: row.action,
+  actor_id: row.actor_id,
+  actor_username: row.actor_username,
+  reason: row.reason,
+  before: row.before_data ? JSON.parse(row.before_data) : null,
+  after: row.after_data ? JSON.parse(row.after_data) : null,
+  created_at: row.created_at,
+});
@@ -0,0 +1,60 @@
+import crypto from "crypto";
+import { CookieOptions, Response } from "express";
+import { config } from "../config";
+import { IssuedTokens } from "./session";
+
+export const AUTH_COOKIE = "auth_token";
+export const REFRESH_COOKIE = "refresh_token";
+export const CSRF_COOKIE = "csrf_token";
+
+// The refresh token is only ever needed by the /auth endpoints
+const REFRESH_COOKIE_PATH = "/auth";
+
+const baseOptions = (): CookieOptions => ({
+  secure: config.cookies.secure,
+  sameSite: config.cookies.sameSite,
+});
+
+/**
+ * Store a freshly issued token pair in httpOnly cookies, together with a
+ * readable CSRF token for the double-submit check. Returns the CSRF token so
+ * it can also be sent in the response body for cross-origin clients that
+ * cannot read the API's cookies.
+ */
+export const setAuthCookies = (res: Response, tokens: IssuedTokens): string => {
+  const csrfToken = crypto.randomBytes(32).toString("hex");
+  const refreshExpires = new Date(tokens.refreshTokenExpiresAt);
+
+  res.cookie(AUTH_COOKIE, tokens.token, {
+    ...baseOptions(),
+    httpOnly: true,
+    path: "/",
+    // Keep the cookie as long as the session; the JWT inside enforces its
+    // own shorter expiry and the client refreshes it via /auth/refresh
+    expires: refreshExpires,
+  });
+
+  res.cookie(REFRESH_COOKIE, tokens.refreshToken, {
+    ...baseOptions(),
+    httpOnly: true,
+    path: REFRESH_COOKIE_PATH,
+    expires: refreshExpires,
+  });
+
+  res.cookie(CSRF_COOKIE, csrfToken, {
+    ...baseOptions(),
+    httpOnly: false,
+    path: "/",
+    expires: refreshExpires,
+  });
+
+  return csrfToken;
+};
+
+// Cookies must be cleared with the same attributes they were set with, or
+// some clients keep the original
+export const clearAuthCookies = (res: Response): void => {
+  res.clearCookie(AUTH_COOKIE, { ...baseOptions(), httpOnly: true, path: "/" });
+  res.clearCookie(REFRESH_COOKIE, { ...baseOptions(), httpOnly: true, path: REFRESH_COOKIE_PATH });
+  res.clearCookie(CSRF_COOKIE, { ...baseOptions(), path: "/" });
+};
@@ -0,0 +1,53 @@
+import { Database } from "../database/init";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { EnrollmentRequest } from "../types";
+
+export const ENROLLMENT_REQUEST_STATUSES = ["pending", "approved", "rejected"];
+
+// The request as its teacher sees it: nothing about the student it matches
+export const ENROLLMENT_REQUEST_SELECT = `
+  SELECT r.id, r.class_id, c.name AS class_name, r.email, r.note, r.status,
+         r.requested_by, u.username AS requested_by_username,
+         r.reviewed_by, r.reviewed_at, r.created_at
+    FROM enrollment_requests r
+    JOIN classes c ON c.id = r.class_id
+    LEFT JOIN users u ON u.id = r.requested_by`;
+
+// For admins, plus the active student the email belongs to, if any
+export const ENROLLMENT_REQUEST_REVIEW_SELECT = `
+  SELECT r.id, r.class_id, c.name AS class_name, r.email, r.note, r.status,
+         r.requested_by, u.username AS requested_by_username,
+         r.reviewed_by, r.reviewed_at, r.created_at,
+         s.id AS student_id, s.name AS student_name
+    FROM enrollment_requests r
+    JOIN classes c ON c.id = r.class_id
+    LEFT JOIN users u ON u.id = r.requested_by
+    LEFT JOIN students s ON LOWER(s.email) = r.email AND s.archived_at IS NULL`;
+
+/**
+ * Ask an admin to enroll the student with `email` in a class. Asking again
+ * while a request for the same class and email is open returns that request.
+ * The result is the same whether or not a student has the email, so the
+ * caller learns nothing about students outside their classes.
+ */
+export const requestEnrollment = async (
+  db: Database,
+  user: AuthenticatedRequest["user"],
+  classId: number,
+  email: string,
+  note?: string | null
+): Promise<EnrollmentRequest> => {
+  const normalizedEmail = email.toLowerCase();
+
+  await db.run(
+    `INSERT INTO enrollment_requests (class_id, email, note, requested_by, created_at)
+       VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(class_id, email) WHERE status = 'pending' DO NOTHING`,
+    [classId, normalizedEmail, note ?? null, user?.id ?? null, new Date().toISOString()]
+  );
+
+  return db.get(
+    `${ENROLLMENT_REQUEST_SELECT} WHERE r.class_id = ? AND r.email = ? AND r.status = 'pending'`,
+    [classId, normalizedEmail]
+  );
+};
@@ -0,0 +1,48 @@
+import crypto from "crypto";
+
+/**
+ * Strong ETag for a single student as it is sent: its version plus the
+ * letter grade and GPA points, which come from grading scales and change
+ * with them without touching the student's version.
+ */
+export const recordEtag = (record: {
+  id: number;
+  version: number;
+  letter_grade?: string | null;
+  gpa_points?: number | null;
+}): string => {
+  const scaled = crypto
+    .createHash("sha1")
+    .update(JSON.stringify([record.letter_grade ?? null, record.gpa_points ?? null]))
+    .digest("base64url")
+    .slice(0, 8);
+
+  return `"${record.id}-${record.version}-${scaled}"`;
+};
+
+/**
+ * Weak ETag for a computed response such as a list page. It only covers the
+ * given payload, so volatile fields like `timestamp` must be left out.
+ */
+export const contentEtag = (payload: unknown): string =>
+  `W/"${crypto
+    .createHash("sha1")
+    .update(JSON.stringify(payload))
+    .digest("base64url")}"`;
+
+/**
+ * Whether an If-Match header allows writing to a record with `etag`. A
+ * missing header always matches; weak tags never do, as RFC 9110 requires
+ * strong comparison for If-Match.
+ */
+export const ifMatchSatisfied = (
+  header: string | undefined,
+  etag: string
+): boolean => {
+  if (!header) return true;
+
+  return header
+    .split(",")
+    .map((tag) => tag.trim())
+    .some((tag) => tag === "*" || tag === etag);
+};
@@ -0,0 +1,52 @@
+import { EventEmitter } from "events";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { Student } from "../types";
+
+export type StudentEventType =
+  | "student.created"
+  | "student.updated"
+  | "student.deleted";
+
+export interface StudentEvent {
+  type: StudentEventType;
+  student: Partial<Student> & { id: number };
+  actorId: number | null;
+  timestamp: string;
+}
+
+type StudentEventListener = (event: StudentEvent) => void;
+
+// In-process bus between the controllers that change students and the open
+// event streams. Every stream adds a listener, so there is no useful limit.
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+/**
+ * Tell every open event stream that a student changed. Call it after the
+ * change is committed so listeners never see rolled-back data.
+ */
+export const publishStudentEvent = (
+  type: StudentEventType,
+  student: StudentEvent["student"],
+  actor: AuthenticatedRequest["user"]
+): void => {
+  const event: StudentEvent = {
+    type,
+    student,
+    actorId: actor?.id ?? null,
+    timestamp: new Date().toISOString(),
+  };
+  bus.emit("student", event);
+};
+
+/**
+ * Listen to student events. Returns a function that stops listening.
+ */
+export const subscribeToStudentEvents = (
+  listener: StudentEventListener
+): (() => void) => {
+  bus.on("student", listener);
+  return () => {
+    bus.off("student", listener);
+  };
+};
@@ -0,0 +1,88 @@
+import { Response } from "express";
+import { stringify } from "csv-stringify";
+import ExcelJS from "exceljs";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "xlsx"];
+
+// The entities express-validator's escape() writes into stored text
+const ESCAPED_CHARACTERS: Record<string, string> = {
+  "&amp;": "&",
+  "&quot;": '"',
+  "&#x27;": "'",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&#x2F;": "/",
+  "&#x5C;": "\\",
+  "&#96;": "`",
+};
+
+/**
+ * Undo the HTML escaping text fields get on input, for output that is not
+ * HTML (CSV, XLSX, PDF) and would otherwise show `O&#x27;Brien`.
+ */
+export const decodeHtmlEntities = (value: string): string =>
+  value.replace(
+    /&(?:amp|quot|#x27|lt|gt|#x2F|#x5C|#96);/g,
+    (entity) => ESCAPED_CHARACTERS[entity]
+  );
+
+export interface ExportColumn {
+  header: string;
+  key: string;
+  width?: number;
+}
+
+/**
+ * Stream rows to the client as a CSV or XLSX download named
+ * `<filename>-<YYYY-MM-DD>.<format>`. Text values are written unescaped.
+ */
+export const sendTable = async (
+  res: Response,
+  format: ExportFormat,
+  filename: string,
+  columns: ExportColumn[],
+  rows: Record<string, unknown>[]
+): Promise<void> => {
+  const date = new Date().toISOString().slice(0, 10);
+  const plainRows = rows.map((row) =>
+    Object.fromEntries(
+      Object.entries(row).map(([key, value]) => [
+        key,
+        typeof value === "string" ? decodeHtmlEntities(value) : value,
+      ])
+    )
+  );
+  res.attachment(`${filename}-${date}.${format}`);
+
+  if (format === "csv") {
+    res.type("text/csv; charset=utf-8");
+
+    const stringifier = stringify({
+      header: true,
+      columns: columns.map(({ header, key }) => ({ header, key })),
+    });
+    stringifier.pipe(res);
+    plainRows.forEach((row) => stringifier.write(row));
+    stringifier.end();
+    return;
+  }
+
+  res.type(
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+  );
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res });
+  const sheet = workbook.addWorksheet(filename);
+  sheet.columns = columns.map(({ header, key, width }) => ({
+    header,
+    key,
+    width: width ?? Math.max(header.length + 2, 12),
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  plainRows.forEach((row) => sheet.addRow(row).commit());
+  sheet.commit();
+  await workbook.commit();
+};
@@ -0,0 +1,153 @@
+import { Database } from "../database/init";
+import { GradeTrendPoint, TrendInterval } from "../types";
+import { AnalyticsFilters, buildAnalyticsWhere } from "./analytics";
+import { StudentScope } from "./studentScope";
+
+export const TREND_INTERVALS: TrendInterval[] = ["week", "month"];
+
+interface GradeEvent {
+  at: number;
+  grade: number;
+}
+
+/**
+ * Milliseconds since the epoch for a stored timestamp. SQLite's
+ * CURRENT_TIMESTAMP ("2025-08-30 06:36:02") has no zone but is UTC.
+ */
+const parseTimestamp = (value: string): number =>
+  Date.parse(/[zZ]|[+-]\d{2}:\d{2}$/.test(value) ? value : `${value.replace(" ", "T")}Z`);
+
+const startOfPeriod = (time: number, interval: TrendInterval): Date => {
+  const date = new Date(time);
+  if (interval === "month")
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+  // Weeks start on Monday
+  const day = (date.getUTCDay() + 6) % 7;
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - day)
+  );
+};
+
+const nextPeriod = (start: Date, interval: TrendInterval): Date =>
+  interval === "month"
+    ? new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1))
+    : new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+/**
+ * Start of every week or month that overlaps the range from `from` to `to`
+ */
+export const trendPeriods = (
+  interval: TrendInterval,
+  from: Date,
+  to: Date
+): Date[] => {
+  const periods: Date[] = [];
+  for (
+    let start = startOfPeriod(from.getTime(), interval);
+    start <= to;
+    start = nextPeriod(start, interval)
+  )
+    periods.push(start);
+  return periods;
+};
+
+/**
+ * Average grade per week or month over the students matched by `scope` and
+ * the filters. Each student counts from their created_at, with the grade
+ * they had at the end of the period as recorded in the audit log.
+ */
+export const computeGradeTrends = async (
+  db: Database,
+  scope: StudentScope,
+  filters: AnalyticsFilters,
+  interval: TrendInterval,
+  from: Date,
+  to: Date
+): Promise<GradeTrendPoint[]> => {
+  const { where, params } = buildAnalyticsWhere(scope, filters);
+
+  const [students, auditRows] = await Promise.all([
+    db.all(`SELECT id, grade, created_at FROM students${where}`, params),
+    db.all(
+      `SELECT entity_id, action, before_data, after_data, created_at
+         FROM audit_log
+        WHERE entity_type = 'student'
+          AND action IN ('create', 'update')
+          AND entity_id IN (SELECT id FROM students${where})
+        ORDER BY id`,
+      params
+    ),
+  ]);
+
+  // Grade history of each student, oldest first
+  const history = new Map<number, GradeEvent[]>();
+  const changeTimes: number[] = [];
+
+  students.forEach((student) => {
+    const entries = auditRows
+      .filter((row) => row.entity_id === student.id)
+      .map((row) => ({
+        action: row.action,
+        at: Date.parse(row.created_at),
+        before: row.before_data ? JSON.parse(row.before_data) : {},
+        after: row.after_data ? JSON.parse(row.after_data) : {},
+      }))
+      .filter((entry) => "grade" in entry.after);
+
+    // Without a logged create the grade before the first change is the
+    // starting grade; without any change it is the current one
+    const created = entries.find((entry) => entry.action === "create");
+    const firstUpdate = entries.find((entry) => entry.action === "update");
+    const initialGrade = created
+      ? created.after.grade
+      : firstUpdate
+      ? firstUpdate.before.grade
+      : student.grade;
+
+    const events: GradeEvent[] = [
+      { at: parseTimestamp(student.created_at), grade: initialGrade },
+    ];
+    entries
+      .filter((entry) => entry.action === "update")
+      .forEach((entry) => {
+        events.push({ at: entry.at, grade: entry.after.grade });
+        changeTimes.push(entry.at);
+      });
+
+    history.set(student.id, events);
+  });
+
+  return trendPeriods(interval, from, to).map((start) => {
+    const end = nextPeriod(start, interval);
+    const startTime = start.getTime();
+    const endTime = end.getTime();
+
+    const grades: number[] = [];
+    let added = 0;
+
+    history.forEach((events) => {
+      if (events[0].at >= endTime) return;
+      if (events[0].at >= startTime) added++;
+
+      const current = events.filter((event) => event.at < endTime).pop()!;
+      grades.push(current.grade);
+    });
+
+    return {
+      periodStart: start.toISOString(),
+      periodEnd: end.toISOString(),
+      studentCount: grades.length,
+      averageGrade:
+        grades.length > 0
+          ? Math.round(
+              (grades.reduce((sum, grade) => sum + grade, 0) / grades.length) * 100
+            ) / 100
+          : null,
+      added,
+      gradeChanges: changeTimes.filter(
+        (time) => time >= startTime && time < endTime
+      ).length,
+    };
+  });
+};
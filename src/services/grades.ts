@@ -0,0 +1,150 @@
+import { Database } from "../database/init";
+import { GradeBreakdown } from "../types";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { recordUpdateAudit } from "./audit";
+
+/**
+ * Per-category percentages for one student: the sum of their scores over the
+ * sum of the maximum scores, for every category they have been scored in.
+ */
+const CATEGORY_PERCENTAGES = `
+  SELECT a.category_id,
+         COUNT(*) AS score_count,
+         SUM(sc.score) * 100.0 / SUM(a.max_score) AS percentage
+    FROM assessment_scores sc
+    JOIN assessments a ON a.id = sc.assessment_id
+   WHERE sc.student_id = ?
+   GROUP BY a.category_id`;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Weighted current grade for a student, or null when they have no scores.
+ * Only categories the student has been scored in count towards the weights,
+ * so a term with no tests yet is not dragged down by an empty category.
+ */
+export const computeStudentGrade = async (
+  db: Database,
+  studentId: number
+): Promise<number | null> => {
+  const row = await db.get(
+    `SELECT SUM(c.weight * t.percentage) / SUM(c.weight) AS grade
+       FROM (${CATEGORY_PERCENTAGES}) t
+       JOIN assessment_categories c ON c.id = t.category_id`,
+    [studentId]
+  );
+
+  return row?.grade === null || row?.grade === undefined
+    ? null
+    : round(Math.min(row.grade, 100));
+};
+
+/**
+ * Recompute and store students.grade for the given students. students.grade
+ * is a cache of the weighted average so list, sort and analytics queries
+ * keep working on a plain column. The manually entered grade is kept in
+ * students.manual_grade while scores exist and restored once the last score
+ * is removed, so a student without scores always shows the grade entered by
+ * hand. Call inside the transaction that changed scores; every grade that
+ * moves is written to the audit log on behalf of `actor`. Returns the ids of
+ * the students whose grade moved, to publish once the transaction commits.
+ */
+export const recalculateStudentGrades = async (
+  db: Database,
+  studentIds: Iterable<number>,
+  actor: AuthenticatedRequest["user"],
+  reason = "assessment scores changed"
+): Promise<number[]> => {
+  const changed: number[] = [];
+
+  for (const studentId of new Set(studentIds)) {
+    const current = await db.get(
+      "SELECT grade, manual_grade FROM students WHERE id = ?",
+      [studentId]
+    );
+    if (!current) continue;
+
+    const computed = await computeStudentGrade(db, studentId);
+    const grade = computed ?? current.manual_grade ?? current.grade;
+    const manualGrade =
+      computed === null ? null : current.manual_grade ?? current.grade;
+
+    if (current.grade === grade && current.manual_grade === manualGrade)
+      continue;
+
+    await db.run(
+      "UPDATE students SET grade = ?, manual_grade = ? WHERE id = ?",
+      [grade, manualGrade, studentId]
+    );
+
+    await recordUpdateAudit(
+      db,
+      actor,
+      "student",
+      { id: studentId, grade: current.grade },
+      { id: studentId, grade },
+      reason
+    );
+    if (current.grade !== grade) changed.push(studentId);
+  }
+
+  return changed;
+};
+
+/**
+ * Recompute the grade of every student that has scores, e.g. after a
+ * category weight changed. Returns the ids of the students whose grade moved.
+ */
+export const recalculateAllGrades = async (
+  db: Database,
+  actor: AuthenticatedRequest["user"],
+  reason: string
+): Promise<number[]> => {
+  const rows = await db.all(
+    "SELECT DISTINCT student_id FROM assessment_scores"
+  );
+  return recalculateStudentGrades(
+    db,
+    rows.map((row) => row.student_id),
+    actor,
+    reason
+  );
+};
+
+export const hasAssessmentScores = async (
+  db: Database,
+  studentId: number
+): Promise<boolean> => {
+  const row = await db.get(
+    "SELECT 1 AS found FROM assessment_scores WHERE student_id = ? LIMIT 1",
+    [studentId]
+  );
+  return !!row;
+};
+
+/**
+ * Category-by-category breakdown of how a student's current grade is made up.
+ */
+export const getGradeBreakdown = async (
+  db: Database,
+  studentId: number
+): Promise<GradeBreakdown> => {
+  const categories = await db.all(
+    `SELECT c.id, c.name, c.weight, t.score_count, t.percentage
+       FROM assessment_categories c
+       LEFT JOIN (${CATEGORY_PERCENTAGES}) t ON t.category_id = c.id
+      ORDER BY c.name ASC`,
+    [studentId]
+  );
+
+  return {
+    currentGrade: await computeStudentGrade(db, studentId),
+    categories: categories.map((row) => ({
+      categoryId: row.id,
+      name: row.name,
+      weight: row.weight,
+      scoreCount: row.score_count ?? 0,
+      percentage: row.percentage === null ? null : round(row.percentage),
+    })),
+  };
+};
@@ -0,0 +1,97 @@
+import { Database } from "../database/init";
+import { GradingScale } from "../types";
+
+/**
+ * Id of the scale that applies to the current `students` row: the scale of
+ * a class in the student's subject they are enrolled in, otherwise the
+ * subject's scale, otherwise the default scale. Only valid in queries that
+ * select from `students` without an alias.
+ */
+const EFFECTIVE_SCALE_SQL = `COALESCE(
+    (SELECT cgs.scale_id
+       FROM enrollments e
+       JOIN classes c ON c.id = e.class_id
+       JOIN class_grading_scales cgs ON cgs.class_id = c.id
+      WHERE e.student_id = students.id AND c.subject = students.subject
+      ORDER BY c.id LIMIT 1),
+    (SELECT sgs.scale_id
+       FROM subjects sub
+       JOIN subject_grading_scales sgs ON sgs.subject_id = sub.id
+      WHERE sub.name = students.subject),
+    (SELECT id FROM grading_scales WHERE is_default = 1))`;
+
+const bandColumnSql = (column: "label" | "gpa_points") => `(
+  SELECT b.${column}
+    FROM grading_scale_bands b
+   WHERE b.scale_id = ${EFFECTIVE_SCALE_SQL} AND b.min_grade <= students.grade
+   ORDER BY b.min_grade DESC LIMIT 1)`;
+
+// Letter (or other label) of the current `students` row's grade
+export const LETTER_GRADE_SQL = bandColumnSql("label");
+
+// Select-list entries adding letter_grade and gpa_points to a students query
+export const GRADE_SCALE_COLUMNS = `${LETTER_GRADE_SQL} AS letter_grade, ${bandColumnSql(
+  "gpa_points"
+)} AS gpa_points`;
+
+/**
+ * Every grading scale with its bands (highest first) and where it is used
+ */
+export const getGradingScales = async (
+  db: Database,
+  scaleId?: number
+): Promise<GradingScale[]> => {
+  const where = scaleId === undefined ? "" : " WHERE id = ?";
+  const params = scaleId === undefined ? [] : [scaleId];
+
+  const [scales, bands, subjects, classes] = await Promise.all([
+    db.all(
+      `SELECT id, name, is_default, created_at, updated_at FROM grading_scales${where} ORDER BY name ASC`,
+      params
+    ),
+    db.all(
+      "SELECT scale_id, label, min_grade, gpa_points FROM grading_scale_bands ORDER BY min_grade DESC"
+    ),
+    db.all(
+      `SELECT sgs.scale_id, sub.name
+         FROM subject_grading_scales sgs
+         JOIN subjects sub ON sub.id = sgs.subject_id
+        ORDER BY sub.name`
+    ),
+    db.all("SELECT scale_id, class_id FROM class_grading_scales ORDER BY class_id"),
+  ]);
+
+  return scales.map((scale) => ({
+    id: scale.id,
+    name: scale.name,
+    is_default: scale.is_default === 1,
+    bands: bands
+      .filter((band) => band.scale_id === scale.id)
+      .map(({ label, min_grade, gpa_points }) => ({ label, min_grade, gpa_points })),
+    subjects: subjects
+      .filter((row) => row.scale_id === scale.id)
+      .map((row) => row.name),
+    class_ids: classes
+      .filter((row) => row.scale_id === scale.id)
+      .map((row) => row.class_id),
+    created_at: scale.created_at,
+    updated_at: scale.updated_at,
+  }));
+};
+
+/**
+ * Replace the bands of a scale. Call inside the transaction that saves it.
+ */
+export const saveScaleBands = async (
+  db: Database,
+  scaleId: number,
+  bands: { label: string; minGrade: number; gpaPoints?: number | null }[]
+): Promise<void> => {
+  await db.run("DELETE FROM grading_scale_bands WHERE scale_id = ?", [scaleId]);
+
+  for (const band of bands)
+    await db.run(
+      "INSERT INTO grading_scale_bands (scale_id, label, min_grade, gpa_points) VALUES (?, ?, ?, ?)",
+      [scaleId, band.label, band.minGrade, band.gpaPoints ?? null]
+    );
+};
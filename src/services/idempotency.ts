@@ -0,0 +1,94 @@
+import crypto from "crypto";
+import { Database } from "../database/init";
+import { config } from "../config";
+
+export interface StoredIdempotencyKey {
+  request_hash: string;
+  // null while the first request with the key is still running
+  status_code: number | null;
+  response_body: string | null;
+  // JSON object of the REPLAYED_HEADERS the response was sent with
+  response_headers: string | null;
+}
+
+// Response headers stored with the body and sent again on replay
+export const REPLAYED_HEADERS = ["Content-Type", "ETag", "Location"];
+
+/**
+ * Fingerprint of a request, to tell a retry from a different request that
+ * reuses its key
+ */
+export const hashIdempotentRequest = (
+  method: string,
+  url: string,
+  body: unknown
+): string =>
+  crypto
+    .createHash("sha256")
+    .update(JSON.stringify([method, url, body ?? null]))
+    .digest("hex");
+
+/**
+ * Claim `key` for a new request. Returns null when the claim succeeded, or
+ * the stored entry when the key is already in use and not yet expired.
+ */
+export const reserveIdempotencyKey = async (
+  db: Database,
+  userId: number,
+  key: string,
+  requestHash: string
+): Promise<StoredIdempotencyKey | null> => {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + config.idempotency.keyTtlHours * 60 * 60 * 1000);
+
+  return db.withTransaction(async () => {
+    // Expired keys are forgotten, so they can be used again
+    await db.run("DELETE FROM idempotency_keys WHERE expires_at <= ?", [now.toISOString()]);
+
+    const result = await db.run(
+      `INSERT INTO idempotency_keys (user_id, key, request_hash, created_at, expires_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(user_id, key) DO NOTHING`,
+      [userId, key, requestHash, now.toISOString(), expiresAt.toISOString()]
+    );
+    if (result.changes === 1) return null;
+
+    return db.get(
+      `SELECT request_hash, status_code, response_body, response_headers
+         FROM idempotency_keys WHERE user_id = ? AND key = ?`,
+      [userId, key]
+    );
+  });
+};
+
+/**
+ * Store the response of the request that claimed `key`, with the
+ * REPLAYED_HEADERS it was sent with
+ */
+export const completeIdempotencyKey = (
+  db: Database,
+  userId: number,
+  key: string,
+  statusCode: number,
+  headers: Record<string, string>,
+  body: unknown
+) =>
+  db.withTransaction(() =>
+    db.run(
+      `UPDATE idempotency_keys SET status_code = ?, response_headers = ?, response_body = ?
+        WHERE user_id = ? AND key = ?`,
+      [statusCode, JSON.stringify(headers), JSON.stringify(body), userId, key]
+    )
+  );
+
+/**
+ * Give up a claimed key without storing a response, so a retry runs the
+ * request again
+ */
+export const releaseIdempotencyKey = (db: Database, userId: number, key: string) =>
+  db.withTransaction(() =>
+    db.run(
+      "DELETE FROM idempotency_keys WHERE user_id = ? AND key = ? AND status_code IS NULL",
+      [userId, key]
+    )
+  );
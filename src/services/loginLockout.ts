@@ -0,0 +1,56 @@
+import { config } from "../config";
+import { getRateLimitStore } from "./rateLimitStore";
+
+// Lockouts in a row are remembered this long for the doubling of their length
+const LOCKOUT_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+const keysFor = (username: string) => {
+  const subject = username.trim().toLowerCase();
+  return {
+    failures: `login:failures:${subject}`,
+    lockouts: `login:lockouts:${subject}`,
+    locked: `login:locked:${subject}`,
+  };
+};
+
+/**
+ * Seconds until `username` may try to log in again, or 0 when it is not
+ * locked out
+ */
+export const getLoginLockout = async (username: string): Promise<number> => {
+  const locked = await getRateLimitStore().get(keysFor(username).locked);
+  return locked ? Math.ceil((locked.resetAt - Date.now()) / 1000) : 0;
+};
+
+/**
+ * Count a failed login for `username`. Every config.loginLockout.maxFailures
+ * failures lock it out, each lockout in a row twice as long as the one
+ * before. Returns the seconds of the lockout that started, or 0.
+ */
+export const recordLoginFailure = async (username: string): Promise<number> => {
+  const { maxFailures, failureWindowMinutes, lockoutSeconds, maxLockoutSeconds } =
+    config.loginLockout;
+  const store = getRateLimitStore();
+  const keys = keysFor(username);
+
+  const failures = await store.increment(keys.failures, failureWindowMinutes * 60 * 1000);
+  if (failures.count < maxFailures) return 0;
+
+  const lockouts = await store.increment(keys.lockouts, LOCKOUT_MEMORY_MS);
+  const seconds = Math.min(lockoutSeconds * 2 ** (lockouts.count - 1), maxLockoutSeconds);
+
+  await store.reset(keys.failures);
+  await store.reset(keys.locked);
+  await store.increment(keys.locked, seconds * 1000);
+  return seconds;
+};
+
+/**
+ * Forget the failures and lockouts of `username` after a successful login
+ */
+export const clearLoginFailures = async (username: string): Promise<void> => {
+  const store = getRateLimitStore();
+  const keys = keysFor(username);
+  await store.reset(keys.failures);
+  await store.reset(keys.lockouts);
+};
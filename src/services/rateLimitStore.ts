@@ -0,0 +1,71 @@
+export interface RateLimitCounter {
+  count: number;
+  // Epoch milliseconds at which the counter starts again from zero
+  resetAt: number;
+}
+
+/**
+ * Where rate limit and login lockout counters are kept. The in-memory store
+ * only counts requests seen by this process; when running several instances,
+ * plug in a shared store (e.g. backed by Redis) with setRateLimitStore.
+ */
+export interface RateLimitStore {
+  // Count one more hit for `key`; a new or expired counter lasts `windowMs`
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+  // The current counter, or null when there is none or it has expired
+  get(key: string): Promise<RateLimitCounter | null>;
+  reset(key: string): Promise<void>;
+}
+
+// How often expired counters are dropped from memory
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitCounter>();
+
+  constructor() {
+    const timer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    // Never keep the process alive just for the sweep
+    timer.unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    const current = this.counters.get(key);
+
+    const counter =
+      current && current.resetAt > now
+        ? { count: current.count + 1, resetAt: current.resetAt }
+        : { count: 1, resetAt: now + windowMs };
+
+    this.counters.set(key, counter);
+    return counter;
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const counter = this.counters.get(key);
+    return counter && counter.resetAt > Date.now() ? counter : null;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  private sweep() {
+    const now = Date.now();
+    for (const [key, counter] of this.counters)
+      if (counter.resetAt <= now) this.counters.delete(key);
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export const getRateLimitStore = (): RateLimitStore => store;
+
+/**
+ * Replace the store used by every rate limit and the login lockout. Call
+ * before the server starts handling requests.
+ */
+export const setRateLimitStore = (replacement: RateLimitStore) => {
+  store = replacement;
+};
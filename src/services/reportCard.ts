@@ -0,0 +1,142 @@
+import PDFDocument from "pdfkit";
+import { Writable } from "stream";
+import { GradeBreakdown, Student } from "../types";
+import { decodeHtmlEntities } from "./exports";
+
+export interface ReportCardScore {
+  assessment_title: string;
+  category_name: string;
+  assessed_on: string;
+  score: number;
+  max_score: number;
+  percentage: number;
+}
+
+export interface ReportCardClass {
+  name: string;
+  term: string;
+  teacher: string;
+  student_count: number;
+  average: number | null;
+}
+
+export interface ReportCardData {
+  student: Student;
+  breakdown: GradeBreakdown;
+  scores: ReportCardScore[];
+  classes: ReportCardClass[];
+  // Average grade of every student taking the same subject
+  subjectAverage: number | null;
+}
+
+const MARGIN = 50;
+
+const formatNumber = (value: number | null | undefined): string =>
+  value === null || value === undefined ? "-" : String(Math.round(value * 100) / 100);
+
+/**
+ * Draw one table row with fixed column widths (in points) and move the cursor
+ * below it, starting a new page when the row would not fit. Cells are stored
+ * text, so their HTML escaping is undone first.
+ */
+const drawRow = (
+  doc: PDFKit.PDFDocument,
+  cells: string[],
+  widths: number[],
+  bold = false
+): void => {
+  if (doc.y > doc.page.height - MARGIN - 20) doc.addPage();
+
+  const y = doc.y;
+  let x = MARGIN;
+  doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(10);
+
+  cells.forEach((cell, index) => {
+    doc.text(decodeHtmlEntities(cell), x, y, { width: widths[index] - 6, lineBreak: false, ellipsis: true });
+    x += widths[index];
+  });
+
+  doc.x = MARGIN;
+  doc.y = y + 16;
+};
+
+const drawHeading = (doc: PDFKit.PDFDocument, title: string): void => {
+  doc.moveDown();
+  doc.font("Helvetica-Bold").fontSize(13).text(title, MARGIN);
+  doc.moveDown(0.3);
+};
+
+/**
+ * Render a printable report card for one student and pipe it to `output`.
+ */
+export const writeReportCard = (output: Writable, data: ReportCardData): void => {
+  const { student, breakdown, scores, classes, subjectAverage } = data;
+  const doc = new PDFDocument({ size: "A4", margin: MARGIN });
+  doc.pipe(output);
+
+  doc.font("Helvetica-Bold").fontSize(20).text("Student Report Card", { align: "center" });
+  doc.font("Helvetica").fontSize(10).fillColor("#555555")
+    .text(`Generated ${new Date().toISOString().slice(0, 10)}`, { align: "center" });
+  doc.fillColor("#000000");
+
+  drawHeading(doc, "Student");
+  drawRow(doc, ["Name", student.name], [120, 375]);
+  drawRow(doc, ["Email", student.email], [120, 375]);
+  drawRow(doc, ["Subject", student.subject], [120, 375]);
+  drawRow(doc, ["Current grade", formatNumber(breakdown.currentGrade ?? student.grade)], [120, 375]);
+  drawRow(doc, [`${student.subject} average`, formatNumber(subjectAverage)], [120, 375]);
+
+  drawHeading(doc, "Grade breakdown");
+  const breakdownWidths = [195, 100, 100, 100];
+  drawRow(doc, ["Category", "Weight", "Scores", "Percentage"], breakdownWidths, true);
+  breakdown.categories.forEach((category) =>
+    drawRow(
+      doc,
+      [
+        category.name,
+        formatNumber(category.weight),
+        String(category.scoreCount),
+        formatNumber(category.percentage),
+      ],
+      breakdownWidths
+    )
+  );
+
+  drawHeading(doc, "Classes");
+  const classWidths = [150, 110, 110, 60, 65];
+  drawRow(doc, ["Class", "Term", "Teacher", "Students", "Average"], classWidths, true);
+  if (classes.length === 0) drawRow(doc, ["Not enrolled in any class"], [495]);
+  classes.forEach((schoolClass) =>
+    drawRow(
+      doc,
+      [
+        schoolClass.name,
+        schoolClass.term,
+        schoolClass.teacher,
+        String(schoolClass.student_count),
+        formatNumber(schoolClass.average),
+      ],
+      classWidths
+    )
+  );
+
+  drawHeading(doc, "Assessments");
+  const scoreWidths = [175, 90, 80, 80, 70];
+  drawRow(doc, ["Assessment", "Category", "Date", "Score", "%"], scoreWidths, true);
+  if (scores.length === 0) drawRow(doc, ["No scores recorded yet"], [495]);
+  scores.forEach((score) =>
+    drawRow(
+      doc,
+      [
+        score.assessment_title,
+        score.category_name,
+        score.assessed_on,
+        `${formatNumber(score.score)} / ${formatNumber(score.max_score)}`,
+        formatNumber(score.percentage),
+      ],
+      scoreWidths
+    )
+  );
+
+  doc.end();
+};
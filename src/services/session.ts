@@ -0,0 +1,176 @@
+import crypto from "crypto";
+import { getDatabase } from "../database/init";
+import { generateToken } from "../middleware/auth";
+import { config } from "../config";
+import { Roles } from "../types/enums";
+
+export interface SessionUser {
+  id: number;
+  username: string;
+  role: Roles;
+}
+
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+  // Access token lifetime in seconds
+  expiresIn: number;
+  refreshTokenExpiresAt: string;
+}
+
+interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const refreshTokenExpiry = (): string =>
+  new Date(
+    Date.now() + config.auth.refreshTokenTtlDays * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+const issueTokens = async (
+  user: SessionUser,
+  sessionId: string,
+  expiresAt: string
+): Promise<IssuedTokens> => {
+  const refreshToken = crypto.randomBytes(48).toString("base64url");
+
+  await getDatabase().run(
+    "INSERT INTO refresh_tokens (session_id, token_hash, expires_at) VALUES (?, ?, ?)",
+    [sessionId, hashToken(refreshToken), expiresAt]
+  );
+
+  return {
+    token: generateToken({ ...user, sessionId }),
+    refreshToken,
+    expiresIn: config.auth.accessTokenTtlSeconds,
+    refreshTokenExpiresAt: expiresAt,
+  };
+};
+
+/**
+ * Start a new login session and issue its first access/refresh token pair.
+ */
+export const createSession = async (
+  user: SessionUser,
+  metadata: SessionMetadata = {}
+): Promise<IssuedTokens> => {
+  const db = getDatabase();
+  const sessionId = crypto.randomUUID();
+  const expiresAt = refreshTokenExpiry();
+
+  return db.withTransaction(async () => {
+    // Housekeeping: drop this user's sessions that can no longer be used
+    await db.run(
+      "DELETE FROM sessions WHERE user_id = ? AND (expires_at < ? OR revoked_at IS NOT NULL)",
+      [user.id, new Date().toISOString()]
+    );
+
+    await db.run(
+      `INSERT INTO sessions (id, user_id, user_agent, ip_address, expires_at)
+         VALUES (?, ?, ?, ?, ?)`,
+      [sessionId, user.id, metadata.userAgent ?? null, metadata.ipAddress ?? null, expiresAt]
+    );
+
+    const tokens = await issueTokens(user, sessionId, expiresAt);
+
+    return tokens;
+  });
+};
+
+/**
+ * Exchange a refresh token for a new token pair. Each refresh token can be
+ * used once; presenting an already-used token is treated as theft and
+ * revokes the whole session. Returns null when the token is not accepted.
+ */
+export const rotateRefreshToken = async (
+  refreshToken: string
+): Promise<{ user: SessionUser; tokens: IssuedTokens } | null> => {
+  const db = getDatabase();
+
+  const record = await db.get(
+    `SELECT rt.id, rt.session_id, rt.expires_at, rt.used_at, s.revoked_at,
+            u.id AS user_id, u.username, u.role, u.is_active
+       FROM refresh_tokens rt
+       JOIN sessions s ON s.id = rt.session_id
+       JOIN users u ON u.id = s.user_id
+      WHERE rt.token_hash = ?`,
+    [hashToken(refreshToken)]
+  );
+
+  if (!record) return null;
+
+  if (record.used_at) {
+    await revokeSession(record.session_id);
+    return null;
+  }
+
+  if (
+    record.revoked_at ||
+    record.is_active !== 1 ||
+    new Date(record.expires_at) < new Date()
+  )
+    return null;
+
+  const user: SessionUser = {
+    id: record.user_id,
+    username: record.username,
+    role: record.role as Roles,
+  };
+  const expiresAt = refreshTokenExpiry();
+
+  return db.withTransaction(async () => {
+    // Guard against two concurrent refreshes with the same token
+    const consumed = await db.run(
+      "UPDATE refresh_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = ? AND used_at IS NULL",
+      [record.id]
+    );
+
+    if (consumed.changes === 0) return null;
+
+    await db.run(
+      "UPDATE sessions SET last_used_at = CURRENT_TIMESTAMP, expires_at = ? WHERE id = ?",
+      [expiresAt, record.session_id]
+    );
+
+    const tokens = await issueTokens(user, record.session_id, expiresAt);
+
+    return { user, tokens };
+  });
+};
+
+/**
+ * Look up the session a refresh token belongs to, without consuming it.
+ */
+export const findSessionIdByRefreshToken = async (
+  refreshToken: string
+): Promise<string | null> => {
+  const record = await getDatabase().get(
+    "SELECT session_id FROM refresh_tokens WHERE token_hash = ?",
+    [hashToken(refreshToken)]
+  );
+  return record ? record.session_id : null;
+};
+
+export const revokeSession = async (sessionId: string): Promise<boolean> => {
+  const result = await getDatabase().run(
+    "UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL",
+    [sessionId]
+  );
+  return result.changes > 0;
+};
+
+/**
+ * Revoke every active session of a user. Returns the number of sessions
+ * that were revoked.
+ */
+export const revokeUserSessions = async (userId: number): Promise<number> => {
+  const result = await getDatabase().run(
+    "UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL",
+    [userId]
+  );
+  return result.changes;
+};
@@ -0,0 +1,89 @@
+import { Database, getDatabase } from "../database/init";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { config } from "../config";
+import { recordAudit } from "./audit";
+import { publishStudentEvent } from "./events";
+
+/**
+ * Permanently delete students archived more than `retentionDays` ago, in one
+ * transaction. Each removed record is written to the audit log first and
+ * published as student.deleted once the purge commits. Returns the ids of
+ * the purged students.
+ */
+export const purgeArchivedStudents = async (
+  db: Database,
+  actor: AuthenticatedRequest["user"],
+  retentionDays: number,
+  reason: string
+): Promise<number[]> => {
+  const cutoff = new Date(
+    Date.now() - retentionDays * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  const purged = await db.withTransaction(async () => {
+    const expired = await db.all(
+      `SELECT id, name, email, subject, grade, created_at, archived_at
+         FROM students
+        WHERE archived_at IS NOT NULL AND archived_at <= ?`,
+      [cutoff]
+    );
+
+    for (const student of expired) {
+      await recordAudit(db, actor, {
+        entityType: "student",
+        entityId: student.id,
+        action: "delete",
+        before: student,
+        reason,
+      });
+
+      // Enrollments, scores, attendance and account links go with it via
+      // ON DELETE CASCADE
+      await db.run("DELETE FROM students WHERE id = ?", [student.id]);
+    }
+
+    return expired;
+  });
+
+  purged.forEach((student) =>
+    publishStudentEvent("student.deleted", student, actor)
+  );
+  return purged.map((student) => student.id);
+};
+
+// setInterval overflows (and fires immediately) above this many milliseconds
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Run the purge with the configured retention period at startup and then
+ * every `config.students.purgeIntervalHours`. Returns a function that stops it.
+ */
+export const scheduleArchivePurge = (): (() => void) => {
+  const { purgeIntervalHours, archiveRetentionDays } = config.students;
+  if (purgeIntervalHours === 0) return () => undefined;
+
+  const runPurge = async () => {
+    try {
+      const purged = await purgeArchivedStudents(
+        getDatabase(),
+        undefined,
+        archiveRetentionDays,
+        "scheduled purge"
+      );
+      if (purged.length > 0)
+        console.log(`Purged ${purged.length} archived student(s)`);
+    } catch (error) {
+      console.error("Scheduled purge of archived students failed:", error);
+    }
+  };
+
+  void runPurge();
+  const timer = setInterval(
+    runPurge,
+    Math.min(purgeIntervalHours * 60 * 60 * 1000, MAX_TIMER_DELAY_MS)
+  );
+
+  // Never keep the process alive just for the purge
+  timer.unref();
+  return () => clearInterval(timer);
+};
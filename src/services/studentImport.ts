@@ -0,0 +1,125 @@
+import { parse } from "csv-parse/sync";
+import { validationResult } from "express-validator";
+import { Database } from "../database/init";
+import { studentFieldRules } from "../validators/student";
+import { Student, StudentImportRowError } from "../types";
+
+export const MAX_IMPORT_ROWS = 1000;
+
+const REQUIRED_COLUMNS = ["name", "email", "subject", "grade"];
+
+export interface ImportRow
+  extends Omit<Student, "id" | "created_at" | "version"> {
+  row: number;
+}
+
+export interface ParsedImport {
+  valid: ImportRow[];
+  errors: StudentImportRowError[];
+  totalRows: number;
+}
+
+/**
+ * Parse an uploaded CSV roster. Headers are matched case-insensitively and
+ * extra columns are ignored. Returns an error message instead of rows when
+ * the file itself is unusable.
+ */
+export const parseStudentCsv = (
+  csv: string
+): { records: { row: number; values: Record<string, string> }[] } | { error: string } => {
+  let parsed: { record: Record<string, string>; info: { lines: number } }[];
+
+  try {
+    parsed = parse(csv, {
+      bom: true,
+      columns: (header: string[]) =>
+        header.map((column) => column.trim().toLowerCase()),
+      skip_empty_lines: true,
+      trim: true,
+      info: true,
+    });
+  } catch (error) {
+    return { error: `Could not parse CSV: ${(error as Error).message}` };
+  }
+
+  if (parsed.length === 0)
+    return { error: "The CSV file must contain a header row and at least one student" };
+
+  const missing = REQUIRED_COLUMNS.filter(
+    (column) => !(column in parsed[0].record)
+  );
+  if (missing.length > 0)
+    return { error: `Missing required column(s): ${missing.join(", ")}` };
+
+  if (parsed.length > MAX_IMPORT_ROWS)
+    return { error: `A single import is limited to ${MAX_IMPORT_ROWS} rows` };
+
+  return {
+    records: parsed.map(({ record, info }) => ({
+      row: info.lines,
+      values: record,
+    })),
+  };
+};
+
+/**
+ * Run every row through the same rules as POST /students and flag emails
+ * that appear twice in the file or already belong to a student.
+ */
+export const validateImportRows = async (
+  db: Database,
+  records: { row: number; values: Record<string, string> }[]
+): Promise<ParsedImport> => {
+  const valid: ImportRow[] = [];
+  const errors: StudentImportRowError[] = [];
+  const seenEmails = new Map<string, number>();
+
+  for (const { row, values } of records) {
+    // express-validator only needs a request-shaped object to run against
+    const rowRequest: { body: Record<string, any> } = { body: { ...values } };
+    for (const rule of studentFieldRules) await rule.run(rowRequest);
+
+    const fieldErrors = validationResult(rowRequest)
+      .array()
+      .map((error) => ({
+        field: error.type === "field" ? error.path : "row",
+        message: String(error.msg),
+      }));
+
+    const { name, email, subject, grade } = rowRequest.body;
+    const normalizedEmail =
+      typeof email === "string" ? email.toLowerCase() : undefined;
+
+    if (!fieldErrors.some((error) => error.field === "email") && normalizedEmail) {
+      const firstRow = seenEmails.get(normalizedEmail);
+
+      if (firstRow !== undefined) {
+        fieldErrors.push({
+          field: "email",
+          message: `Duplicate email in file (first used on row ${firstRow})`,
+        });
+      } else {
+        seenEmails.set(normalizedEmail, row);
+
+        const existing = await db.get(
+          "SELECT id FROM students WHERE LOWER(email) = ?",
+          [normalizedEmail]
+        );
+        if (existing)
+          fieldErrors.push({
+            field: "email",
+            message: "A student with this email already exists",
+          });
+      }
+    }
+
+    if (fieldErrors.length > 0) {
+      errors.push({ row, email: values.email || undefined, errors: fieldErrors });
+      continue;
+    }
+
+    valid.push({ row, name, email: normalizedEmail as string, subject, grade });
+  }
+
+  return { valid, errors, totalRows: records.length };
+};
@@ -0,0 +1,276 @@
+import { Database } from "../database/init";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { getStudentScope } from "./studentScope";
+import { LETTER_GRADE_SQL } from "./gradingScales";
+import { rankStudentMatches } from "./studentSearch";
+
+export interface GradeRange {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+export interface StudentListFilters {
+  // One subject, or several separated by commas
+  subject?: string;
+  // Comma-separated fields, each optionally suffixed with :asc or :desc.
+  // Defaults to relevance when searching and to created_at otherwise
+  sortBy?: string;
+  // Direction of the sortBy fields that do not name their own
+  sortOrder?: "asc" | "desc";
+  // Full-text search over name and email
+  search?: string;
+  // Letter grade under the student's grading scale, e.g. "B+"; several
+  // separated by commas
+  letterGrade?: string;
+  grade?: GradeRange;
+  // ISO 8601 dates or timestamps; createdAfter is inclusive, createdBefore
+  // exclusive
+  createdAfter?: string;
+  createdBefore?: string;
+  // Archived (soft-deleted) students are left out unless this is set
+  includeArchived?: boolean;
+}
+
+export interface StudentSortKey {
+  // Sort field, "relevance" or "id"
+  name: string;
+  // SQL expression over unaliased `students`
+  expression: string;
+  direction: "ASC" | "DESC";
+}
+
+export interface StudentListQuery {
+  // " WHERE ..." or an empty string
+  where: string;
+  // " ORDER BY ..." built from whitelisted columns only
+  orderBy: string;
+  params: any[];
+  // The ORDER BY terms, always ending with id so the order is total
+  sortKeys: StudentSortKey[];
+}
+
+export const STUDENT_SORT_FIELDS = ["created_at", "name", "subject", "grade"];
+export const MAX_SORT_FIELDS = 4;
+
+// Fields a list request can pick with `fields`; id is always included
+export const STUDENT_LIST_FIELDS = [
+  "id",
+  "name",
+  "subject",
+  "grade",
+  "letter_grade",
+  "gpa_points",
+  "created_at",
+  "archived_at",
+  "version",
+];
+
+const GRADE_OPERATORS: Record<keyof GradeRange, string> = {
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+};
+
+export const splitList = (value: string): string[] =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+/**
+ * Parse a sortBy value such as "subject,grade:desc" into fields and
+ * directions. Fields without a direction take `sortOrder`.
+ */
+export const parseSortBy = (
+  sortBy: string,
+  sortOrder: "asc" | "desc" = "desc"
+): { field: string; direction: "ASC" | "DESC" }[] =>
+  splitList(sortBy).map((item) => {
+    const [field, direction = sortOrder] = item.split(":");
+    return { field, direction: direction === "asc" ? "ASC" : "DESC" };
+  });
+
+/**
+ * WHERE and ORDER BY clauses for listing students with the caller's scope
+ * plus the filter, search and sort parameters of GET /students. Shared by
+ * the paginated list, the exports and the batch endpoints so all of them
+ * select the same rows.
+ */
+export const buildStudentListQuery = async (
+  db: Database,
+  user: AuthenticatedRequest["user"],
+  {
+    subject,
+    sortBy,
+    sortOrder = "desc",
+    search,
+    letterGrade,
+    grade,
+    createdAfter,
+    createdBefore,
+    includeArchived = false,
+  }: StudentListFilters
+): Promise<StudentListQuery> => {
+  const params: any[] = [];
+  const conditions: string[] = [];
+
+  // Student users only see the record linked to their account
+  const scope = getStudentScope(user);
+  if (scope.condition) {
+    conditions.push(scope.condition);
+    params.push(...scope.params);
+  }
+
+  if (!includeArchived) conditions.push("archived_at IS NULL");
+
+  if (subject) {
+    const subjects = splitList(subject);
+    conditions.push(`subject IN (${subjects.map(() => "?").join(", ")})`);
+    params.push(...subjects);
+  }
+
+  // The ids come from the database as integers, so they are safe to inline
+  let matchIds: number[] | undefined;
+  if (search) {
+    matchIds = await rankStudentMatches(
+      db,
+      search,
+      getStudentScope(user, "s.id"),
+      includeArchived
+    );
+    conditions.push(matchIds.length > 0 ? `id IN (${matchIds.join(", ")})` : "0");
+  }
+
+  if (letterGrade) {
+    const letters = splitList(letterGrade);
+    conditions.push(
+      `${LETTER_GRADE_SQL} COLLATE NOCASE IN (${letters.map(() => "?").join(", ")})`
+    );
+    params.push(...letters);
+  }
+
+  for (const [operator, sql] of Object.entries(GRADE_OPERATORS)) {
+    const bound = grade?.[operator as keyof GradeRange];
+    if (bound !== undefined) {
+      conditions.push(`grade ${sql} ?`);
+      params.push(bound);
+    }
+  }
+
+  // created_at holds both SQLite timestamps and ISO 8601 strings, so both
+  // sides go through datetime() before comparing
+  if (createdAfter) {
+    conditions.push("datetime(created_at) >= datetime(?)");
+    params.push(createdAfter);
+  }
+  if (createdBefore) {
+    conditions.push("datetime(created_at) < datetime(?)");
+    params.push(createdBefore);
+  }
+
+  // Search results come best match first unless another order is asked for
+  const sortKeys: StudentSortKey[] = [];
+  if (matchIds && matchIds.length > 0 && !sortBy) {
+    const ranks = matchIds.map((id, rank) => `WHEN ${id} THEN ${rank}`).join(" ");
+    sortKeys.push({
+      name: "relevance",
+      expression: `CASE id ${ranks} END`,
+      direction: "ASC",
+    });
+  } else {
+    // Whitelist sort fields to prevent SQL injection
+    const fields = parseSortBy(sortBy || "created_at", sortOrder).filter(
+      ({ field }) => STUDENT_SORT_FIELDS.includes(field)
+    );
+    if (fields.length === 0)
+      fields.push({ field: "created_at", direction: sortOrder === "asc" ? "ASC" : "DESC" });
+
+    for (const { field, direction } of fields)
+      sortKeys.push({ name: field, expression: field, direction });
+  }
+
+  // Break ties by id in the direction of the last key
+  sortKeys.push({
+    name: "id",
+    expression: "id",
+    direction: sortKeys[sortKeys.length - 1].direction,
+  });
+
+  return {
+    where: conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "",
+    orderBy: ` ORDER BY ${sortKeys
+      .map((key) => `${key.expression} ${key.direction}`)
+      .join(", ")}`,
+    params,
+    sortKeys,
+  };
+};
+
+// Identifies the order a cursor was made for, e.g. "grade:DESC,id:DESC"
+const sortSignature = (sortKeys: StudentSortKey[]) =>
+  sortKeys.map((key) => `${key.name}:${key.direction}`).join(",");
+
+/**
+ * Select-list entries exposing every sort key of `query` as sort_key_N, so
+ * the last row of a page can be turned into a cursor
+ */
+export const sortKeyColumns = ({ sortKeys }: StudentListQuery): string =>
+  sortKeys.map((key, index) => `${key.expression} AS sort_key_${index}`).join(", ");
+
+/**
+ * Opaque cursor pointing just after `row`, which must have been selected
+ * with sortKeyColumns
+ */
+export const encodeStudentCursor = (
+  { sortKeys }: StudentListQuery,
+  row: Record<string, any>
+): string =>
+  Buffer.from(
+    JSON.stringify({
+      sort: sortSignature(sortKeys),
+      values: sortKeys.map((_, index) => row[`sort_key_${index}`]),
+    })
+  ).toString("base64url");
+
+/**
+ * Condition selecting the rows after `cursor` in the order of `query`, or
+ * null when the cursor is malformed or was made for a different order
+ */
+export const studentCursorCondition = (
+  { sortKeys }: StudentListQuery,
+  cursor: string
+): { condition: string; params: any[] } | null => {
+  let decoded: { sort?: unknown; values?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  const { sort, values } = decoded ?? {};
+  if (
+    sort !== sortSignature(sortKeys) ||
+    !Array.isArray(values) ||
+    values.length !== sortKeys.length ||
+    !values.every((value) => typeof value === "string" || typeof value === "number")
+  )
+    return null;
+
+  // (a > x) OR (a = x AND b > y) OR ..., with < for descending keys
+  const alternatives: string[] = [];
+  const params: any[] = [];
+  sortKeys.forEach((key, index) => {
+    const equal = sortKeys.slice(0, index).map((previous, previousIndex) => {
+      params.push(values[previousIndex]);
+      return `${previous.expression} = ?`;
+    });
+    params.push(values[index]);
+    const comparison = `${key.expression} ${key.direction === "ASC" ? ">" : "<"} ?`;
+    alternatives.push(`(${[...equal, comparison].join(" AND ")})`);
+  });
+
+  return { condition: `(${alternatives.join(" OR ")})`, params };
+};
@@ -0,0 +1,65 @@
+import { AuthenticatedRequest } from "../middleware/auth";
+import { Roles } from "../types/enums";
+
+export interface StudentScope {
+  condition?: string;
+  params: any[];
+}
+
+/**
+ * Builds the WHERE fragment restricting a students query to the rows the
+ * caller may see. Student users only see the record linked to their own
+ * account, teachers see students enrolled in a class they own, and admins
+ * see every row.
+ *
+ * @param column - the students.id column as referenced in the query
+ */
+export const getStudentScope = (
+  user: AuthenticatedRequest["user"],
+  column = "id"
+): StudentScope => {
+  if (!user) return { condition: "0", params: [] };
+
+  switch (user.role) {
+    case Roles.ADMIN:
+      return { params: [] };
+
+    case Roles.TEACHER:
+      return {
+        condition: `${column} IN (SELECT e.student_id FROM enrollments e JOIN classes c ON c.id = e.class_id WHERE c.teacher_id = ?)`,
+        params: [user.id],
+      };
+
+    case Roles.STUDENT:
+      return {
+        condition: `${column} IN (SELECT student_id FROM student_accounts WHERE user_id = ?)`,
+        params: [user.id],
+      };
+
+    default:
+      return { condition: "0", params: [] };
+  }
+};
+
+/**
+ * Appends the caller's scope to a single-student lookup, e.g.
+ * `SELECT ... FROM students WHERE id = ?` + scope. Archived students are
+ * treated as missing unless `includeArchived` is set.
+ */
+export const scopedStudentQuery = (
+  user: AuthenticatedRequest["user"],
+  baseQuery: string,
+  params: any[],
+  includeArchived = false
+): [string, any[]] => {
+  const scope = getStudentScope(user);
+  const conditions = includeArchived ? [] : ["archived_at IS NULL"];
+  if (scope.condition) conditions.push(scope.condition);
+
+  if (conditions.length === 0) return [baseQuery, params];
+
+  return [
+    `${baseQuery} AND ${conditions.join(" AND ")}`,
+    [...params, ...scope.params],
+  ];
+};
@@ -0,0 +1,202 @@
+import { Database } from "../database/init";
+import { StudentScope } from "./studentScope";
+
+// Upper bounds on the rows read from the index and the matches returned
+const MAX_CANDIDATES = 2000;
+export const MAX_SEARCH_MATCHES = 1000;
+
+interface Candidate {
+  id: number;
+  name: string;
+  email: string;
+}
+
+const normalize = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+/**
+ * Edits (insert, delete, replace or swap two neighbours) between two words
+ */
+const editDistance = (a: string, b: string): number => {
+  const d = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++)
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1])
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+
+  return d[a.length][b.length];
+};
+
+/**
+ * How well one search term matches the best of the given words, from 1 for
+ * an exact word down to 0 for no match. Terms of three or more characters
+ * tolerate one typo against a whole word, from four characters also against
+ * a word's prefix, and from eight characters two typos.
+ */
+const scoreTerm = (term: string, words: string[]): number => {
+  let best = 0;
+
+  for (const word of words) {
+    if (word === term) return 1;
+    if (word.startsWith(term)) best = Math.max(best, 0.9);
+    else if (word.includes(term)) best = Math.max(best, 0.7);
+    else if (term.length >= 3) {
+      const distance = Math.min(
+        editDistance(term, word),
+        term.length >= 4 ? editDistance(term, word.slice(0, term.length)) : Infinity
+      );
+      const allowed = term.length >= 8 ? 2 : 1;
+      if (distance <= allowed) best = Math.max(best, 0.6 - 0.1 * (distance - 1));
+    }
+  }
+
+  return best;
+};
+
+const wordsOf = ({ name, email }: Candidate): string[] => {
+  const plainName = normalize(name);
+  const plainEmail = normalize(email);
+
+  return [
+    plainName,
+    ...plainName.split(/[\s'-]+/),
+    plainEmail,
+    ...plainEmail.split(/[._+@-]+/),
+  ].filter((word) => word.length > 0);
+};
+
+// Quoted FTS5 string; a double quote inside is written twice
+const ftsString = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+// LIKE pattern matching `value` anywhere, with its own % and _ taken literally
+const containsPattern = (value: string) => `%${value.replace(/[\\%_]/g, "\\$&")}%`;
+
+// Index rows joined to the students they belong to, and the conditions that
+// keep the candidates to the ones the caller may list
+const CANDIDATE_FROM = `
+  FROM students_fts
+  JOIN students s ON s.id = students_fts.rowid`;
+
+const candidateConditions = (
+  scope: StudentScope,
+  includeArchived: boolean
+): { conditions: string[]; params: any[] } => ({
+  conditions: [
+    ...(scope.condition ? [scope.condition] : []),
+    ...(includeArchived ? [] : ["s.archived_at IS NULL"]),
+  ],
+  params: scope.params,
+});
+
+/**
+ * Students in scope the index may match: any shared trigram with the longer
+ * terms, best bm25 rank first. Terms under three characters have no
+ * trigrams, so a search made only of those falls back to a substring scan
+ * that every term has to match.
+ */
+const findTrigramCandidates = async (
+  db: Database,
+  terms: string[],
+  restriction: { conditions: string[]; params: any[] }
+): Promise<Candidate[]> => {
+  const trigrams = new Set<string>();
+  terms
+    .filter((term) => term.length >= 3)
+    .forEach((term) => {
+      for (let i = 0; i + 3 <= term.length; i++) trigrams.add(term.slice(i, i + 3));
+    });
+
+  if (trigrams.size > 0)
+    return db.all(
+      `SELECT students_fts.rowid AS id, students_fts.name, students_fts.email
+       ${CANDIDATE_FROM}
+        WHERE ${["students_fts MATCH ?", ...restriction.conditions].join(" AND ")}
+        ORDER BY bm25(students_fts)
+        LIMIT ?`,
+      [[...trigrams].map(ftsString).join(" OR "), ...restriction.params, MAX_CANDIDATES]
+    );
+
+  const termConditions = terms.map(
+    () => "(students_fts.name LIKE ? ESCAPE '\\' OR students_fts.email LIKE ? ESCAPE '\\')"
+  );
+  return db.all(
+    `SELECT students_fts.rowid AS id, students_fts.name, students_fts.email
+     ${CANDIDATE_FROM}
+      WHERE ${[...termConditions, ...restriction.conditions].join(" AND ")}
+      LIMIT ?`,
+    [
+      ...terms.flatMap((term) => [containsPattern(term), containsPattern(term)]),
+      ...restriction.params,
+      MAX_CANDIDATES,
+    ]
+  );
+};
+
+const rankCandidates = (candidates: Candidate[], terms: string[]): number[] =>
+  candidates
+    .map((candidate, bm25Rank) => {
+      const words = wordsOf(candidate);
+      const scores = terms.map((term) => scoreTerm(term, words));
+      return {
+        id: candidate.id,
+        bm25Rank,
+        // Every word has to match something
+        score: scores.includes(0)
+          ? 0
+          : scores.reduce((sum, score) => sum + score, 0) / scores.length,
+      };
+    })
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score || a.bm25Rank - b.bm25Rank)
+    .slice(0, MAX_SEARCH_MATCHES)
+    .map((match) => match.id);
+
+/**
+ * Ids of the students in `scope` whose name or email matches every word of
+ * `search`, most relevant first. Words match as a prefix or anywhere inside
+ * a name or email part, and also with a typo. The scope (on `s.id`) and the
+ * archive filter apply before the candidate limits, so students the caller
+ * cannot list never push out the ones they can.
+ */
+export const rankStudentMatches = async (
+  db: Database,
+  search: string,
+  scope: StudentScope,
+  includeArchived = false
+): Promise<number[]> => {
+  const terms = normalize(search).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const restriction = candidateConditions(scope, includeArchived);
+  const matches = rankCandidates(
+    await findTrigramCandidates(db, terms, restriction),
+    terms
+  );
+  if (matches.length > 0) return matches;
+
+  // A typo in a short word can leave no trigram in common with the right
+  // one, so score every student in scope before giving up
+  const where =
+    restriction.conditions.length > 0
+      ? ` WHERE ${restriction.conditions.join(" AND ")}`
+      : "";
+  const everyone = await db.all(
+    `SELECT students_fts.rowid AS id, students_fts.name, students_fts.email
+     ${CANDIDATE_FROM}${where}
+      LIMIT ?`,
+    [...restriction.params, MAX_CANDIDATES]
+  );
+  return rankCandidates(everyone, terms);
+};
@@ -0,0 +1,24 @@
+import { getDatabase } from "../database/init";
+
+/**
+ * Names of every subject in the catalog, in display order.
+ */
+export const getSubjectNames = async (): Promise<string[]> => {
+  const rows = await getDatabase().all(
+    "SELECT name FROM subjects ORDER BY name ASC"
+  );
+  return rows.map((row) => row.name);
+};
+
+/**
+ * express-validator custom validator accepting only subjects that exist in
+ * the catalog, e.g. `body("subject").custom(isKnownSubject)`.
+ */
+export const isKnownSubject = async (value: unknown): Promise<true> => {
+  const subjects = await getSubjectNames();
+
+  if (typeof value !== "string" || !subjects.includes(value)) {
+    throw new Error(`Subject must be one of: ${subjects.join(", ")}`);
+  }
+  return true;
+};
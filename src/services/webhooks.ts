@@ -0,0 +1,315 @@
+import crypto from "crypto";
+import { Database, getDatabase } from "../database/init";
+import { config } from "../config";
+import { Webhook, WebhookDelivery } from "../types";
+import { StudentEvent, StudentEventType, subscribeToStudentEvents } from "./events";
+
+export const WEBHOOK_EVENTS: StudentEventType[] = [
+  "student.created",
+  "student.updated",
+  "student.deleted",
+];
+
+// Sent on request to check that an endpoint is reachable; not subscribable
+export const WEBHOOK_PING_EVENT = "webhook.ping";
+
+export const WEBHOOK_SELECT = `
+  SELECT id, url, events, description, is_active, created_by, created_at, updated_at
+    FROM webhooks`;
+
+export const WEBHOOK_DELIVERY_SELECT = `
+  SELECT id, webhook_id, event_type, payload, status, attempts, next_attempt_at,
+         last_attempt_at, response_status, last_error, redelivery_of, created_at, delivered_at
+    FROM webhook_deliveries`;
+
+// Deliveries checked per run of the retry loop
+const DUE_BATCH_SIZE = 50;
+
+// Receiver error messages are cut to this length in the delivery log
+const MAX_ERROR_LENGTH = 500;
+
+export const toWebhook = (row: any): Webhook => ({
+  id: row.id,
+  url: row.url,
+  events: JSON.parse(row.events),
+  description: row.description,
+  is_active: row.is_active === 1,
+  created_by: row.created_by,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export const toWebhookDelivery = (row: any): WebhookDelivery => ({
+  ...row,
+  payload: JSON.parse(row.payload),
+});
+
+export const generateWebhookSecret = (): string =>
+  crypto.randomBytes(32).toString("hex");
+
+/**
+ * Value of the X-Webhook-Signature header: an HMAC-SHA256 of
+ * "<timestamp>.<body>" keyed with the webhook's secret. Receivers recompute
+ * it to check the delivery came from us and was not altered or replayed
+ * with another timestamp.
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string
+): string =>
+  `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+// A delivery being attempted is not picked up by the retry loop until this
+// long after the attempt started, in case the process dies meanwhile
+const leaseUntil = (from: Date) =>
+  new Date(from.getTime() + config.webhooks.timeoutMs * 2).toISOString();
+
+/**
+ * Add a delivery of `payload` for every active webhook subscribed to
+ * `eventType`, or only for `webhookId` when given. Returns the delivery ids;
+ * the caller attempts them, the retry loop only picks them up if that
+ * attempt never finishes.
+ */
+export const queueWebhookDeliveries = async (
+  db: Database,
+  eventType: string,
+  payload: Record<string, unknown>,
+  webhookId?: number
+): Promise<number[]> => {
+  const webhooks: { id: number; events: string }[] =
+    webhookId === undefined
+      ? await db.all("SELECT id, events FROM webhooks WHERE is_active = 1")
+      : await db.all("SELECT id, events FROM webhooks WHERE id = ?", [webhookId]);
+
+  const body = JSON.stringify(payload);
+  const now = new Date();
+  const ids: number[] = [];
+
+  await db.withTransaction(async () => {
+    for (const webhook of webhooks) {
+      if (webhookId === undefined && !JSON.parse(webhook.events).includes(eventType))
+        continue;
+
+      const result = await db.run(
+        `INSERT INTO webhook_deliveries (webhook_id, event_type, payload, next_attempt_at, created_at)
+         VALUES (?, ?, ?, ?, ?)`,
+        [webhook.id, eventType, body, leaseUntil(now), now.toISOString()]
+      );
+      ids.push(result.lastID);
+    }
+  });
+
+  return ids;
+};
+
+/**
+ * Queue a copy of an earlier delivery. The payload is sent unchanged, so
+ * receivers can recognise the event by its id.
+ */
+export const queueRedelivery = async (
+  db: Database,
+  delivery: WebhookDelivery
+): Promise<number> => {
+  const now = new Date();
+  const result = await db.run(
+    `INSERT INTO webhook_deliveries
+       (webhook_id, event_type, payload, next_attempt_at, redelivery_of, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      delivery.webhook_id,
+      delivery.event_type,
+      JSON.stringify(delivery.payload),
+      leaseUntil(now),
+      delivery.id,
+      now.toISOString(),
+    ]
+  );
+  return result.lastID;
+};
+
+/**
+ * POST a delivery to its webhook once and record the outcome. Failures are
+ * retried with exponential backoff until config.webhooks.maxAttempts is
+ * reached; a 2xx answer counts as success. Returns null when the delivery
+ * no longer exists, e.g. because its webhook was deleted meanwhile.
+ */
+export const attemptDelivery = async (
+  db: Database,
+  deliveryId: number
+): Promise<WebhookDelivery | null> => {
+  const delivery = await db.get(
+    `SELECT d.id, d.event_type, d.payload, d.attempts, w.url, w.secret, w.is_active
+       FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id
+      WHERE d.id = ?`,
+    [deliveryId]
+  );
+  if (!delivery) return null;
+
+  const attemptedAt = new Date();
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  if (delivery.is_active !== 1) error = "Webhook is disabled";
+  else {
+    const timestamp = Math.floor(attemptedAt.getTime() / 1000);
+
+    try {
+      const response = await fetch(delivery.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "teacher-dashboard-webhooks",
+          "X-Webhook-Event": delivery.event_type,
+          "X-Webhook-Delivery": String(delivery.id),
+          "X-Webhook-Timestamp": String(timestamp),
+          "X-Webhook-Signature": signWebhookPayload(
+            delivery.secret,
+            timestamp,
+            delivery.payload
+          ),
+        },
+        body: delivery.payload,
+        redirect: "manual",
+        signal: AbortSignal.timeout(config.webhooks.timeoutMs),
+      });
+
+      responseStatus = response.status;
+      // Only the status matters; do not wait for the rest of the body
+      await response.body?.cancel();
+      if (!response.ok) error = `Receiver answered with status ${response.status}`;
+    } catch (requestError) {
+      error = (requestError as Error).message.slice(0, MAX_ERROR_LENGTH);
+    }
+  }
+
+  const succeeded = error === null;
+  const giveUp =
+    !succeeded &&
+    (attempts >= config.webhooks.maxAttempts || delivery.is_active !== 1);
+  const nextAttemptAt =
+    succeeded || giveUp
+      ? null
+      : new Date(
+          attemptedAt.getTime() +
+            config.webhooks.retryBaseSeconds * 1000 * 2 ** (attempts - 1)
+        ).toISOString();
+
+  await db.run(
+    `UPDATE webhook_deliveries
+        SET status = ?, attempts = ?, next_attempt_at = ?, last_attempt_at = ?,
+            response_status = ?, last_error = ?, delivered_at = ?
+      WHERE id = ?`,
+    [
+      succeeded ? "succeeded" : giveUp ? "failed" : "pending",
+      attempts,
+      nextAttemptAt,
+      attemptedAt.toISOString(),
+      responseStatus,
+      error,
+      succeeded ? new Date().toISOString() : null,
+      deliveryId,
+    ]
+  );
+
+  const row = await db.get(`${WEBHOOK_DELIVERY_SELECT} WHERE id = ?`, [
+    deliveryId,
+  ]);
+  return row ? toWebhookDelivery(row) : null;
+};
+
+let processing = false;
+let processAgain = false;
+
+/**
+ * Attempt every delivery that is due, one at a time. Calls made while a run
+ * is in progress make it look again once it is done instead of running in
+ * parallel, so a delivery is never sent twice at once.
+ */
+export const processDueDeliveries = async (): Promise<void> => {
+  if (processing) {
+    processAgain = true;
+    return;
+  }
+  processing = true;
+
+  try {
+    const db = getDatabase();
+
+    do {
+      processAgain = false;
+      const now = new Date();
+      const due: { id: number }[] = await db.all(
+        `SELECT id FROM webhook_deliveries
+          WHERE next_attempt_at IS NOT NULL AND next_attempt_at <= ?
+          ORDER BY next_attempt_at, id LIMIT ?`,
+        [now.toISOString(), DUE_BATCH_SIZE]
+      );
+
+      for (const { id } of due) {
+        // One failing delivery must not hold up the rest of the batch
+        try {
+          // Take the lease only if nobody else has since attempted or leased it
+          const leased = await db.run(
+            `UPDATE webhook_deliveries SET next_attempt_at = ?
+              WHERE id = ? AND next_attempt_at IS NOT NULL AND next_attempt_at <= ?`,
+            [leaseUntil(new Date()), id, new Date().toISOString()]
+          );
+          if (leased.changes > 0) await attemptDelivery(db, id);
+        } catch (error) {
+          console.error(`Webhook delivery ${id} failed:`, error);
+        }
+      }
+
+      if (due.length === DUE_BATCH_SIZE) processAgain = true;
+    } while (processAgain);
+  } catch (error) {
+    console.error("Webhook delivery run failed:", error);
+  } finally {
+    processing = false;
+  }
+};
+
+const onStudentEvent = async ({ type, student, actorId, timestamp }: StudentEvent) => {
+  try {
+    const ids = await queueWebhookDeliveries(getDatabase(), type, {
+      id: crypto.randomUUID(),
+      type,
+      occurredAt: timestamp,
+      actorId,
+      data: { student },
+    });
+
+    // New deliveries are leased to us, so the retry loop leaves them alone;
+    // one that fails here is picked up by it once the lease runs out
+    for (const id of ids) {
+      await attemptDelivery(getDatabase(), id).catch((error) =>
+        console.error(`Webhook delivery ${id} failed:`, error)
+      );
+    }
+  } catch (error) {
+    console.error(`Failed to queue webhook deliveries for ${type}:`, error);
+  }
+};
+
+/**
+ * Send student events to subscribed webhooks and retry failed deliveries
+ * every `config.webhooks.pollSeconds`. Returns a function that stops both.
+ */
+export const startWebhookDelivery = (): (() => void) => {
+  const unsubscribe = subscribeToStudentEvents((event) => {
+    void onStudentEvent(event);
+  });
+
+  void processDueDeliveries();
+  const timer = setInterval(processDueDeliveries, config.webhooks.pollSeconds * 1000);
+
+  // Never keep the process alive just for retries
+  timer.unref();
+
+  return () => {
+    unsubscribe();
+    clearInterval(timer);
+  };
+};
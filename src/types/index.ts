@@ -1,10 +1,19 @@
+import { Roles } from './enums';
+
 export interface Student {
   id: number;
   name: string;
   email: string;
-  subject: 'Math' | 'Science' | 'English' | 'History';
+  subject: string;
   grade: number;
   created_at?: string;
+  // Set when the student has been archived (soft-deleted)
+  archived_at?: string | null;
+  // Incremented on every change; exposed as the ETag for If-Match checks
+  version: number;
+  // The grade converted with the grading scale of the student's class or subject
+  letter_grade?: string | null;
+  gpa_points?: number | null;
 }
 
 export interface AuthRequest {
@@ -12,10 +21,189 @@ export interface AuthRequest {
   password: string;
 }
 
+export interface User {
+  id: number;
+  username: string;
+  email?: string | null;
+  role: Roles;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface Subject {
+  id: number;
+  name: string;
+  student_count?: number;
+  created_at?: string;
+}
+
+export interface GradingScaleBand {
+  label: string;
+  // Lowest grade that earns this label
+  min_grade: number;
+  gpa_points: number | null;
+}
+
+export interface GradingScale {
+  id: number;
+  name: string;
+  // Used for every subject and class without a scale of its own
+  is_default: boolean;
+  bands: GradingScaleBand[];
+  subjects: string[];
+  class_ids: number[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface SchoolClass {
+  id: number;
+  name: string;
+  subject: Student['subject'];
+  term: string;
+  teacher_id: number;
+  teacher_username?: string;
+  student_count?: number;
+  students?: Student[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type EnrollmentRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface EnrollmentRequest {
+  id: number;
+  class_id: number;
+  class_name: string;
+  email: string;
+  note: string | null;
+  status: EnrollmentRequestStatus;
+  requested_by: number | null;
+  requested_by_username: string | null;
+  reviewed_by: number | null;
+  reviewed_at: string | null;
+  created_at: string;
+  // The active student with this email; only shown to admins
+  student_id?: number | null;
+  student_name?: string | null;
+}
+
+export interface AssessmentCategory {
+  id: number;
+  name: string;
+  weight: number;
+  created_at?: string;
+}
+
+export interface Assessment {
+  id: number;
+  title: string;
+  category_id: number;
+  category_name?: string;
+  subject: Student['subject'];
+  class_id?: number | null;
+  max_score: number;
+  assessed_on: string;
+  created_by?: number | null;
+  score_count?: number;
+  scores?: AssessmentScore[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface AssessmentScore {
+  assessment_id: number;
+  student_id: number;
+  student_name?: string;
+  assessment_title?: string;
+  category_name?: string;
+  max_score?: number;
+  score: number;
+  percentage?: number;
+  assessed_on?: string;
+  recorded_at?: string;
+}
+
+export interface GradeBreakdown {
+  // Weighted average of the category percentages, null without any scores
+  currentGrade: number | null;
+  categories: {
+    categoryId: number;
+    name: string;
+    weight: number;
+    scoreCount: number;
+    percentage: number | null;
+  }[];
+}
+
+export interface StudentInvitation {
+  studentId: number;
+  email: string;
+  token: string;
+  expiresAt: string;
+}
+
+export interface StudentImportRowError {
+  // Line number in the uploaded file, counting the header as line 1
+  row: number;
+  email?: string;
+  errors: { field: string; message: string }[];
+}
+
+export interface StudentImportReport {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  imported: number;
+  errors: StudentImportRowError[];
+  // Created records, or on a dry run the normalized rows that would be created
+  students: (Omit<Student, 'id' | 'version'> & { id?: number; version?: number })[];
+}
+
+export interface StudentBatchItemResult {
+  id: number;
+  // Status the single-record endpoint would have answered for this student
+  status: number;
+  message: string;
+  data?: Student;
+}
+
+export interface StudentBatchReport {
+  // False when any item failed and the whole batch was rolled back
+  applied: boolean;
+  matched: number;
+  succeeded: number;
+  failed: number;
+  results: StudentBatchItemResult[];
+}
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface AuditLogEntry {
+  id: number;
+  entity_type: string;
+  entity_id: number;
+  action: AuditAction;
+  actor_id: number | null;
+  actor_username: string | null;
+  reason: string | null;
+  // Full record for create/delete; only the changed fields for update
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+}
+
 export interface AuthResponse {
   token: string;
+  refreshToken: string;
+  expiresIn: number;
+  refreshTokenExpiresAt: string;
   user: {
+    id: number;
     username: string;
+    role: Roles;
   };
 }
 
@@ -23,13 +211,224 @@ export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
   message?: string;
-  error?: string;
+}
+
+/**
+ * Body of every error response, sent as application/problem+json
+ * (RFC 7807). `message` repeats `detail` and `success`/`timestamp` match
+ * the success envelope, so clients can read both the same way.
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  // Machine-readable error code, see ErrorCode in src/errors.ts
+  code: string;
+  // Field errors of a failed validation
+  errors?: unknown[];
+  // Extra payload, e.g. the current state of a stale record on 412
+  data?: unknown;
+  success: false;
+  message: string;
+  timestamp: string;
+}
+
+export interface PaginatedResponse<T> {
+  success: boolean;
+  data: T[];
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalItems: number;
+    itemsPerPage: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+    // Opaque value for `cursor` that fetches the next page, where supported
+    nextCursor?: string | null;
+  };
+  message: string;
+  timestamp: string;
+  errors?: any[];
 }
 
 export interface Analytics {
   totalStudents: number;
+  // Every subject in the catalog; null when no students take it
   averageGradeBySubject: {
-    [subject: string]: number;
+    [subject: string]: number | null;
   };
+  // Average GPA points of the subject's students; null when none have any
+  averageGpaBySubject: {
+    [subject: string]: number | null;
+  };
+  // Number of students per letter grade, across all scales in use
+  letterGradeDistribution: { [letter: string]: number };
   recentAdditions: Student[];
+  // Students currently flagged by the at-risk rules (never includes archived)
+  atRiskCount: number;
+  // Percentage of recorded days attended; null when nothing was recorded
+  attendanceRate: number | null;
+  // Same per subject, keyed like averageGradeBySubject
+  attendanceRateBySubject: {
+    [subject: string]: number | null;
+  };
+}
+
+export type AtRiskReason = 'low_grade' | 'grade_drop';
+
+export interface AtRiskRule {
+  subjectId: number;
+  subject: string;
+  minGrade: number;
+  maxDrop: number;
+  // True when the subject has no rule of its own and uses the configured one
+  isDefault: boolean;
+}
+
+export interface AtRiskStudent {
+  id: number;
+  name: string;
+  subject: string;
+  grade: number;
+  // Grade before the most recent grade change, if there was one
+  previousGrade: number | null;
+  reasons: { reason: AtRiskReason; threshold: number }[];
+}
+
+export interface StudentAlert {
+  id: number;
+  student_id: number;
+  student_name: string;
+  subject: string;
+  reason: AtRiskReason;
+  grade: number;
+  previous_grade: number | null;
+  threshold: number;
+  created_at: string;
+  acknowledged_at: string | null;
+}
+
+export interface GradeStatistics {
+  count: number;
+  // All null when there are no grades
+  mean: number | null;
+  median: number | null;
+  standardDeviation: number | null;
+  min: number | null;
+  max: number | null;
+  // `to` is exclusive except in the last bucket, which includes 100
+  histogram: { from: number; to: number; count: number }[];
+  letterGrades: { [letter: string]: number };
+}
+
+export interface GradeDistribution {
+  overall: GradeStatistics;
+  // Every subject in the catalog, including those without students
+  bySubject: { [subject: string]: GradeStatistics };
+}
+
+export interface StudentPercentile {
+  id: number;
+  name: string;
+  subject: string;
+  grade: number;
+  // Share of the subject's students graded below, counting ties as half
+  percentile: number;
+  // 1 for the highest grade in the subject; ties share a rank
+  rank: number;
+  // Students of the subject the caller can see
+  subjectSize: number;
+}
+
+export type TrendInterval = 'week' | 'month';
+
+export interface GradeTrendPoint {
+  periodStart: string;
+  periodEnd: string;
+  // Students that existed at the end of the period, with their grade then
+  studentCount: number;
+  averageGrade: number | null;
+  added: number;
+  gradeChanges: number;
+}
+
+export type AttendanceStatus = 'present' | 'absent' | 'late' | 'excused';
+
+export interface AttendanceRecord {
+  id: number;
+  student_id: number;
+  // YYYY-MM-DD
+  date: string;
+  status: AttendanceStatus;
+  note: string | null;
+  class_id: number | null;
+  recorded_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AttendanceSummary {
+  present: number;
+  absent: number;
+  late: number;
+  excused: number;
+  // Present or late days out of all days not excused, as a percentage;
+  // null when there are none
+  rate: number | null;
+}
+
+export interface StudentAttendance {
+  studentId: number;
+  summary: AttendanceSummary;
+  records: AttendanceRecord[];
+}
+
+export interface ClassAttendanceEntry {
+  student_id: number;
+  student_name: string;
+  // Null until attendance is taken for the student
+  record_id: number | null;
+  status: AttendanceStatus | null;
+  note: string | null;
+}
+
+export interface ClassAttendance {
+  classId: number;
+  date: string;
+  summary: AttendanceSummary & { unrecorded: number };
+  students: ClassAttendanceEntry[];
+}
+
+export interface Webhook {
+  id: number;
+  url: string;
+  events: string[];
+  description: string | null;
+  is_active: boolean;
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+  // Only returned when the webhook is created or its secret is rotated
+  secret?: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: number;
+  webhook_id: number;
+  event_type: string;
+  payload: unknown;
+  // pending until it succeeds or runs out of attempts
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  last_error: string | null;
+  redelivery_of: number | null;
+  created_at: string;
+  delivered_at: string | null;
 }
@@ -0,0 +1,72 @@
+import { body, param } from "express-validator";
+import { ATTENDANCE_STATUSES } from "../services/attendance";
+
+const STATUS_MESSAGE = `Status must be one of: ${ATTENDANCE_STATUSES.join(", ")}`;
+
+export const attendanceDateRule = param("date")
+  .matches(/^\d{4}-\d{2}-\d{2}$/)
+  .isISO8601({ strict: true })
+  .withMessage("Date must be a valid date (YYYY-MM-DD)");
+
+const noteRule = (field: string) =>
+  body(field)
+    .optional({ values: "null" })
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Note must be at most 500 characters")
+    .escape();
+
+// Why existing records are changed; kept in their correction history
+const reasonRule = body("reason")
+  .optional()
+  .isString()
+  .trim()
+  .isLength({ min: 1, max: 200 })
+  .withMessage("Reason must be 1-200 characters")
+  .escape();
+
+/**
+ * Rules for recording or correcting one student's attendance for a day
+ */
+export const attendanceRules = [
+  attendanceDateRule,
+  body("status").isIn(ATTENDANCE_STATUSES).withMessage(STATUS_MESSAGE),
+  noteRule("note"),
+  reasonRule,
+];
+
+/**
+ * Rules for taking attendance for a whole class day
+ */
+export const classAttendanceRules = [
+  attendanceDateRule,
+
+  body("records")
+    .optional()
+    .isArray({ max: 500 })
+    .withMessage("records must be an array of at most 500 entries"),
+
+  body("records.*.studentId")
+    .isInt({ min: 1 })
+    .withMessage("Each studentId must be a positive integer")
+    .toInt(),
+
+  body("records.*.status").isIn(ATTENDANCE_STATUSES).withMessage(STATUS_MESSAGE),
+
+  noteRule("records.*.note"),
+
+  body("defaultStatus")
+    .optional()
+    .isIn(ATTENDANCE_STATUSES)
+    .withMessage(`defaultStatus must be one of: ${ATTENDANCE_STATUSES.join(", ")}`),
+
+  body()
+    .custom(
+      (value) =>
+        (value?.records?.length ?? 0) > 0 || value?.defaultStatus !== undefined
+    )
+    .withMessage("Send records, a defaultStatus or both"),
+
+  reasonRule,
+];
@@ -0,0 +1,59 @@
+import { body } from "express-validator";
+
+/**
+ * Rules for the name and bands of a grading scale. Every grade from 0 to 100
+ * must map to a band, so one band has to start at 0.
+ */
+export const gradingScaleRules = [
+  body("name")
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage("Name must be between 2 and 50 characters")
+    .escape(),
+
+  body("isDefault")
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage("isDefault must be true or false"),
+
+  body("bands")
+    .isArray({ min: 1, max: 20 })
+    .withMessage("bands must be a list of 1-20 bands"),
+
+  body("bands.*.label")
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 10 })
+    .withMessage("Band labels must be 1-10 characters")
+    .escape(),
+
+  body("bands.*.minGrade")
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Band minGrade must be between 0 and 100")
+    .toFloat(),
+
+  body("bands.*.gpaPoints")
+    .optional({ values: "null" })
+    .isFloat({ min: 0, max: 10 })
+    .withMessage("Band gpaPoints must be between 0 and 10")
+    .toFloat(),
+
+  body("bands")
+    .custom((bands: { label: string; minGrade: number }[]) => {
+      const labels = bands.map((band) => band.label.toLowerCase());
+      const minGrades = bands.map((band) => band.minGrade);
+
+      if (new Set(labels).size !== labels.length)
+        throw new Error("Band labels must be unique");
+      if (new Set(minGrades).size !== minGrades.length)
+        throw new Error("Band minGrade values must be unique");
+      if (!minGrades.includes(0))
+        throw new Error("One band must start at minGrade 0");
+      return true;
+    }),
+];
+
+// Body of the subject and class grading-scale assignments; null unassigns
+export const gradingScaleAssignmentRule = body("gradingScaleId")
+  .custom((value) => value === null || (Number.isInteger(value) && value > 0))
+  .withMessage("gradingScaleId must be a positive integer or null");
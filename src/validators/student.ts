@@ -0,0 +1,79 @@
+import { body } from "express-validator";
+import { isKnownSubject } from "../services/subjects";
+
+/**
+ * Field rules for a new student record. Shared by POST /students and the CSV
+ * import, which runs them against every row so both paths accept exactly the
+ * same data.
+ */
+export const studentFieldRules = [
+  body("name")
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage("Name must be between 2 and 100 characters")
+    .matches(/^[a-zA-Z\s'-]+$/)
+    .withMessage(
+      "Name can only contain letters, spaces, hyphens, and apostrophes"
+    )
+    .escape(), // Prevent XSS
+
+  body("email")
+    .trim()
+    .isEmail()
+    .withMessage("Valid email is required")
+    .isLength({ max: 255 })
+    .withMessage("Email must not exceed 255 characters")
+    .normalizeEmail()
+    .custom(async (email) => {
+      // Additional email validation can be added here
+      const disposableEmailDomains = ["tempmail.org", "10minutemail.com"];
+      const domain = email.split("@")[1];
+      if (disposableEmailDomains.includes(domain)) {
+        throw new Error("Disposable email addresses are not allowed");
+      }
+      return true;
+    }),
+
+  body("subject")
+    .trim()
+    .custom(isKnownSubject),
+
+  body("grade")
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Grade must be between 0 and 100")
+    .toFloat(),
+];
+
+/**
+ * Rules for changing an existing student: every field is optional. `prefix`
+ * locates the fields in the body, e.g. "changes." for the batch update.
+ */
+export const studentUpdateRules = (prefix = "") => [
+  body(`${prefix}name`)
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage("Name must be between 2 and 100 characters")
+    .matches(/^[a-zA-Z\s'-]+$/)
+    .withMessage("Name can only contain letters, spaces, hyphens, and apostrophes")
+    .escape(),
+
+  body(`${prefix}email`)
+    .optional()
+    .trim()
+    .isEmail()
+    .withMessage("Valid email is required")
+    .isLength({ max: 255 })
+    .withMessage("Email must not exceed 255 characters")
+    .normalizeEmail(),
+
+  body(`${prefix}subject`)
+    .optional()
+    .custom(isKnownSubject),
+
+  body(`${prefix}grade`)
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Grade must be between 0 and 100")
+    .toFloat(),
+];
@@ -0,0 +1,59 @@
+import { body } from "express-validator";
+import { WEBHOOK_EVENTS } from "../services/webhooks";
+
+const EVENTS_MESSAGE = `Events must be one of: ${WEBHOOK_EVENTS.join(", ")}`;
+
+// Fields shared by creating and updating a webhook; required on create only
+const webhookFieldRules = (required: boolean) => {
+  const field = (name: string) => (required ? body(name) : body(name).optional());
+
+  return [
+    field("url")
+      .isURL({ protocols: ["http", "https"], require_protocol: true, require_tld: false })
+      .withMessage("URL must be a valid http or https URL"),
+
+    field("events")
+      .isArray({ min: 1 })
+      .withMessage("events must be a non-empty list of event types"),
+
+    body("events.*").isIn(WEBHOOK_EVENTS).withMessage(EVENTS_MESSAGE),
+
+    body("description")
+      .optional({ values: "null" })
+      .isString()
+      .trim()
+      .isLength({ max: 200 })
+      .withMessage("Description must be at most 200 characters")
+      .escape(),
+  ];
+};
+
+/**
+ * Rules for subscribing a URL to student events
+ */
+export const createWebhookRules = [
+  ...webhookFieldRules(true),
+
+  body("secret")
+    .optional()
+    .isString()
+    .isLength({ min: 16, max: 200 })
+    .withMessage("Secret must be 16-200 characters"),
+];
+
+/**
+ * Rules for changing a webhook; every field is optional
+ */
+export const updateWebhookRules = [
+  ...webhookFieldRules(false),
+
+  body("isActive")
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage("isActive must be true or false"),
+
+  body("rotateSecret")
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage("rotateSecret must be true or false"),
+];
@@ -0,0 +1,64 @@
+import http from 'http';
+import crypto from 'crypto';
+import { signWebhookPayload } from './services/webhooks';
+
+const USAGE = `Usage: npm run webhook:receiver -- [port] [status]
+
+Listens for webhook deliveries on http://localhost:<port>/ (default 4000),
+prints each one and answers with <status> (default 200); answer e.g. 500 to
+see deliveries retried. Set WEBHOOK_SECRET to the webhook's secret to check
+the signature of every delivery.`;
+
+// Deliveries signed longer ago than this are reported as possible replays
+const MAX_AGE_SECONDS = 5 * 60;
+
+const port = Number(process.argv[2] ?? 4000);
+const status = Number(process.argv[3] ?? 200);
+const secret = process.env.WEBHOOK_SECRET;
+
+if (!Number.isInteger(port) || !Number.isInteger(status) || status < 100 || status > 599) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+/**
+ * Whether the delivery was signed with `secret`, compared in constant time
+ */
+const checkSignature = (req: http.IncomingMessage, body: string): string => {
+  if (!secret) return 'not checked (WEBHOOK_SECRET is not set)';
+
+  const timestamp = Number(req.headers['x-webhook-timestamp']);
+  const signature = String(req.headers['x-webhook-signature'] ?? '');
+  const expected = signWebhookPayload(secret, timestamp, body);
+
+  const valid =
+    signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  if (!valid) return 'INVALID';
+
+  const age = Math.floor(Date.now() / 1000) - timestamp;
+  return age > MAX_AGE_SECONDS ? `valid but signed ${age}s ago` : 'valid';
+};
+
+const server = http.createServer((req, res) => {
+  const chunks: Buffer[] = [];
+
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+
+    console.log(
+      `${new Date().toISOString()} ${req.method} ${req.url} ` +
+        `event=${req.headers['x-webhook-event']} delivery=${req.headers['x-webhook-delivery']} ` +
+        `signature=${checkSignature(req, body)} -> ${status}`
+    );
+    console.log(body);
+
+    res.writeHead(status, { 'Content-Type': 'text/plain' });
+    res.end(status < 300 ? 'ok' : 'error');
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/, answering ${status}`);
+});
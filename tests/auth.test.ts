@@ -0,0 +1,89 @@
+import { agent, api, closeDatabase, setupDatabase } from './helpers';
+
+/**
+ * Refresh tokens are single-use and a reused one ends the session; cookie
+ * sessions must pass the CSRF check to refresh or log out
+ */
+describe('/auth sessions', () => {
+  beforeAll(setupDatabase);
+  afterAll(closeDatabase);
+
+  const loginWithTokens = async () => {
+    const res = await api()
+      .post('/auth/login')
+      .send({ username: 'teacher', password: 'password123' })
+      .expect(200);
+    return res.body.data as { token: string; refreshToken: string };
+  };
+
+  const refresh = (refreshToken: string) =>
+    api().post('/auth/refresh').send({ refreshToken });
+
+  it('rotates the refresh token on every use', async () => {
+    const first = await loginWithTokens();
+
+    const res = await refresh(first.refreshToken).expect(200);
+    const second = res.body.data;
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+
+    await api()
+      .get('/students')
+      .set('Authorization', `Bearer ${second.token}`)
+      .expect(200);
+    await refresh(second.refreshToken).expect(200);
+  });
+
+  it('revokes the whole session when a used refresh token comes back', async () => {
+    const first = await loginWithTokens();
+    const { body } = await refresh(first.refreshToken).expect(200);
+
+    const reused = await refresh(first.refreshToken).expect(401);
+    expect(reused.body.code).toBe('TOKEN_INVALID');
+
+    // The token issued by the legitimate refresh dies with the session
+    await refresh(body.data.refreshToken).expect(401);
+    const revoked = await api()
+      .get('/students')
+      .set('Authorization', `Bearer ${body.data.token}`)
+      .expect(403);
+    expect(revoked.body.code).toBe('SESSION_REVOKED');
+  });
+
+  describe('cookie sessions', () => {
+    const cookieLogin = async () => {
+      const browser = agent();
+      const res = await browser
+        .post('/auth/login')
+        .send({ username: 'teacher', password: 'password123', useCookie: true })
+        .expect(200);
+      expect(res.body.data).not.toHaveProperty('refreshToken');
+      return { browser, csrfToken: res.body.data.csrfToken as string };
+    };
+
+    it('refreshes only with the CSRF token', async () => {
+      const { browser, csrfToken } = await cookieLogin();
+
+      const missing = await browser.post('/auth/refresh').expect(403);
+      expect(missing.body.code).toBe('CSRF_TOKEN_INVALID');
+      await browser.post('/auth/refresh').set('X-CSRF-Token', 'wrong').expect(403);
+
+      const res = await browser
+        .post('/auth/refresh')
+        .set('X-CSRF-Token', csrfToken)
+        .expect(200);
+      expect(res.body.data.csrfToken).not.toBe(csrfToken);
+      await browser.get('/students').expect(200);
+    });
+
+    it('logs out only with the CSRF token', async () => {
+      const { browser, csrfToken } = await cookieLogin();
+
+      const missing = await browser.post('/auth/logout').expect(403);
+      expect(missing.body.code).toBe('CSRF_TOKEN_INVALID');
+      await browser.get('/students').expect(200);
+
+      await browser.post('/auth/logout').set('X-CSRF-Token', csrfToken).expect(200);
+      await browser.get('/students').expect(401);
+    });
+  });
+});
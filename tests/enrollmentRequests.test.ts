@@ -0,0 +1,130 @@
+import { api, closeDatabase, createTeacher, login, setupDatabase } from './helpers';
+
+/**
+ * Teachers ask admins to enroll students outside their classes by email,
+ * without learning whether or to whom the email belongs
+ */
+describe('enrollment requests', () => {
+  let adminToken: string;
+  let otherTeacherToken: string;
+  let otherClassId: number;
+  let student: { id: number; name: string; email: string };
+
+  beforeAll(async () => {
+    await setupDatabase();
+    adminToken = await login('admin', 'admin123');
+    const teacherToken = await login('teacher', 'password123');
+    otherTeacherToken = await createTeacher(adminToken, 'other.teacher');
+
+    const created = await api()
+      .post('/classes')
+      .set('Authorization', `Bearer ${otherTeacherToken}`)
+      .send({ name: 'Math B', subject: 'Math', term: 'Fall' })
+      .expect(201);
+    otherClassId = created.body.data.id;
+
+    const students = await api()
+      .get('/students?limit=1')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(200);
+    const found = await api()
+      .get(`/students/${students.body.data[0].id}`)
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(200);
+    student = found.body.data;
+  });
+
+  afterAll(closeDatabase);
+
+  const requestEnrollment = (email: string) =>
+    api()
+      .post(`/classes/${otherClassId}/enrollment-requests`)
+      .set('Authorization', `Bearer ${otherTeacherToken}`)
+      .send({ email })
+      .expect(202);
+
+  it('answers the same for known and unknown emails', async () => {
+    const known = await requestEnrollment(student.email);
+    const unknown = await requestEnrollment('nobody@example.com');
+
+    expect(Object.keys(known.body.data).sort()).toEqual(Object.keys(unknown.body.data).sort());
+    expect(known.body.data).not.toHaveProperty('student_id');
+    expect(known.body.message).toBe(unknown.body.message);
+    expect(known.body.data).toMatchObject({ email: student.email, status: 'pending' });
+  });
+
+  it("turns creating another teacher's student into the pending request", async () => {
+    const pending = await requestEnrollment(student.email);
+
+    const res = await api()
+      .post('/students')
+      .set('Authorization', `Bearer ${otherTeacherToken}`)
+      .send({
+        name: 'Someone Else',
+        email: student.email,
+        subject: 'Math',
+        grade: 50,
+        classId: otherClassId,
+      })
+      .expect(202);
+
+    expect(res.body.data.id).toBe(pending.body.data.id);
+    expect(res.body.data).not.toHaveProperty('student_id');
+    expect(JSON.stringify(res.body)).not.toContain(student.name);
+  });
+
+  it('lets an admin approve a request, which enrolls the student', async () => {
+    const listed = await api()
+      .get('/enrollment-requests')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    const request = listed.body.data.find(
+      (item: { email: string }) => item.email === student.email
+    );
+    expect(request.student_id).toBe(student.id);
+
+    await api()
+      .post(`/enrollment-requests/${request.id}/approve`)
+      .set('Authorization', `Bearer ${otherTeacherToken}`)
+      .expect(403);
+
+    await api()
+      .post(`/enrollment-requests/${request.id}/approve`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    const visible = await api()
+      .get('/students')
+      .set('Authorization', `Bearer ${otherTeacherToken}`)
+      .expect(200);
+    expect(visible.body.data.map((item: { id: number }) => item.id)).toEqual([student.id]);
+
+    await api()
+      .post(`/enrollment-requests/${request.id}/approve`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(409);
+  });
+
+  it('refuses to approve a request no student matches, which can be rejected', async () => {
+    const { body } = await requestEnrollment('nobody@example.com');
+
+    const res = await api()
+      .post(`/enrollment-requests/${body.data.id}/approve`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(422);
+    expect(res.body.code).toBe('NO_MATCHING_STUDENT');
+
+    await api()
+      .post(`/enrollment-requests/${body.data.id}/reject`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    const own = await api()
+      .get('/enrollment-requests?status=rejected')
+      .set('Authorization', `Bearer ${otherTeacherToken}`)
+      .expect(200);
+    expect(own.body.data).toEqual([
+      expect.objectContaining({ id: body.data.id, status: 'rejected' }),
+    ]);
+  });
+});
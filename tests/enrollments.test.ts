@@ -0,0 +1,93 @@
+import { api, closeDatabase, createTeacher, login, setupDatabase } from './helpers';
+
+/**
+ * Teachers may only enroll students they can already see
+ */
+describe('POST /classes/:id/enrollments', () => {
+  let adminToken: string;
+  let teacherToken: string;
+  let otherTeacherToken: string;
+  let otherClassId: number;
+
+  beforeAll(async () => {
+    await setupDatabase();
+    adminToken = await login('admin', 'admin123');
+    teacherToken = await login('teacher', 'password123');
+    otherTeacherToken = await createTeacher(adminToken, 'other.teacher');
+
+    const res = await api()
+      .post('/classes')
+      .set('Authorization', `Bearer ${otherTeacherToken}`)
+      .send({ name: 'Math B', subject: 'Math', term: 'Fall' })
+      .expect(201);
+    otherClassId = res.body.data.id;
+  });
+
+  afterAll(closeDatabase);
+
+  const visibleStudentIds = async (token: string): Promise<number[]> => {
+    const res = await api()
+      .get('/students?limit=100')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    return res.body.data.map((student: { id: number }) => student.id);
+  };
+
+  it("reports another teacher's students as not found and enrolls nobody", async () => {
+    const [studentId] = await visibleStudentIds(teacherToken);
+
+    const res = await api()
+      .post(`/classes/${otherClassId}/enrollments`)
+      .set('Authorization', `Bearer ${otherTeacherToken}`)
+      .send({ studentIds: [studentId] })
+      .expect(404);
+
+    expect(res.body).toMatchObject({
+      status: 404,
+      code: 'NOT_FOUND',
+      detail: `Students not found: ${studentId}`,
+    });
+    expect(await visibleStudentIds(otherTeacherToken)).toEqual([]);
+  });
+
+  it('rejects the whole request when only some students are out of scope', async () => {
+    const [studentId] = await visibleStudentIds(teacherToken);
+
+    await api()
+      .post(`/classes/${otherClassId}/enrollments`)
+      .set('Authorization', `Bearer ${otherTeacherToken}`)
+      .send({ studentIds: [studentId, 9999] })
+      .expect(404);
+
+    expect(await visibleStudentIds(otherTeacherToken)).toEqual([]);
+  });
+
+  it("lets an admin enroll any student into a teacher's class", async () => {
+    const [studentId] = await visibleStudentIds(teacherToken);
+
+    await api()
+      .post(`/classes/${otherClassId}/enrollments`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ studentIds: [studentId] })
+      .expect(201);
+
+    expect(await visibleStudentIds(otherTeacherToken)).toEqual([studentId]);
+  });
+
+  it('lets a teacher enroll their own students into another of their classes', async () => {
+    const studentIds = await visibleStudentIds(teacherToken);
+    const created = await api()
+      .post('/classes')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({ name: 'Study Hall', subject: 'Math', term: 'Fall' })
+      .expect(201);
+
+    const res = await api()
+      .post(`/classes/${created.body.data.id}/enrollments`)
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({ studentIds })
+      .expect(201);
+
+    expect(res.body.data.enrolled).toEqual(studentIds);
+  });
+});
@@ -0,0 +1,88 @@
+import { api, closeDatabase, login, setupDatabase } from './helpers';
+
+/**
+ * Every error is answered as application/problem+json
+ */
+describe('problem+json errors', () => {
+  let token: string;
+
+  beforeAll(async () => {
+    await setupDatabase();
+    token = await login('admin', 'admin123');
+  });
+
+  afterAll(closeDatabase);
+
+  const expectProblem = (
+    res: { status: number; headers: Record<string, string>; body: any },
+    code: string
+  ) => {
+    expect(res.headers['content-type']).toMatch(/^application\/problem\+json/);
+    expect(res.body).toMatchObject({
+      type: 'about:blank',
+      status: res.status,
+      code,
+      success: false,
+    });
+    expect(res.body.title).toEqual(expect.any(String));
+    expect(res.body.detail).toBe(res.body.message);
+  };
+
+  it('maps unknown routes to 404', async () => {
+    const res = await api().get('/no-such-route').expect(404);
+
+    expectProblem(res, 'NOT_FOUND');
+    expect(res.body.instance).toBe('/no-such-route');
+  });
+
+  it('maps a missing access token to 401', async () => {
+    const res = await api().get('/students').expect(401);
+
+    expectProblem(res, 'TOKEN_REQUIRED');
+  });
+
+  it('maps failed validation to 400 with the field errors', async () => {
+    const res = await api()
+      .post('/students')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: '', email: 'not-an-email', subject: 'Math', grade: 150 })
+      .expect(400);
+
+    expectProblem(res, 'VALIDATION_FAILED');
+    expect(res.body.errors.length).toBeGreaterThan(0);
+  });
+
+  it('maps malformed JSON to 400', async () => {
+    const res = await api()
+      .post('/students')
+      .set('Authorization', `Bearer ${token}`)
+      .set('Content-Type', 'application/json')
+      .send('{"name":')
+      .expect(400);
+
+    expectProblem(res, 'INVALID_JSON');
+  });
+
+  it('maps a duplicate email to 409', async () => {
+    const student = { name: 'Duplicate', email: 'duplicate@example.com', subject: 'Math', grade: 80 };
+    await api().post('/students').set('Authorization', `Bearer ${token}`).send(student).expect(201);
+
+    const res = await api()
+      .post('/students')
+      .set('Authorization', `Bearer ${token}`)
+      .send(student)
+      .expect(409);
+
+    expectProblem(res, 'CONFLICT');
+  });
+
+  it('maps a missing record to 404', async () => {
+    const res = await api()
+      .get('/students/9999')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(404);
+
+    expectProblem(res, 'NOT_FOUND');
+    expect(res.body.instance).toBe('/students/9999');
+  });
+});
@@ -0,0 +1,39 @@
+import request from 'supertest';
+import app from '../src/app';
+import { getDatabase, initializeDatabase } from '../src/database/init';
+
+export const api = () => request(app);
+
+// Keeps the cookies it receives, like a browser
+export const agent = () => request.agent(app);
+
+/**
+ * Migrate and seed the test file's in-memory database. Call from beforeAll.
+ */
+export const setupDatabase = async (): Promise<void> => {
+  await initializeDatabase();
+};
+
+export const closeDatabase = async (): Promise<void> => {
+  await getDatabase().close();
+};
+
+/**
+ * Log in with a bearer token and return it
+ */
+export const login = async (username: string, password: string): Promise<string> => {
+  const res = await api().post('/auth/login').send({ username, password }).expect(200);
+  return res.body.data.token;
+};
+
+/**
+ * Create a teacher account (as admin) and log in as them
+ */
+export const createTeacher = async (adminToken: string, username: string): Promise<string> => {
+  await api()
+    .post('/users')
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({ username, password: 'teacher-password', role: 'teacher' })
+    .expect(201);
+  return login(username, 'teacher-password');
+};
@@ -0,0 +1,57 @@
+import { api, closeDatabase, login, setupDatabase } from './helpers';
+
+/**
+ * Retried requests with the same Idempotency-Key are answered from the
+ * stored response
+ */
+describe('Idempotency-Key', () => {
+  let token: string;
+
+  beforeAll(async () => {
+    await setupDatabase();
+    token = await login('admin', 'admin123');
+  });
+
+  afterAll(closeDatabase);
+
+  const createStudent = (key: string, email: string) =>
+    api()
+      .post('/students')
+      .set('Authorization', `Bearer ${token}`)
+      .set('Idempotency-Key', key)
+      .send({ name: 'Retry Student', email, subject: 'Math', grade: 70 });
+
+  it('replays the stored status, body and headers without running the request again', async () => {
+    const first = await createStudent('create-1', 'retry@example.com').expect(201);
+    const replay = await createStudent('create-1', 'retry@example.com').expect(201);
+
+    expect(first.headers['idempotent-replayed']).toBeUndefined();
+    expect(replay.headers['idempotent-replayed']).toBe('true');
+    expect(replay.body).toEqual(first.body);
+    expect(replay.headers.etag).toBe(first.headers.etag);
+    expect(replay.headers['content-type']).toBe(first.headers['content-type']);
+
+    const list = await api()
+      .get('/students?search=retry@example.com')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(list.body.pagination.totalItems).toBe(1);
+  });
+
+  it('replays error responses as problem+json', async () => {
+    // The email is taken by the previous test
+    const first = await createStudent('create-2', 'retry@example.com').expect(409);
+    const replay = await createStudent('create-2', 'retry@example.com').expect(409);
+
+    expect(replay.headers['idempotent-replayed']).toBe('true');
+    expect(replay.headers['content-type']).toMatch(/^application\/problem\+json/);
+    expect(replay.body).toEqual(first.body);
+  });
+
+  it('rejects a key reused for a different request', async () => {
+    await createStudent('create-3', 'first@example.com').expect(201);
+    const res = await createStudent('create-3', 'second@example.com').expect(422);
+
+    expect(res.body.code).toBe('IDEMPOTENCY_KEY_REUSED');
+  });
+});
@@ -0,0 +1,60 @@
+import { api, closeDatabase, login, setupDatabase } from './helpers';
+import { getDatabase } from '../src/database/init';
+import { getMigrationStatus, migrateDown, migrateUp } from '../src/database/migrator';
+import { migrations } from '../src/database/migrations';
+
+/**
+ * Every migration can be reverted on a seeded database and applied again
+ */
+describe('migrate down', () => {
+  beforeAll(setupDatabase);
+  afterAll(closeDatabase);
+
+  const tableNames = async (): Promise<string[]> => {
+    const rows = await getDatabase().all(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+    );
+    return rows.map((row) => row.name);
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('reverts the latest migration by default', async () => {
+    const latest = migrations[migrations.length - 1];
+
+    expect(await migrateDown(getDatabase())).toEqual([latest.version]);
+
+    const status = await getMigrationStatus(getDatabase());
+    expect(status.find((migration) => migration.version === latest.version)?.appliedAt).toBeNull();
+    expect(await migrateUp(getDatabase())).toEqual([latest.version]);
+  });
+
+  it('reverts every migration and applies them again', async () => {
+    const db = getDatabase();
+    const before = await tableNames();
+
+    const reverted = await migrateDown(db, migrations.length);
+    expect(reverted).toEqual(migrations.map((migration) => migration.version).reverse());
+    expect(await tableNames()).toEqual(['schema_migrations']);
+
+    await migrateUp(db);
+    expect(await tableNames()).toEqual(before);
+    expect(
+      (await getMigrationStatus(db)).every((migration) => migration.appliedAt !== null)
+    ).toBe(true);
+  });
+
+  it('serves requests once the re-created schema is seeded again', async () => {
+    await setupDatabase();
+    const token = await login('admin', 'admin123');
+
+    await api()
+      .get('/students')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+  });
+});
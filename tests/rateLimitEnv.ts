@@ -0,0 +1,6 @@
+// Low limits for tests/rateLimits.test.ts. Imported before the app, since
+// the limits are read once when the configuration is loaded.
+process.env.RATE_LIMIT_PER_USER = '3';
+process.env.RATE_LIMIT_LOGIN_PER_IP = '8';
+process.env.LOGIN_MAX_FAILURES = '3';
+process.env.LOGIN_LOCKOUT_SECONDS = '60';
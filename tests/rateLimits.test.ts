@@ -0,0 +1,52 @@
+import './rateLimitEnv';
+import { api, closeDatabase, login, setupDatabase } from './helpers';
+
+/**
+ * Requests over a limit get 429 with Retry-After, and repeated failed
+ * logins lock the username out. The limits come from tests/rateLimitEnv.ts.
+ */
+describe('rate limits and login lockout', () => {
+  beforeAll(setupDatabase);
+  afterAll(closeDatabase);
+
+  const attemptLogin = (username: string, password: string) =>
+    api().post('/auth/login').send({ username, password });
+
+  it('locks a username out after repeated failures, even for the right password', async () => {
+    await attemptLogin('teacher', 'wrong').expect(401);
+    await attemptLogin('teacher', 'wrong').expect(401);
+
+    const locked = await attemptLogin('teacher', 'wrong').expect(429);
+    expect(locked.body.code).toBe('LOGIN_LOCKED');
+    expect(locked.headers['retry-after']).toBe('60');
+
+    const refused = await attemptLogin('teacher', 'password123').expect(429);
+    expect(refused.body.code).toBe('LOGIN_LOCKED');
+  });
+
+  it('limits the requests of each signed-in user', async () => {
+    const token = await login('admin', 'admin123');
+    const listStudents = () =>
+      api().get('/students').set('Authorization', `Bearer ${token}`);
+
+    const first = await listStudents().expect(200);
+    expect(first.headers['ratelimit-limit']).toBe('3');
+    expect(first.headers['ratelimit-remaining']).toBe('2');
+    await listStudents().expect(200);
+    await listStudents().expect(200);
+
+    const limited = await listStudents().expect(429);
+    expect(limited.body.code).toBe('RATE_LIMITED');
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  it('limits login attempts per IP address whatever the username', async () => {
+    // Five attempts so far in this file; the eighth is the last allowed
+    await attemptLogin('nobody', 'wrong').expect(401);
+    await attemptLogin('someone', 'wrong').expect(401);
+    await attemptLogin('anyone', 'wrong').expect(401);
+
+    const limited = await attemptLogin('admin', 'admin123').expect(429);
+    expect(limited.body.code).toBe('RATE_LIMITED');
+  });
+});
@@ -0,0 +1,8 @@
+// Every test file gets its own in-memory database, seeded with the demo
+// accounts, and limits high enough that repeated logins are never refused
+process.env.NODE_ENV = 'test';
+process.env.DATABASE_PATH = ':memory:';
+process.env.JWT_SECRET = 'test-secret';
+process.env.RATE_LIMIT_PER_IP = '0';
+process.env.RATE_LIMIT_PER_USER = '0';
+process.env.RATE_LIMIT_LOGIN_PER_IP = '0';
@@ -0,0 +1,149 @@
+import { api, closeDatabase, login, setupDatabase } from './helpers';
+
+/**
+ * Conditional requests, cursor pages and all-or-nothing batches on /students
+ */
+describe('/students', () => {
+  let token: string;
+
+  beforeAll(async () => {
+    await setupDatabase();
+    token = await login('admin', 'admin123');
+  });
+
+  afterAll(closeDatabase);
+
+  const createStudent = async (email: string, grade: number) => {
+    const res = await api()
+      .post('/students')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Test Student', email, subject: 'Math', grade })
+      .expect(201);
+    return res.body.data as { id: number; grade: number; version: number };
+  };
+
+  describe('ETags', () => {
+    it('answers 304 while the student is unchanged and 200 after a change', async () => {
+      const { id } = await createStudent('etag@example.com', 70);
+      const first = await api()
+        .get(`/students/${id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      const etag = first.headers.etag;
+
+      await api()
+        .get(`/students/${id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .set('If-None-Match', etag)
+        .expect(304);
+
+      await api()
+        .put(`/students/${id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .set('If-Match', etag)
+        .send({ grade: 75 })
+        .expect(200);
+
+      const changed = await api()
+        .get(`/students/${id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .set('If-None-Match', etag)
+        .expect(200);
+      expect(changed.headers.etag).not.toBe(etag);
+    });
+
+    it('refuses a stale If-Match with 412 and the current record', async () => {
+      const { id } = await createStudent('stale@example.com', 60);
+      const { headers } = await api()
+        .get(`/students/${id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      await api()
+        .put(`/students/${id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ grade: 65 })
+        .expect(200);
+
+      const res = await api()
+        .put(`/students/${id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .set('If-Match', headers.etag)
+        .send({ grade: 90 })
+        .expect(412);
+      expect(res.body.code).toBe('PRECONDITION_FAILED');
+      expect(res.body.data).toMatchObject({ id, grade: 65, version: 2 });
+
+      await api()
+        .delete(`/students/${id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .set('If-Match', headers.etag)
+        .expect(412);
+    });
+  });
+
+  describe('cursor pagination', () => {
+    const listPage = (query: string, limit = 3) =>
+      api()
+        .get(`/students?sortBy=grade&sortOrder=desc&limit=${limit}${query}`)
+        .set('Authorization', `Bearer ${token}`);
+
+    it('walks every student once, even when rows are added in between', async () => {
+      const all = await listPage('', 100).expect(200);
+      const expected = all.body.data.map((student: { id: number }) => student.id);
+
+      const seen: number[] = [];
+      let res = await listPage('').expect(200);
+      seen.push(...res.body.data.map((student: { id: number }) => student.id));
+
+      // Sorted before everything already listed, so page numbers would
+      // repeat a row from the first page
+      await createStudent('top@example.com', 100);
+
+      while (res.body.pagination.nextCursor) {
+        res = await listPage(
+          `&cursor=${encodeURIComponent(res.body.pagination.nextCursor)}`
+        ).expect(200);
+        seen.push(...res.body.data.map((student: { id: number }) => student.id));
+      }
+
+      expect(seen).toEqual(expected);
+    });
+
+    it('rejects a cursor made for another sort order and a cursor with a page', async () => {
+      const res = await listPage('').expect(200);
+      const cursor = encodeURIComponent(res.body.pagination.nextCursor);
+
+      await api()
+        .get(`/students?sortBy=name&cursor=${cursor}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(400);
+      await listPage(`&cursor=${cursor}&page=2`).expect(400);
+    });
+  });
+
+  describe('batch changes', () => {
+    it('saves nothing when any student fails', async () => {
+      const low = await createStudent('batch-low@example.com', 50);
+      const high = await createStudent('batch-high@example.com', 98);
+
+      const res = await api()
+        .patch('/students/batch')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ ids: [low.id, high.id], changes: { gradeDelta: 5 } })
+        .expect(400);
+
+      expect(res.body.data).toMatchObject({ applied: false, succeeded: 1, failed: 1 });
+      expect(res.body.data.results).toEqual([
+        expect.objectContaining({ id: low.id, status: 200 }),
+        expect.objectContaining({ id: high.id, status: 400 }),
+      ]);
+
+      const unchanged = await api()
+        .get(`/students/${low.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(unchanged.body.data).toMatchObject({ grade: 50, version: 1 });
+    });
+  });
+});
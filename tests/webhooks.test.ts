@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { api, closeDatabase, login, setupDatabase } from './helpers';
+import { startWebhookDelivery } from '../src/services/webhooks';
+
+interface ReceivedDelivery {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const SECRET = 'receiver-test-secret';
+
+/**
+ * Deliveries reach a real HTTP receiver, signed with the webhook's secret
+ */
+describe('webhook deliveries', () => {
+  let token: string;
+  let server: http.Server;
+  let receiverUrl: string;
+  let webhookId: number;
+  let stopDelivery: () => void;
+  let responseStatus = 200;
+  const received: ReceivedDelivery[] = [];
+
+  beforeAll(async () => {
+    await setupDatabase();
+    token = await login('admin', 'admin123');
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(responseStatus).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+
+    const res = await api()
+      .post('/webhooks')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ url: receiverUrl, events: ['student.created'], secret: SECRET })
+      .expect(201);
+    webhookId = res.body.data.id;
+
+    stopDelivery = startWebhookDelivery();
+  });
+
+  afterAll(async () => {
+    stopDelivery();
+    await new Promise((resolve) => server.close(resolve));
+    await closeDatabase();
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+    responseStatus = 200;
+  });
+
+  // What a receiver has to do: recompute the HMAC over "<timestamp>.<body>"
+  const hasValidSignature = ({ headers, body }: ReceivedDelivery) => {
+    const expected = crypto
+      .createHmac('sha256', SECRET)
+      .update(`${headers['x-webhook-timestamp']}.${body}`)
+      .digest('hex');
+    return headers['x-webhook-signature'] === `sha256=${expected}`;
+  };
+
+  const waitForDelivery = async (): Promise<ReceivedDelivery> => {
+    for (let i = 0; i < 100 && received.length === 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    expect(received).toHaveLength(1);
+    return received[0];
+  };
+
+  it('signs a ping with the secret and records it as delivered', async () => {
+    const res = await api()
+      .post(`/webhooks/${webhookId}/ping`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(res.body.data).toMatchObject({ status: 'succeeded', response_status: 200, attempts: 1 });
+
+    const [delivery] = received;
+    expect(hasValidSignature(delivery)).toBe(true);
+    expect(delivery.headers['x-webhook-event']).toBe('webhook.ping');
+    expect(delivery.headers['x-webhook-delivery']).toBe(String(res.body.data.id));
+    expect(JSON.parse(delivery.body)).toMatchObject({ type: 'webhook.ping', data: { webhookId } });
+  });
+
+  it('delivers subscribed student events as they happen', async () => {
+    await api()
+      .post('/students')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Hook Student', email: 'hook@example.com', subject: 'Math', grade: 80 })
+      .expect(201);
+
+    const delivery = await waitForDelivery();
+    expect(hasValidSignature(delivery)).toBe(true);
+    expect(delivery.headers['x-webhook-event']).toBe('student.created');
+    expect(JSON.parse(delivery.body)).toMatchObject({
+      type: 'student.created',
+      data: { student: { email: 'hook@example.com' } },
+    });
+  });
+
+  it('keeps a delivery the receiver refused for a later retry', async () => {
+    responseStatus = 500;
+
+    const res = await api()
+      .post(`/webhooks/${webhookId}/ping`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(res.body.data).toMatchObject({
+      status: 'pending',
+      response_status: 500,
+      last_error: 'Receiver answered with status 500',
+    });
+    expect(res.body.data.next_attempt_at).not.toBeNull();
+    expect(hasValidSignature(received[0])).toBe(true);
+  });
+});